@@ -1,149 +1,404 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GamblingSite, SiteStatus, AgentLog } from './types';
-import { performDiscovery } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { GamblingSite, SiteStatus, AgentLog, ReviewVerdict } from './types';
+import { getConfiguredProviders } from './services/discoveryProvider';
+import { registryStore } from './services/registryStore';
+import { EXPORT_FORMATTERS, buildExport, getExportedSites } from './services/exporters';
+import { EXPORT_PROFILES, DEFAULT_EXPORT_PROFILE_ID, getExportProfile } from './services/exportPolicy';
+import { applyReviewDecision } from './services/reviewQueue';
+import { restoreStrategyState, createStrategyState, StrategyState } from './services/queryStrategy';
+import { applyImport, planImport, serializeRegistry, ImportEntry, ConflictResolution } from './services/registryImport';
+import { createRequestScheduler, withScheduler, UsageCounters, SchedulerConfig } from './services/requestScheduler';
+import { createAgentEngine, AgentSnapshot } from './services/agentEngine';
+import {
+  RegistryHistory,
+  RegistrySnapshot,
+  MutationKind,
+  HISTORY_META_KEY,
+  SNAPSHOTS_META_KEY,
+  createRegistryHistory,
+  recordMutation,
+  createSnapshot,
+  addSnapshot,
+} from './services/registryHistory';
+import {
+  BrandFamily,
+  FlaggedFamily,
+  MirrorSuggestion,
+  FLAGGED_FAMILIES_META_KEY,
+  createFlaggedFamily,
+  getFamilyLabel,
+  suggestFamilyMirrors,
+} from './services/brandFamilies';
+import {
+  StoredBlocklist,
+  EnrichmentOptions,
+  BLOCKLIST_META_KEY,
+  createFixtureResolver,
+  createStoredBlocklist,
+  enrichSites,
+  restoreBlocklist,
+} from './services/domainIntel';
+import { CycleRecord, CYCLE_LOG_META_KEY, appendCycleRecord } from './services/discoveryAnalytics';
+import { REGION_PROFILES, DEFAULT_REGION_ID, REGION_META_KEY, getRegionProfile, isRegionId } from './services/regionProfiles';
+import {
+  LogDetails,
+  LogRetention,
+  LOG_RETENTION_META_KEY,
+  DEFAULT_LOG_RETENTION,
+  applyLogRetention,
+  createLogEntry,
+  restoreLogRetention,
+  serializeLogsJsonl,
+} from './services/agentLog';
+import { ChatIngestionStats, createChatIngestion } from './services/chatIngestion';
+import { AllowlistSettings, ALLOWLIST_META_KEY, createAllowlistSettings, createAllowlistMatcher, restoreAllowlistSettings } from './services/allowlist';
 import ArchitectureDiagram from './components/ArchitectureDiagram';
+import FilterLab from './components/FilterLab';
+import ExportProfilePreview from './components/ExportProfilePreview';
+import ReviewQueue from './components/ReviewQueue';
+import ImportPanel from './components/ImportPanel';
+import RegistryTable from './components/RegistryTable';
+import QueryStrategyPanel from './components/QueryStrategyPanel';
+import ApiUsagePanel from './components/ApiUsagePanel';
+import RegistryHistoryPanel from './components/RegistryHistoryPanel';
+import AllowlistPanel from './components/AllowlistPanel';
+import BrandFamiliesPanel from './components/BrandFamiliesPanel';
+import DomainIntelPanel from './components/DomainIntelPanel';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import AgentLogPanel from './components/AgentLogPanel';
+import ChatIngestionPanel from './components/ChatIngestionPanel';
+
+const scheduler = createRequestScheduler();
+const fixtureResolver = createFixtureResolver();
+const providers = getConfiguredProviders().map(p => withScheduler(p, scheduler));
 
 const App: React.FC = () => {
   const [sites, setSites] = useState<GamblingSite[]>([]);
   const [logs, setLogs] = useState<AgentLog[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [isAutonomous, setIsAutonomous] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('situs slot gacor terbaru 2024');
+  const [logRetention, setLogRetention] = useState<LogRetention>(DEFAULT_LOG_RETENTION);
+  const [regionId, setRegionId] = useState(DEFAULT_REGION_ID);
+  const region = getRegionProfile(regionId);
+  const [searchQuery, setSearchQuery] = useState(region.seedQueries[0]);
   const [isCopied, setIsCopied] = useState(false);
-  const [autoCycleCount, setAutoCycleCount] = useState(0);
-  const [nextCycleCountdown, setNextCycleCountdown] = useState(0);
-  
-  const timerRef = useRef<number | null>(null);
-
-  const addLog = useCallback((message: string, type: AgentLog['type'] = 'info') => {
-    setLogs(prev => [{
-      timestamp: new Date().toLocaleTimeString(),
-      message,
-      type
-    }, ...prev].slice(0, 50));
-  }, []);
+  const [includeVariants, setIncludeVariants] = useState(false);
+  const [collapseFamilies, setCollapseFamilies] = useState(false);
+  const [exportFormatId, setExportFormatId] = useState(EXPORT_FORMATTERS[0].id);
+  const [exportProfileId, setExportProfileId] = useState(DEFAULT_EXPORT_PROFILE_ID);
+  const [exportRegionId, setExportRegionId] = useState<string | null>(null);
+  const exportRegions = useMemo(() => (exportRegionId ? [exportRegionId] : undefined), [exportRegionId]);
+  const [showProfilePreview, setShowProfilePreview] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<RegistryHistory>(createRegistryHistory);
+  const [snapshots, setSnapshots] = useState<RegistrySnapshot[]>([]);
+  const [showAllowlist, setShowAllowlist] = useState(false);
+  const [showFamilies, setShowFamilies] = useState(false);
+  const [showDomains, setShowDomains] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [cycleRecords, setCycleRecords] = useState<CycleRecord[]>([]);
+  const [storedBlocklist, setStoredBlocklist] = useState<StoredBlocklist | null>(null);
+  const blocklist = useMemo(() => restoreBlocklist(storedBlocklist), [storedBlocklist]);
+  const [flaggedFamilies, setFlaggedFamilies] = useState<FlaggedFamily[]>([]);
+  const mirrorSuggestions = useMemo(() => suggestFamilyMirrors(sites, flaggedFamilies), [sites, flaggedFamilies]);
+  const [allowlistSettings, setAllowlistSettings] = useState<AllowlistSettings>(createAllowlistSettings);
+  // Discovery checks the active region's dictionary; exports check the dictionaries of the regions they target
+  const allowlist = useMemo(() => createAllowlistMatcher(allowlistSettings, [regionId]), [allowlistSettings, regionId]);
+  const exportAllowlist = useMemo(() => createAllowlistMatcher(allowlistSettings, exportRegions), [allowlistSettings, exportRegions]);
+  const [strategyState, setStrategyState] = useState<StrategyState>(createStrategyState);
+  const exportProfile = getExportProfile(exportProfileId);
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem('gamblshield.reviewer') ?? '');
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [providerId, setProviderId] = useState(providers[0].id);
+  const provider = providers.find(p => p.id === providerId) ?? providers[0];
+  const [usage, setUsage] = useState<UsageCounters>(scheduler.getUsage);
+  const [budget, setBudget] = useState<SchedulerConfig>(scheduler.getConfig);
 
-  const handleDiscovery = async (customQuery?: string) => {
-    const queryToUse = customQuery || searchQuery;
-    if (!queryToUse.trim() || isSearching) return;
-    
-    setIsSearching(true);
-    
-    // Step 1: Learning Phase
-    setIsAnalyzing(true);
-    addLog(`Analyzing current registry for existing patterns...`, 'info');
-    const knownPatterns = sites.map(s => s.normalized_name);
-    if (knownPatterns.length > 0) {
-      addLog(`Knowledge base primed with ${knownPatterns.length} existing entries.`, 'success');
-    }
-    
-    await new Promise(r => setTimeout(r, 1000));
-    setIsAnalyzing(false);
+  // The engine reads the latest values through these refs instead of render-time closures
+  const sitesRef = useRef(sites);
+  sitesRef.current = sites;
+  const strategyRef = useRef(strategyState);
+  strategyRef.current = strategyState;
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+  const searchQueryRef = useRef(searchQuery);
+  searchQueryRef.current = searchQuery;
+  const regionRef = useRef(regionId);
+  regionRef.current = regionId;
+  const allowlistRef = useRef(allowlist);
+  allowlistRef.current = allowlist;
+  // Browsers cannot follow cross-origin redirects, so only the offline provider comes with a resolver
+  const enrichment: EnrichmentOptions = { blocklist, resolver: provider.id === 'fixture' ? fixtureResolver : undefined };
+  const enrichmentRef = useRef(enrichment);
+  enrichmentRef.current = enrichment;
+  const logRetentionRef = useRef(logRetention);
+  logRetentionRef.current = logRetention;
 
-    // Step 2: Discovery Phase
-    addLog(`Initiating context-aware search for: "${queryToUse}"`, 'info');
-    
-    try {
-      const { sites: newSites, sources } = await performDiscovery(queryToUse, knownPatterns);
-      
-      if (sources.length > 0) {
-        addLog(`Successfully indexed ${sources.length} public sources.`, 'success');
-      }
+  const [engine] = useState(() => createAgentEngine({
+    getSites: () => sitesRef.current,
+    getProvider: () => providerRef.current,
+    getStrategy: () => strategyRef.current,
+    getSeedQuery: () => searchQueryRef.current,
+    getAllowlist: () => allowlistRef.current,
+    getEnrichment: () => enrichmentRef.current,
+    getRegion: () => regionRef.current,
+  }));
+  const [agent, setAgent] = useState<AgentSnapshot>(engine.getSnapshot);
+  // Live chat sources keep feeding the registry while the panel is closed
+  const [chatIngestion] = useState(() => createChatIngestion({
+    getSites: () => sitesRef.current,
+    getAllowlist: () => allowlistRef.current,
+    getRegion: () => regionRef.current,
+  }));
+  const [chatStats, setChatStats] = useState<ChatIngestionStats>(chatIngestion.getStats);
+  const isAutonomous = agent.autonomous;
+  const isSearching = agent.state === 'analyzing' || agent.state === 'searching';
+
+  // Entries are appended to the store as they happen instead of rewriting the whole log
+  const addLog = useCallback((message: string, type: AgentLog['type'] = 'info', details: LogDetails = {}) => {
+    const entry = createLogEntry(message, type, details);
+    setLogs(prev => applyLogRetention([entry, ...prev], logRetentionRef.current));
+    registryStore.appendLogs([entry], logRetentionRef.current).catch(error => console.error('Failed to persist log entry', error));
+  }, []);
 
-      setSites(prev => {
-        const combined = [...newSites, ...prev];
-        const unique = Array.from(new Map(combined.map(item => [item.normalized_name, item])).values());
-        
-        const newCount = unique.length - prev.length;
-        if (newCount > 0) {
-            addLog(`Learned ${newCount} new unique site signatures.`, 'success');
-        } else {
-            addLog(`No new unique signatures found in this cycle.`, 'warning');
+  // Restore the registry from the previous session
+  useEffect(() => {
+    Promise.all([
+      registryStore.load(),
+      registryStore.loadMeta<StrategyState>('queryStrategy'),
+      registryStore.loadMeta<UsageCounters>('apiUsage'),
+      registryStore.loadMeta<Partial<SchedulerConfig>>('apiBudget'),
+      registryStore.loadMeta<RegistryHistory>(HISTORY_META_KEY),
+      registryStore.loadMeta<RegistrySnapshot[]>(SNAPSHOTS_META_KEY),
+      registryStore.loadMeta<AllowlistSettings>(ALLOWLIST_META_KEY),
+      registryStore.loadMeta<FlaggedFamily[]>(FLAGGED_FAMILIES_META_KEY),
+      registryStore.loadMeta<StoredBlocklist | null>(BLOCKLIST_META_KEY),
+      registryStore.loadMeta<CycleRecord[]>(CYCLE_LOG_META_KEY),
+      registryStore.loadMeta<string>(REGION_META_KEY),
+      registryStore.loadMeta<LogRetention>(LOG_RETENTION_META_KEY),
+    ])
+      .then(([state, savedStrategy, savedUsage, savedBudget, savedHistory, savedSnapshots, savedAllowlist, savedFamilies, savedBlocklist, savedCycles, savedRegion, savedLogRetention]) => {
+        setStrategyState(restoreStrategyState(savedStrategy));
+        if (savedHistory) setHistory(savedHistory);
+        if (savedSnapshots) setSnapshots(savedSnapshots);
+        setAllowlistSettings(restoreAllowlistSettings(savedAllowlist));
+        if (savedFamilies) setFlaggedFamilies(savedFamilies);
+        if (savedBlocklist) setStoredBlocklist(savedBlocklist);
+        if (savedCycles) setCycleRecords(savedCycles);
+        if (savedRegion && isRegionId(savedRegion)) {
+          setRegionId(savedRegion);
+          setSearchQuery(getRegionProfile(savedRegion).seedQueries[0]);
         }
-        
-        return unique;
-      });
-
-      addLog(`Discovery cycle complete.`, 'success');
-      if (isAutonomous) {
-        setAutoCycleCount(c => c + 1);
-        startCountdown();
-      }
-    } catch (error) {
-      console.error(error);
-      addLog(`Error during discovery: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-      if (isAutonomous) startCountdown(); // Retry after delay even on error
-    } finally {
-      setIsSearching(false);
-    }
-  };
+        if (savedBudget) {
+          scheduler.setConfig(savedBudget);
+          setBudget(scheduler.getConfig());
+        }
+        scheduler.restoreUsage(savedUsage);
+        setSites(state.sites);
+        const retention = restoreLogRetention(savedLogRetention);
+        const retainedLogs = applyLogRetention(state.logs, retention);
+        logRetentionRef.current = retention;
+        setLogRetention(retention);
+        // Appends prune as they go; this catches entries that expired while the app was closed
+        if (retainedLogs.length < state.logs.length) {
+          registryStore.saveLogs(retainedLogs).catch(error => console.error('Failed to prune logs', error));
+        }
+        setLogs(retainedLogs);
+        engine.restoreCycleCount(state.autoCycleCount);
+        if (state.sites.length > 0) {
+          addLog(`Restored ${state.sites.length} site signatures from local registry.`, 'success');
+        }
+      })
+      .catch(error => {
+        console.error(error);
+        addLog(`Failed to load local registry: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+      })
+      .finally(() => setIsHydrated(true));
+  }, [addLog, engine]);
 
-  const startCountdown = () => {
-    setNextCycleCountdown(15); // 15 second delay between auto-cycles
-  };
+  // Persist registry changes once the initial load has completed
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveSites(sites).catch(error => console.error('Failed to persist sites', error));
+  }, [sites, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(LOG_RETENTION_META_KEY, logRetention).catch(error => console.error('Failed to persist log retention', error));
+  }, [logRetention, isHydrated]);
 
-  // Autonomous Logic
   useEffect(() => {
-    if (isAutonomous && !isSearching && nextCycleCountdown === 0) {
-      // Logic to pick a "seed" from known database to evolve the search
-      let nextQuery = searchQuery;
-      if (sites.length > 0) {
-        const randomSite = sites[Math.floor(Math.random() * sites.length)];
-        const strategies = [
-          `link alternatif ${randomSite.site_name}`,
-          `situs serupa ${randomSite.site_name}`,
-          `daftar agen ${randomSite.site_name.split('.')[0]}`,
-          `promo terbaru ${randomSite.site_name}`
-        ];
-        nextQuery = strategies[Math.floor(Math.random() * strategies.length)];
+    if (!isHydrated) return;
+    registryStore.saveMeta('queryStrategy', strategyState).catch(error => console.error('Failed to persist query strategy', error));
+  }, [strategyState, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(HISTORY_META_KEY, history).catch(error => console.error('Failed to persist registry history', error));
+  }, [history, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(ALLOWLIST_META_KEY, allowlistSettings).catch(error => console.error('Failed to persist allowlist', error));
+  }, [allowlistSettings, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(FLAGGED_FAMILIES_META_KEY, flaggedFamilies).catch(error => console.error('Failed to persist flagged families', error));
+  }, [flaggedFamilies, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(BLOCKLIST_META_KEY, storedBlocklist).catch(error => console.error('Failed to persist domain blocklist', error));
+  }, [storedBlocklist, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(REGION_META_KEY, regionId).catch(error => console.error('Failed to persist region', error));
+  }, [regionId, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(CYCLE_LOG_META_KEY, cycleRecords).catch(error => console.error('Failed to persist cycle records', error));
+  }, [cycleRecords, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta(SNAPSHOTS_META_KEY, snapshots).catch(error => console.error('Failed to persist snapshots', error));
+  }, [snapshots, isHydrated]);
+
+  useEffect(() => scheduler.subscribe(setUsage), []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta('apiUsage', usage).catch(error => console.error('Failed to persist API usage', error));
+  }, [usage, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const { dailyCallBudget, dailyTokenBudget } = budget;
+    registryStore.saveMeta('apiBudget', { dailyCallBudget, dailyTokenBudget }).catch(error => console.error('Failed to persist API budget', error));
+  }, [budget, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    registryStore.saveMeta('autoCycleCount', agent.cycleCount).catch(error => console.error('Failed to persist cycle count', error));
+  }, [agent.cycleCount, isHydrated]);
+
+  // Every registry change goes through here so it lands in the versioned changelog
+  const mutateSites = useCallback((kind: MutationKind, summary: string, update: (prev: GamblingSite[]) => GamblingSite[], actor?: string) => {
+    const before = sitesRef.current;
+    const after = update(before);
+    sitesRef.current = after;
+    setSites(after);
+    setHistory(prev => recordMutation(prev, before, after, kind, summary, actor));
+  }, []);
+
+  useEffect(() => engine.subscribe(event => {
+    switch (event.type) {
+      case 'state':
+        setAgent(event.snapshot);
+        break;
+      case 'log': {
+        const { message, type, ...details } = event.entry;
+        addLog(message, type, details);
+        break;
       }
-      
-      addLog(`Autonomous trigger: Evolving search based on "${nextQuery}"`, 'info');
-      handleDiscovery(nextQuery);
+      case 'sites':
+        mutateSites('discovery', `Discovery cycle for "${event.query}"`, () => event.sites);
+        break;
+      case 'strategy':
+        strategyRef.current = event.state;
+        setStrategyState(event.state);
+        break;
+      case 'cycle':
+        setCycleRecords(prev => appendCycleRecord(prev, event.record));
+        break;
     }
-  }, [isAutonomous, isSearching, nextCycleCountdown]);
+  }), [engine, addLog, mutateSites]);
 
-  // Countdown timer effect
-  useEffect(() => {
-    if (isAutonomous && nextCycleCountdown > 0) {
-      const timer = window.setInterval(() => {
-        setNextCycleCountdown(prev => prev - 1);
-      }, 1000);
-      return () => clearInterval(timer);
+  // Stop the loop when the app unmounts so no timers outlive it
+  useEffect(() => () => engine.stop(), [engine]);
+
+  useEffect(() => chatIngestion.subscribe(event => {
+    switch (event.type) {
+      case 'log': {
+        const { message, type, ...details } = event.entry;
+        addLog(message, type, details);
+        break;
+      }
+      case 'sites':
+        mutateSites('chat', event.summary, () => event.sites);
+        break;
+      case 'stats':
+        setChatStats(event.stats);
+        break;
     }
-  }, [isAutonomous, nextCycleCountdown]);
+  }), [chatIngestion, addLog, mutateSites]);
+
+  useEffect(() => () => chatIngestion.stop(), [chatIngestion]);
 
-  const getCleanedList = () => {
-    return sites
-      .filter(s => s.status !== SiteStatus.FALSE_POSITIVE)
-      .map(s => s.normalized_name)
-      .join(' ');
+  const changeRegion = (id: string) => {
+    setRegionId(id);
+    setSearchQuery(getRegionProfile(id).seedQueries[0]);
   };
 
-  const downloadTxt = () => {
-    const content = getCleanedList();
-    const blob = new Blob([content], { type: 'text/plain' });
+  const updateBudget = (next: Partial<SchedulerConfig>) => {
+    scheduler.setConfig(next);
+    setBudget(scheduler.getConfig());
+  };
+
+  const getExport = () => {
+    const result = buildExport(sites, exportFormatId, { includeVariants, collapseFamilies, profile: exportProfile, allowlist: exportAllowlist, regions: exportRegions });
+    result.warnings.forEach(warning => addLog(warning, 'warning'));
+    return result;
+  };
+
+  const downloadFile = (filename: string, content: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `gambling_filter_${new Date().toISOString().split('T')[0]}.txt`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-    addLog(`Exported ${sites.length} sites to filter.txt`, 'success');
+  };
+
+  const takeSnapshot = (name: string) => {
+    const snapshot = createSnapshot(name, sitesRef.current, history);
+    setSnapshots(prev => addSnapshot(prev, snapshot));
+    return snapshot;
+  };
+
+  const downloadExport = () => {
+    const formatter = EXPORT_FORMATTERS.find(f => f.id === exportFormatId)!;
+    const { chunks } = getExport();
+    const total = chunks.reduce((sum, chunk) => sum + chunk.count, 0);
+    // Nothing to download means nothing was published, so no snapshot either
+    if (total === 0) {
+      addLog(`Nothing to export: no keywords match the ${exportProfile.label} profile and current filters.`, 'warning');
+      return;
+    }
+    chunks.forEach(chunk => downloadFile(chunk.filename, chunk.content, formatter.mimeType));
+    takeSnapshot(`${formatter.label} export (${exportProfile.label}) ${new Date().toLocaleString()}`);
+    addLog(`Exported ${total} keywords as ${formatter.label} with the ${exportProfile.label} profile (${chunks.length} file${chunks.length === 1 ? '' : 's'}).`, 'success');
   };
 
   const copyToClipboard = async () => {
-    const content = getCleanedList();
-    if (!content) return;
+    const { chunks } = getExport();
+    if (chunks.length === 0 || !chunks[0].content) return;
 
     try {
-      await navigator.clipboard.writeText(content);
+      await navigator.clipboard.writeText(chunks[0].content);
       setIsCopied(true);
-      addLog(`Copied ${sites.length} keywords to clipboard.`, 'success');
+      takeSnapshot(`Clipboard copy (${exportProfile.label}) ${new Date().toLocaleString()}`);
+      addLog(`Copied ${chunks[0].count} keywords to clipboard.`, 'success');
+      if (chunks.length > 1) {
+        addLog(`Only part 1 of ${chunks.length} was copied; use Export for the remaining parts.`, 'warning');
+      }
       setTimeout(() => setIsCopied(false), 2000);
     } catch (err) {
       addLog(`Failed to copy to clipboard.`, 'error');
@@ -151,13 +406,119 @@ const App: React.FC = () => {
   };
 
   const toggleStatus = (id: string) => {
-    setSites(prev => prev.map(s => {
-      if (s.id === id) {
-        const nextStatus = s.status === SiteStatus.ACTIVE ? SiteStatus.FALSE_POSITIVE : SiteStatus.ACTIVE;
-        return { ...s, status: nextStatus };
-      }
-      return s;
+    const site = sites.find(s => s.id === id);
+    if (!site) return;
+    const nextStatus = site.status === SiteStatus.FALSE_POSITIVE ? SiteStatus.ACTIVE : SiteStatus.FALSE_POSITIVE;
+    mutateSites('status', `Marked "${site.normalized_name}" ${nextStatus}`, prev => prev.map(s => (s.id === id ? { ...s, status: nextStatus } : s)), reviewer.trim() || undefined);
+  };
+
+  const deleteSite = (id: string) => {
+    const site = sites.find(s => s.id === id);
+    if (!site || !window.confirm(`Delete "${site.normalized_name}" from the registry? Marking it a false positive keeps it from being re-learned.`)) return;
+    mutateSites('delete', `Deleted "${site.normalized_name}"`, prev => prev.filter(s => s.id !== id), reviewer.trim() || undefined);
+    addLog(`Deleted "${site.normalized_name}" from the registry.`, 'info');
+  };
+
+  const bulkSetStatus = (ids: string[], status: SiteStatus) => {
+    const selected = new Set(ids);
+    mutateSites('status', `Marked ${ids.length} entries ${status}`, prev => prev.map(s => (selected.has(s.id) ? { ...s, status } : s)), reviewer.trim() || undefined);
+    addLog(`Marked ${ids.length} entries ${status}.`, 'info');
+  };
+
+  const bulkDelete = (ids: string[]) => {
+    if (!window.confirm(`Delete ${ids.length} entries from the registry? Marking them false positives keeps them from being re-learned.`)) return;
+    const selected = new Set(ids);
+    mutateSites('delete', `Deleted ${ids.length} entries`, prev => prev.filter(s => !selected.has(s.id)), reviewer.trim() || undefined);
+    addLog(`Deleted ${ids.length} entries from the registry.`, 'info');
+  };
+
+  const rollbackTo = (snapshot: RegistrySnapshot) => {
+    mutateSites('rollback', `Rolled back to "${snapshot.name}" (v${snapshot.version})`, () => snapshot.sites, reviewer.trim() || undefined);
+    addLog(`Rolled registry back to snapshot "${snapshot.name}" (${snapshot.sites.length} entries).`, 'warning');
+  };
+
+  const handleImport = (plan: ImportEntry[], resolutions: Record<string, ConflictResolution>, label: string) => {
+    // Re-plan against the latest registry in case a discovery cycle landed since the preview
+    mutateSites('import', `Imported ${label}`, prev => applyImport(prev, planImport(prev, plan.map(entry => entry.incoming), allowlist), resolutions), reviewer.trim() || undefined);
+    const added = plan.filter(entry => entry.category === 'new').length;
+    const suppressed = plan.filter(entry => entry.category === 'suppressed').length;
+    addLog(`Imported ${plan.length} entries from ${label}: ${added} new${suppressed > 0 ? `, ${suppressed} kept suppressed as false positives` : ''}.`, 'success');
+  };
+
+  const changeLogRetention = (retention: LogRetention) => {
+    const retained = applyLogRetention(logs, retention);
+    logRetentionRef.current = retention;
+    setLogRetention(retention);
+    if (retained.length < logs.length) {
+      setLogs(retained);
+      registryStore.saveLogs(retained).catch(error => console.error('Failed to prune logs', error));
+    }
+  };
+
+  const downloadLogs = (entries: AgentLog[]) => {
+    downloadFile(`gamblshield_log_${new Date().toISOString().split('T')[0]}.jsonl`, serializeLogsJsonl(entries), 'application/x-ndjson');
+  };
+
+  const downloadBackup = () => {
+    downloadFile(`gamblshield_registry_${new Date().toISOString().split('T')[0]}.json`, serializeRegistry(sites), 'application/json');
+    addLog(`Saved registry backup with ${sites.length} entries.`, 'success');
+  };
+
+  const changeReviewer = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem('gamblshield.reviewer', name);
+  };
+
+  const handleReviewDecision = (id: string, verdict: ReviewVerdict, note: string) => {
+    const site = sites.find(s => s.id === id);
+    if (!site) return;
+    mutateSites('review', `${verdict === 'approved' ? 'Approved' : 'Rejected'} "${site.normalized_name}"`, prev => prev.map(s => (s.id === id ? applyReviewDecision(s, verdict, reviewer, note) : s)), reviewer.trim() || 'anonymous');
+    addLog(`${reviewer.trim() || 'anonymous'} ${verdict} "${site.normalized_name}"${note.trim() ? `: ${note.trim()}` : ''}`, verdict === 'approved' ? 'success' : 'info');
+  };
+
+  const loadBlocklist = (content: string, label: string) => {
+    const stored = createStoredBlocklist(content, label);
+    if (stored.domains.length === 0) {
+      addLog(`No domains found in blocklist "${label}".`, 'error');
+      return;
+    }
+    setStoredBlocklist(stored);
+    addLog(`Loaded blocklist "${label}" with ${stored.domains.length} domains. Re-check the registry to apply it to existing entries.`, 'success');
+  };
+
+  const recheckDomains = async () => {
+    const before = sitesRef.current;
+    const { sites: enriched, logs: enrichmentLogs } = await enrichSites(before, enrichmentRef.current);
+    const replacements = new Map<string, { original: GamblingSite; enriched: GamblingSite }>(before.map((site, i) => [site.id, { original: site, enriched: enriched[i] }]));
+    // Entries edited while the check ran keep their newer state
+    mutateSites('enrichment', 'Re-checked domain intel', prev => prev.map(s => {
+      const replacement = replacements.get(s.id);
+      return replacement && replacement.original === s ? replacement.enriched : s;
     }));
+    enrichmentLogs.forEach(message => addLog(message));
+    addLog(`Re-checked domain intel for ${enriched.filter(site => site.domain_intel).length} entries with a domain.`, 'success');
+  };
+
+  // Confirms the family's pending members and watches for new mirrors of it
+  const flagFamily = (family: BrandFamily) => {
+    const label = getFamilyLabel(family);
+    const memberIds = new Set(family.members.map(site => site.id));
+    const actor = reviewer.trim() || 'anonymous';
+    mutateSites('review', `Flagged brand family "${label}"`, prev => prev.map(s => (
+      memberIds.has(s.id) && s.status === SiteStatus.FLAGGED ? applyReviewDecision(s, 'approved', actor, `Member of flagged family ${label}`) : s
+    )), actor);
+    setFlaggedFamilies(prev => [...prev, createFlaggedFamily(family, reviewer)]);
+    addLog(`${actor} flagged brand family "${label}" (${family.members.length} members); new mirrors will be suggested for approval.`, 'success');
+  };
+
+  const approveMirrors = (suggestions: MirrorSuggestion[]) => {
+    const familyBySite = new Map(suggestions.map(({ site, family }) => [site.id, getFamilyLabel(family)]));
+    const actor = reviewer.trim() || 'anonymous';
+    mutateSites('review', `Approved ${suggestions.length} mirror(s) of flagged families`, prev => prev.map(s => {
+      const label = familyBySite.get(s.id);
+      return label && s.status === SiteStatus.FLAGGED ? applyReviewDecision(s, 'approved', actor, `Mirror of flagged family ${label}`) : s;
+    }), actor);
+    addLog(`${actor} approved ${suggestions.length} mirror(s) of flagged brand families.`, 'success');
   };
 
   return (
@@ -176,7 +537,101 @@ const App: React.FC = () => {
             Intelligent extraction agent. Use <span className="text-indigo-400 font-bold">Autonomous Mode</span> to let the agent self-evolve and hunt for new signatures without manual input.
           </p>
         </div>
-        <div className="flex gap-3">
+        <div className="flex flex-wrap gap-3">
+          <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+            {EXPORT_PROFILES.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => setExportProfileId(profile.id)}
+                title={profile.description}
+                className={`px-3 py-2.5 text-sm font-medium transition-colors ${
+                  profile.id === exportProfileId ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                }`}
+              >
+                {profile.label}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowProfilePreview(!showProfilePreview)}
+              title="Compare export profiles"
+              className={`px-3 py-2.5 text-sm border-l border-slate-700 transition-colors ${showProfilePreview ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+            >
+              <i className="fas fa-eye"></i>
+            </button>
+          </div>
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700 ${showImport ? 'bg-slate-700 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-100'}`}
+          >
+            <i className="fas fa-file-import"></i>
+            Import
+          </button>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700 ${showHistory ? 'bg-slate-700 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-100'}`}
+          >
+            <i className="fas fa-code-branch"></i>
+            History
+          </button>
+          <button
+            onClick={() => setShowAllowlist(!showAllowlist)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700 ${showAllowlist ? 'bg-slate-700 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-100'}`}
+          >
+            <i className="fas fa-shield-heart"></i>
+            Allowlist
+          </button>
+          <button
+            onClick={() => setShowAnalytics(!showAnalytics)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700 ${showAnalytics ? 'bg-slate-700 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-100'}`}
+          >
+            <i className="fas fa-chart-column"></i>
+            Analytics
+          </button>
+          <button
+            onClick={() => setShowChat(!showChat)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700 ${showChat ? 'bg-slate-700 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-100'}`}
+          >
+            <i className="fas fa-comments"></i>
+            Live Chat
+            {chatStats.sources.some(source => source.status === 'live') && (
+              <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse"></span>
+            )}
+          </button>
+          <button
+            onClick={() => setShowDomains(!showDomains)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700 ${showDomains ? 'bg-slate-700 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-100'}`}
+          >
+            <i className="fas fa-globe"></i>
+            Domains
+          </button>
+          <button
+            onClick={() => setShowFamilies(!showFamilies)}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700 ${showFamilies ? 'bg-slate-700 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-100'}`}
+          >
+            <i className="fas fa-sitemap"></i>
+            Families
+            {mirrorSuggestions.length > 0 && (
+              <span className="bg-amber-500/20 text-amber-400 text-[10px] px-1.5 rounded-full font-bold">{mirrorSuggestions.length}</span>
+            )}
+          </button>
+          <label className="flex items-center gap-2 px-3 py-2.5 rounded-lg text-sm text-slate-300 bg-slate-800 border border-slate-700 cursor-pointer select-none" title="Add leetspeak, spaced and domain spellings of every keyword">
+            <input
+              type="checkbox"
+              checked={includeVariants}
+              onChange={(e) => setIncludeVariants(e.target.checked)}
+              className="accent-emerald-500"
+            />
+            Variants
+          </label>
+          <label className="flex items-center gap-2 px-3 py-2.5 rounded-lg text-sm text-slate-300 bg-slate-800 border border-slate-700 cursor-pointer select-none" title="Export each brand family as one rule built from its shared root">
+            <input
+              type="checkbox"
+              checked={collapseFamilies}
+              onChange={(e) => setCollapseFamilies(e.target.checked)}
+              className="accent-emerald-500"
+            />
+            Collapse families
+          </label>
           <button 
             onClick={copyToClipboard}
             disabled={sites.length === 0}
@@ -189,17 +644,96 @@ const App: React.FC = () => {
             <i className={`fas ${isCopied ? 'fa-check' : 'fa-copy'}`}></i>
             {isCopied ? 'Copied!' : 'Copy List'}
           </button>
+          <select
+            value={exportRegionId ?? ''}
+            onChange={(e) => setExportRegionId(e.target.value || null)}
+            title="Export only entries found by this region's discovery"
+            className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2.5 text-sm text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value="">All regions</option>
+            {REGION_PROFILES.map(r => (
+              <option key={r.id} value={r.id}>{r.label}</option>
+            ))}
+          </select>
+          <select
+            value={exportFormatId}
+            onChange={(e) => setExportFormatId(e.target.value)}
+            className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2.5 text-sm text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            {EXPORT_FORMATTERS.map(f => (
+              <option key={f.id} value={f.id}>{f.label}</option>
+            ))}
+          </select>
           <button 
-            onClick={downloadTxt}
+            onClick={downloadExport}
             disabled={sites.length === 0}
             className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed px-4 py-2.5 rounded-lg font-medium transition-colors border border-slate-700"
           >
             <i className="fas fa-file-export"></i>
-            Export TXT
+            Export
           </button>
         </div>
       </header>
 
+      {showProfilePreview && (
+        <ExportProfilePreview sites={sites} activeProfile={exportProfile} onSelect={setExportProfileId} />
+      )}
+
+      {showImport && (
+        <ImportPanel sites={sites} allowlist={allowlist} onApply={handleImport} onBackup={downloadBackup} />
+      )}
+
+      {showAnalytics && (
+        <AnalyticsPanel sites={sites} cycles={cycleRecords} strategy={strategyState} />
+      )}
+
+      {showChat && (
+        <ChatIngestionPanel
+          stats={chatStats}
+          onConnect={source => chatIngestion.addSource(source)}
+          onDisconnect={id => chatIngestion.removeSource(id)}
+        />
+      )}
+
+      {showDomains && (
+        <DomainIntelPanel
+          sites={sites}
+          blocklist={storedBlocklist ?? undefined}
+          resolverLabel={enrichment.resolver ? 'Offline fixtures (follows the discovery provider)' : null}
+          onLoadBlocklist={loadBlocklist}
+          onClearBlocklist={() => setStoredBlocklist(null)}
+          onRecheck={recheckDomains}
+        />
+      )}
+
+      {showFamilies && (
+        <BrandFamiliesPanel
+          sites={sites}
+          flaggedFamilies={flaggedFamilies}
+          suggestions={mirrorSuggestions}
+          onFlagFamily={flagFamily}
+          onUnflagFamily={id => setFlaggedFamilies(prev => prev.filter(f => f.id !== id))}
+          onApproveMirrors={approveMirrors}
+        />
+      )}
+
+      {showAllowlist && (
+        <AllowlistPanel sites={sites} settings={allowlistSettings} matcher={allowlist} onChange={setAllowlistSettings} />
+      )}
+
+      {showHistory && (
+        <RegistryHistoryPanel
+          sites={sites}
+          history={history}
+          snapshots={snapshots}
+          onSnapshot={name => {
+            const snapshot = takeSnapshot(name);
+            addLog(`Saved snapshot "${snapshot.name}" at v${snapshot.version}.`, 'success');
+          }}
+          onRollback={rollbackTo}
+        />
+      )}
+
       <ArchitectureDiagram />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -221,12 +755,12 @@ const App: React.FC = () => {
                 <span className="text-[10px] font-bold text-slate-500 uppercase">Auto Mode</span>
                 <button 
                   onClick={() => {
-                    setIsAutonomous(!isAutonomous);
-                    if (!isAutonomous) {
-                      addLog("Autonomous Mode ACTIVATED. Agent will now evolve self-queries.", "warning");
-                    } else {
-                      addLog("Autonomous Mode DEACTIVATED.", "info");
+                    if (!isAutonomous && scheduler.isBudgetExhausted()) {
+                      addLog("Daily API budget exhausted. Raise the budget or wait for tomorrow's reset.", "warning");
+                      return;
                     }
+                    if (isAutonomous) engine.stop();
+                    else engine.start();
                   }}
                   className={`relative inline-flex h-5 w-9 items-center rounded-full transition-colors focus:outline-none ${isAutonomous ? 'bg-indigo-600' : 'bg-slate-700'}`}
                 >
@@ -242,39 +776,98 @@ const App: React.FC = () => {
               </div>
               <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700">
                 <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Self-Cycles</div>
-                <div className="text-2xl font-bold text-indigo-400">{autoCycleCount}</div>
+                <div className="text-2xl font-bold text-indigo-400">{agent.cycleCount}</div>
               </div>
             </div>
 
+            <ApiUsagePanel usage={usage} budget={budget} onBudgetChange={updateBudget} />
+
             <div className="space-y-4">
               {isAutonomous ? (
                 <div className="bg-slate-900/80 p-4 rounded-lg border border-indigo-500/30 text-center">
                   {isSearching ? (
                     <div className="flex flex-col items-center gap-2">
                       <i className="fas fa-radar text-indigo-400 animate-ping text-xl mb-2"></i>
-                      <span className="text-xs text-indigo-300 font-mono">BROADCASTING EVOLVED QUERY...</span>
+                      <span className="text-xs text-indigo-300 font-mono">
+                        {agent.state === 'analyzing' ? 'ANALYZING KNOWN PATTERNS...' : 'BROADCASTING EVOLVED QUERY...'}
+                      </span>
+                    </div>
+                  ) : agent.state === 'paused' ? (
+                    <div className="flex flex-col items-center gap-2">
+                      <span className="text-xs text-amber-400 uppercase tracking-widest font-bold">Paused</span>
+                      {agent.lastError && <span className="text-[10px] text-slate-400 font-mono">{agent.lastError}</span>}
                     </div>
                   ) : (
                     <div className="flex flex-col items-center gap-2">
                       <span className="text-xs text-slate-400 uppercase tracking-widest font-bold">Next Self-Evolution In</span>
-                      <span className="text-3xl font-black text-indigo-400 font-mono">{nextCycleCountdown}s</span>
+                      <span className="text-3xl font-black text-indigo-400 font-mono">{agent.countdown}s</span>
+                      {agent.failureStreak > 0 && (
+                        <span className="text-[10px] text-rose-400 font-mono">Backing off after {agent.failureStreak} failure(s)</span>
+                      )}
                     </div>
                   )}
+                  <button
+                    onClick={() => (agent.state === 'paused' ? engine.resume() : engine.pause())}
+                    className="mt-3 px-3 py-1 text-[10px] font-bold uppercase rounded border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors"
+                  >
+                    <i className={`fas ${agent.state === 'paused' ? 'fa-play' : 'fa-pause'} mr-1`}></i>
+                    {agent.state === 'paused' ? 'Resume' : 'Pause'}
+                  </button>
                 </div>
               ) : (
                 <>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 uppercase mb-1.5">Discovery Provider</label>
+                    <select
+                      value={provider.id}
+                      onChange={(e) => setProviderId(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                    >
+                      {providers.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-500 uppercase mb-1.5">Region</label>
+                    <select
+                      value={regionId}
+                      onChange={(e) => changeRegion(e.target.value)}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
+                    >
+                      {REGION_PROFILES.map(r => (
+                        <option key={r.id} value={r.id}>{r.label} ({r.language})</option>
+                      ))}
+                    </select>
+                  </div>
                   <div>
                     <label className="block text-xs font-medium text-slate-500 uppercase mb-1.5">Seed Query Focus</label>
                     <input 
                       type="text"
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
-                      placeholder="e.g. situs judi slot online..."
+                      placeholder={`e.g. ${region.seedQueries[0]}`}
                       className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 outline-none transition-all"
                     />
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {region.seedQueries.map(query => (
+                        <button
+                          key={query}
+                          onClick={() => setSearchQuery(query)}
+                          className={`px-2 py-0.5 rounded text-[10px] font-mono border transition-colors ${
+                            query === searchQuery ? 'border-indigo-500 text-indigo-300' : 'border-slate-700 text-slate-500 hover:text-slate-300'
+                          }`}
+                        >
+                          {query}
+                        </button>
+                      ))}
+                    </div>
                   </div>
+                  {agent.state === 'error' && agent.lastError && (
+                    <p className="text-[11px] text-rose-400 font-mono">Last cycle failed: {agent.lastError}</p>
+                  )}
                   <button 
-                    onClick={() => handleDiscovery()}
+                    onClick={() => engine.runOnce()}
                     disabled={isSearching}
                     className={`w-full py-3 rounded-lg font-bold flex items-center justify-center gap-2 transition-all group overflow-hidden relative ${
                       isSearching 
@@ -290,152 +883,44 @@ const App: React.FC = () => {
             </div>
           </section>
 
-          <section className="bg-slate-800 p-6 rounded-xl border border-slate-700 h-[330px] flex flex-col">
-            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
-              <i className="fas fa-terminal text-slate-500"></i>
-              Intelligence Stream
-            </h2>
-            <div className="flex-1 overflow-y-auto space-y-2 pr-2 scrollbar-thin scrollbar-thumb-slate-700">
-              {logs.length === 0 && (
-                <p className="text-slate-500 text-center py-10 text-sm">Agent idle. Initiate cycle or activate Auto-Mode.</p>
-              )}
-              {logs.map((log, i) => (
-                <div key={i} className="text-[11px] font-mono border-l-2 border-slate-700 pl-3 py-1 bg-slate-900/20 rounded-r">
-                  <span className="text-slate-500 mr-2 opacity-50">[{log.timestamp}]</span>
-                  <span className={`${
-                    log.type === 'success' ? 'text-emerald-400 font-bold' : 
-                    log.type === 'error' ? 'text-rose-400' : 
-                    log.type === 'warning' ? 'text-indigo-400 animate-pulse' : 
-                    'text-slate-300'
-                  }`}>
-                    {log.message}
-                  </span>
-                </div>
-              ))}
-            </div>
-          </section>
+          <QueryStrategyPanel state={strategyState} regionId={regionId} onChange={setStrategyState} />
+
+          <AgentLogPanel logs={logs} retention={logRetention} onRetentionChange={changeLogRetention} onExport={downloadLogs} />
         </div>
 
         {/* Right Column: Database View */}
         <div className="lg:col-span-2">
-          <section className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-2xl">
-            <div className="px-6 py-4 bg-slate-800/80 backdrop-blur border-b border-slate-700 flex items-center justify-between sticky top-0 z-20">
-              <h2 className="text-lg font-semibold flex items-center gap-2">
-                <i className={`fas fa-database ${isAutonomous ? 'text-indigo-400' : 'text-emerald-500'}`}></i>
-                Evolving Registry
-              </h2>
-              <div className="flex items-center gap-3">
-                {isAutonomous && (
-                  <div className="flex items-center gap-1.5 px-3 py-1 rounded bg-indigo-500/10 border border-indigo-500/20">
-                    <div className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-ping"></div>
-                    <span className="text-[10px] font-black text-indigo-400 uppercase tracking-tighter">Self-Learning Active</span>
-                  </div>
-                )}
-                <span className="bg-emerald-500/10 text-emerald-400 text-xs px-2.5 py-1 rounded-full border border-emerald-500/20 font-bold">
-                  {sites.length} Identified
-                </span>
-              </div>
-            </div>
-            
-            <div className="overflow-x-auto">
-              <table className="w-full text-left text-sm">
-                <thead className="bg-slate-900/50 text-slate-500 uppercase text-[10px] tracking-widest sticky top-[60px] z-10">
-                  <tr>
-                    <th className="px-6 py-4 font-bold">Platform Identifier</th>
-                    <th className="px-6 py-4 font-bold">Keyword Signature</th>
-                    <th className="px-6 py-4 font-bold text-center">Confidence</th>
-                    <th className="px-6 py-4 font-bold text-center">Context</th>
-                    <th className="px-6 py-4 font-bold">Status</th>
-                    <th className="px-6 py-4 font-bold text-right">Action</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-700/50">
-                  {sites.length === 0 ? (
-                    <tr>
-                      <td colSpan={6} className="px-6 py-24 text-center text-slate-500">
-                        <div className="bg-slate-900 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 border border-slate-700">
-                          <i className="fas fa-search-plus text-2xl opacity-20"></i>
-                        </div>
-                        <p className="font-medium text-slate-400">Knowledge base awaiting seeds.</p>
-                      </td>
-                    </tr>
-                  ) : (
-                    sites.map((site) => (
-                      <tr key={site.id} className="hover:bg-slate-700/30 transition-all group">
-                        <td className="px-6 py-4">
-                          <div className="font-semibold text-slate-200 group-hover:text-emerald-400 transition-colors uppercase tracking-tight">{site.site_name}</div>
-                          <div className="text-[9px] text-slate-500 mt-0.5 font-mono">DISCOVERED: {new Date(site.first_seen).toLocaleTimeString()}</div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <span className="bg-slate-900 px-2 py-1 rounded font-mono text-indigo-400 text-xs border border-indigo-500/10">
-                            {site.normalized_name}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4">
-                          <div className="flex flex-col items-center">
-                            <span className={`text-[10px] font-black ${
-                              site.confidence_score > 0.8 ? 'text-emerald-400' : 
-                              site.confidence_score > 0.5 ? 'text-amber-400' : 'text-slate-400'
-                            }`}>
-                              {(site.confidence_score * 100).toFixed(0)}%
-                            </span>
-                            <div className="w-16 h-1 bg-slate-700 rounded-full mt-1.5 overflow-hidden">
-                              <div 
-                                className={`h-full transition-all duration-1000 ${
-                                  site.confidence_score > 0.8 ? 'bg-emerald-500' : 
-                                  site.confidence_score > 0.5 ? 'bg-amber-500' : 'bg-slate-500'
-                                }`}
-                                style={{ width: `${site.confidence_score * 100}%` }}
-                              />
-                            </div>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 text-center">
-                          <div className="flex items-center justify-center gap-1">
-                             <span className="text-slate-400 font-bold text-xs">
-                              {site.source_count}
-                            </span>
-                            <i className="fas fa-link text-[10px] text-slate-600"></i>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4">
-                          <span className={`inline-flex items-center px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-widest border ${
-                            site.status === SiteStatus.ACTIVE 
-                            ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' 
-                            : 'bg-rose-500/10 text-rose-400 border-rose-500/20'
-                          }`}>
-                            {site.status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 text-right">
-                          <button 
-                            onClick={() => toggleStatus(site.id)}
-                            className="w-8 h-8 rounded-lg bg-slate-900 border border-slate-700 text-slate-500 hover:text-white hover:border-slate-500 transition-all flex items-center justify-center mx-auto"
-                            title={site.status === SiteStatus.ACTIVE ? "Flag False Positive" : "Restore"}
-                          >
-                            <i className={`fas ${site.status === SiteStatus.ACTIVE ? 'fa-shield-slash' : 'fa-check'}`}></i>
-                          </button>
-                        </td>
-                      </tr>
-                    ))
-                  )}
-                </tbody>
-              </table>
-            </div>
-          </section>
+          <ReviewQueue
+            sites={sites}
+            reviewer={reviewer}
+            onReviewerChange={changeReviewer}
+            onDecision={handleReviewDecision}
+            suggestions={mirrorSuggestions}
+          />
+
+          <RegistryTable
+            sites={sites}
+            isAutonomous={isAutonomous}
+            onToggleStatus={toggleStatus}
+            onDelete={deleteSite}
+            onBulkStatus={bulkSetStatus}
+            onBulkDelete={bulkDelete}
+          />
         </div>
       </div>
       
+      <FilterLab sites={getExportedSites(sites, { profile: exportProfile, allowlist: exportAllowlist, regions: exportRegions })} />
+      
       {/* Footer Info */}
       <footer className="mt-12 pt-8 border-t border-slate-800 text-slate-500 text-sm flex flex-col md:flex-row justify-between items-center gap-6">
         <div className="flex items-center gap-6">
           <span className="flex items-center gap-2">
             <div className={`w-2.5 h-2.5 rounded-full shadow-[0_0_8px_rgba(16,185,129,0.5)] ${isAutonomous ? 'bg-indigo-500 animate-pulse' : 'bg-emerald-500'}`}></div> 
-            Status: {isAutonomous ? 'Autonomous Hunting' : 'Active - Ready'}
+            Status: {agent.state === 'paused' ? 'Autonomous Paused' : isAutonomous ? 'Autonomous Hunting' : 'Active - Ready'}
           </span>
           <span className="flex items-center gap-2">
             <i className="fas fa-microchip text-indigo-400"></i>
-            Grounding Engine: Gemini-3-Flash
+            Grounding Engine: {provider.label}
           </span>
         </div>
         <div className="flex items-center gap-4 text-xs font-mono">
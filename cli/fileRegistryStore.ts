@@ -0,0 +1,111 @@
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { AgentLog, GamblingSite } from "../types";
+import { RegistryStore } from "../services/registryStore";
+import { applyLogRetention } from "../services/agentLog";
+import { REGISTRY_SCHEMA_VERSION, migrateSiteRecord } from "../services/registrySchema";
+
+// Same envelope as the browser backup so files can move between the CLI and the UI
+interface RegistryDocument {
+  format: 'gamblshield-registry';
+  schema_version: number;
+  exported_at: string;
+  sites: GamblingSite[];
+  logs: AgentLog[];
+  meta: Record<string, unknown>;
+}
+
+const emptyDocument = (): RegistryDocument => ({
+  format: 'gamblshield-registry',
+  schema_version: REGISTRY_SCHEMA_VERSION,
+  exported_at: new Date().toISOString(),
+  sites: [],
+  logs: [],
+  meta: {},
+});
+
+const readDocument = async (path: string): Promise<RegistryDocument> => {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyDocument();
+    throw error;
+  }
+
+  const parsed = JSON.parse(content);
+  const version = typeof parsed.schema_version === 'number' ? parsed.schema_version : 0;
+  const records: unknown[] = Array.isArray(parsed) ? parsed : parsed.sites ?? [];
+  return {
+    ...emptyDocument(),
+    sites: records.map(record => migrateSiteRecord(record, version)),
+    logs: Array.isArray(parsed.logs) ? parsed.logs : [],
+    meta: parsed.meta && typeof parsed.meta === 'object' ? parsed.meta : {},
+  };
+};
+
+const modifiedAt = (path: string) => stat(path).then(stats => stats.mtimeMs, () => null);
+
+// Stores the whole registry in one JSON file; writes go through a temp file so a crash never leaves it half written
+export const createFileRegistryStore = (path: string): RegistryStore => {
+  let cached: Promise<RegistryDocument> | null = null;
+  let cachedMtime: number | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  // Re-reads the file when another process (e.g. a CLI run next to the server) has replaced it
+  const getDocument = async () => {
+    const mtime = await modifiedAt(path);
+    if (!cached || mtime !== cachedMtime) {
+      cached = readDocument(path);
+      cachedMtime = mtime;
+    }
+    return cached;
+  };
+
+  const update = (change: (doc: RegistryDocument) => RegistryDocument) => {
+    writeQueue = writeQueue.catch(() => undefined).then(async () => {
+      const next = change(await getDocument());
+      next.exported_at = new Date().toISOString();
+      cached = Promise.resolve(next);
+      await mkdir(dirname(path), { recursive: true });
+      const tempPath = `${path}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(next, null, 2), 'utf8');
+      await rename(tempPath, path);
+      cachedMtime = await modifiedAt(path);
+    });
+    return writeQueue;
+  };
+
+  return {
+    async load() {
+      const doc = await getDocument();
+      const autoCycleCount = doc.meta.autoCycleCount;
+      return {
+        sites: doc.sites,
+        logs: doc.logs,
+        autoCycleCount: typeof autoCycleCount === 'number' ? autoCycleCount : 0,
+      };
+    },
+
+    saveSites(sites) {
+      return update(doc => ({ ...doc, sites }));
+    },
+
+    saveLogs(logs) {
+      return update(doc => ({ ...doc, logs }));
+    },
+
+    // Applied inside the write queue so the CLI and a running server never drop each other's entries
+    appendLogs(logs, retention) {
+      return update(doc => ({ ...doc, logs: applyLogRetention([...logs, ...doc.logs], retention) }));
+    },
+
+    async loadMeta<T>(key: string) {
+      return (await getDocument()).meta[key] as T | undefined;
+    },
+
+    saveMeta(key, value) {
+      return update(doc => ({ ...doc, meta: { ...doc.meta, [key]: value } }));
+    },
+  };
+};
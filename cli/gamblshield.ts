@@ -0,0 +1,574 @@
+import { parseArgs } from "node:util";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { AgentLog, GamblingSite } from "../types";
+import { RegistryStore } from "../services/registryStore";
+import { getConfiguredProviders } from "../services/discoveryProvider";
+import { createAgentEngine } from "../services/agentEngine";
+import { restoreStrategyState, StrategyState } from "../services/queryStrategy";
+import { createRequestScheduler, withScheduler, SchedulerConfig, UsageCounters } from "../services/requestScheduler";
+import { EXPORT_FORMATTERS, buildExport } from "../services/exporters";
+import { EXPORT_PROFILES, DEFAULT_EXPORT_PROFILE_ID, getExportProfile } from "../services/exportPolicy";
+import { applyImport, parseImport, planImport, ConflictResolution, ImportFormat } from "../services/registryImport";
+import { recordStoredMutation, storeSnapshot } from "../services/registryHistory";
+import { loadStoredAllowlist } from "../services/allowlist";
+import {
+  BLOCKLIST_META_KEY,
+  EnrichmentOptions,
+  StoredBlocklist,
+  createFixtureResolver,
+  createStoredBlocklist,
+  enrichSites,
+  restoreBlocklist,
+} from "../services/domainIntel";
+import { createFileRegistryStore } from "./fileRegistryStore";
+import { createRegistryServer } from "./registryServer";
+import { createHttpDomainResolver } from "./httpDomainResolver";
+import { appendCycleRecord, CycleRecord, CYCLE_LOG_META_KEY } from "../services/discoveryAnalytics";
+import { DEFAULT_REGION_ID, REGION_PROFILES, getRegionProfile, parseRegionList } from "../services/regionProfiles";
+import {
+  EMPTY_LOG_FILTER,
+  LOG_RETENTION_META_KEY,
+  LogDetails,
+  LogRetention,
+  applyLogRetention,
+  createLogEntry,
+  filterLogs,
+  restoreLogRetention,
+  serializeLogsJsonl,
+} from "../services/agentLog";
+import { ChatSource, ChatSourceStats, createChatIngestion } from "../services/chatIngestion";
+import { createReplayChatSource, createTwitchChatSource, createYouTubeChatSource } from "../services/chatSources";
+import { openIrcLines, TWITCH_IRC_TLS_URL } from "./ircLineSocket";
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_BUDGET = 3;
+
+const DEFAULT_REGISTRY_PATH = 'gamblshield-registry.json';
+const DEFAULT_LOG_PATH = 'gamblshield-log.jsonl';
+const LOG_TYPES: AgentLog['type'][] = ['info', 'success', 'warning', 'error'];
+const DEFAULT_PORT = 8787;
+const DEFAULT_HOST = '127.0.0.1';
+
+const USAGE = `Usage: gamblshield <command> [options]
+
+Commands:
+  discover   Run discovery cycles and merge the findings into the registry
+             --query <text>       seed query for the first cycle (later cycles are planned)
+             --cycles <n>         number of cycles to run (default 1)
+             --provider <id>      gemini, openai or fixture (default from DISCOVERY_PROVIDER)
+             --region <id>        ${REGION_PROFILES.map(r => r.id).join(', ')} (default ${DEFAULT_REGION_ID}); picks the prompt, seed query and templates
+             --blocklist <file>   load a domain blocklist feed (kept for later runs)
+             --resolver <id>      none, fixture or http (default fixture with the fixture provider, else none)
+  enrich     Re-check every registry entry's domain against the blocklist and resolver
+             --blocklist <file>   load a domain blocklist feed (kept for later runs)
+             --resolver <id>      none, fixture or http (default none)
+  export     Write the filter list for a platform
+             --format <id>        ${EXPORT_FORMATTERS.map(f => f.id).join(', ')}
+             --profile <id>       ${EXPORT_PROFILES.map(p => p.id).join(', ')} (default ${DEFAULT_EXPORT_PROFILE_ID})
+             --variants           include obfuscated spelling variants
+             --families           export each brand family as one rule
+             --region <ids>       comma-separated regions whose entries to export (default all)
+             --out <dir>          output directory (default current directory)
+             --snapshot <name>    name of the registry snapshot taken for this export
+  import     Merge a TXT, CSV or JSON registry file into the registry
+             <file>               file to import
+             --format <type>      json, csv or txt (default from the file extension)
+             --resolve <mode>     keep, incoming or merge for conflicting entries (default merge)
+             --dry-run            report what would change without saving
+  ingest     Watch live chat and add unknown domain or brand names to the review queue
+             --twitch <channel>   read a Twitch channel's chat over IRC
+             --irc <url>          IRC server for --twitch (default ${TWITCH_IRC_TLS_URL}; irc://, ircs://, ws:// or wss://)
+             --youtube <videoId>  poll a YouTube live stream's chat (needs $YOUTUBE_API_KEY)
+             --replay <file>      replay a saved chat log (plain, YouTube or Twitch export)
+             --speed <n>          replay pace: 1 real time, 10 ten times faster, 0 at once (default 0)
+             --duration <sec>     stop after this many seconds (default: until the sources end or Ctrl+C)
+             --region <id>        region whose normalization and vocabulary apply (default ${DEFAULT_REGION_ID})
+  logs       Write the agent log as JSON Lines (oldest first) for audits
+             --out <file>         output file (default ${DEFAULT_LOG_PATH})
+             --cycle <id>         only entries of one discovery cycle
+             --type <t>           only ${LOG_TYPES.join(', ')} entries
+             --kind <name>        only entries of one event kind (e.g. sites_added)
+             --max-age <days>     keep log entries this many days (saved for later runs)
+             --max-entries <n>    keep at most this many log entries (saved for later runs)
+  serve      Serve the registry over HTTP for moderation bots until interrupted
+             --port <n>           port to listen on (default ${DEFAULT_PORT})
+             --host <addr>        interface to bind (default ${DEFAULT_HOST})
+             --token <secret>     bearer token for write endpoints (default $GAMBLSHIELD_API_TOKEN)
+
+Global options:
+  --registry <path>  registry file (default $GAMBLSHIELD_REGISTRY or ./${DEFAULT_REGISTRY_PATH})
+  --quiet            do not print agent logs to stderr
+  --help             show this message
+
+Every command prints one JSON object to stdout. Exit codes: 0 success, 1 failure,
+2 invalid usage, 3 daily API budget exhausted.`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CommandResult {
+  exitCode: number;
+  output: Record<string, unknown>;
+}
+
+interface CommandContext {
+  store: RegistryStore;
+  values: Record<string, string | boolean | undefined>;
+  positionals: string[];
+  log: (message: string, type?: AgentLog['type'], details?: LogDetails) => void;
+}
+
+const parsePositiveInt = (value: string | boolean | undefined, name: string, fallback: number) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new UsageError(`--${name} must be a positive integer`);
+  return parsed;
+};
+
+const parseRegionOption = (values: CommandContext['values']): string[] | undefined => {
+  const value = values.region as string | undefined;
+  if (value === undefined) return undefined;
+  try {
+    return parseRegionList(value);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : 'Invalid --region');
+  }
+};
+
+const RESOLVERS = ['none', 'fixture', 'http'];
+
+const loadEnrichment = async (store: RegistryStore, values: CommandContext['values'], log: CommandContext['log'], defaultResolver: string): Promise<EnrichmentOptions> => {
+  const resolverId = (values.resolver as string | undefined) ?? defaultResolver;
+  if (!RESOLVERS.includes(resolverId)) throw new UsageError(`--resolver must be one of ${RESOLVERS.join(', ')}`);
+
+  let stored = await store.loadMeta<StoredBlocklist | null>(BLOCKLIST_META_KEY);
+  const blocklistFile = values.blocklist as string | undefined;
+  if (blocklistFile) {
+    stored = createStoredBlocklist(await readFile(blocklistFile, 'utf8'), basename(blocklistFile));
+    if (stored.domains.length === 0) throw new UsageError(`No domains found in ${blocklistFile}`);
+    await store.saveMeta(BLOCKLIST_META_KEY, stored);
+    log(`Loaded blocklist "${stored.label}" with ${stored.domains.length} domains.`, 'info');
+  }
+
+  return {
+    blocklist: restoreBlocklist(stored),
+    resolver: resolverId === 'fixture' ? createFixtureResolver() : resolverId === 'http' ? createHttpDomainResolver() : undefined,
+  };
+};
+
+const runDiscover = async ({ store, values, log }: CommandContext): Promise<CommandResult> => {
+  // The browser build maps GEMINI_API_KEY to API_KEY at bundle time; do the same here
+  process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+  const providers = getConfiguredProviders();
+  const providerArg = values.provider as string | undefined;
+  const baseProvider = providerArg
+    ? providers.find(p => p.id === providerArg || p.id.split(':')[0] === providerArg)
+    : providers[0];
+  if (!baseProvider) throw new UsageError(`Unknown or unconfigured provider: ${providerArg}`);
+  const cycles = parsePositiveInt(values.cycles, 'cycles', 1);
+  const regionIds = parseRegionOption(values);
+  if (regionIds && regionIds.length > 1) throw new UsageError('discover takes a single --region');
+  const region = getRegionProfile(regionIds?.[0] ?? DEFAULT_REGION_ID);
+
+  const [state, savedStrategy, savedUsage, savedBudget, allowlist, savedCycles] = await Promise.all([
+    store.load(),
+    store.loadMeta<StrategyState>('queryStrategy'),
+    store.loadMeta<UsageCounters>('apiUsage'),
+    store.loadMeta<Partial<SchedulerConfig>>('apiBudget'),
+    loadStoredAllowlist(store, [region.id]),
+    store.loadMeta<CycleRecord[]>(CYCLE_LOG_META_KEY),
+  ]);
+  const enrichment = await loadEnrichment(store, values, log, baseProvider.id === 'fixture' ? 'fixture' : 'none');
+
+  const scheduler = createRequestScheduler();
+  if (savedBudget) scheduler.setConfig(savedBudget);
+  scheduler.restoreUsage(savedUsage);
+  const provider = withScheduler(baseProvider, scheduler);
+
+  let sites: GamblingSite[] = state.sites;
+  let strategy = restoreStrategyState(savedStrategy);
+  let cycleRecords = savedCycles ?? [];
+  const knownNames = new Set(sites.map(s => s.normalized_name));
+  const queries: string[] = [];
+
+  const engine = createAgentEngine({
+    getSites: () => sites,
+    getProvider: () => provider,
+    getStrategy: () => strategy,
+    getSeedQuery: () => (values.query as string | undefined) || region.seedQueries[0],
+    getAllowlist: () => allowlist,
+    getEnrichment: () => enrichment,
+    getRegion: () => region.id,
+    analyzeDelayMs: 0,
+  });
+  engine.subscribe(event => {
+    if (event.type === 'sites') sites = event.sites;
+    if (event.type === 'strategy') strategy = event.state;
+    if (event.type === 'cycle') cycleRecords = appendCycleRecord(cycleRecords, event.record);
+    if (event.type === 'state' && event.snapshot.state === 'analyzing' && event.snapshot.currentQuery) {
+      queries.push(event.snapshot.currentQuery);
+    }
+    if (event.type === 'log') {
+      const { message, type, ...details } = event.entry;
+      log(message, type, details);
+    }
+  });
+
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    if (cycle === 0 && values.query) await engine.runOnce(values.query as string);
+    else await engine.runPlanned();
+    if (engine.getSnapshot().state === 'error') break;
+  }
+
+  await Promise.all([
+    store.saveSites(sites),
+    recordStoredMutation(store, state.sites, sites, 'discovery', `CLI discovery: ${queries.map(q => `"${q}"`).join(', ')}`, 'cli'),
+    store.saveMeta('queryStrategy', strategy),
+    store.saveMeta('apiUsage', scheduler.getUsage()),
+    store.saveMeta(CYCLE_LOG_META_KEY, cycleRecords),
+  ]);
+
+  const snapshot = engine.getSnapshot();
+  const failed = snapshot.state === 'error';
+  return {
+    exitCode: !failed ? EXIT_OK : scheduler.isBudgetExhausted() ? EXIT_BUDGET : EXIT_FAILURE,
+    output: {
+      ok: !failed,
+      provider: baseProvider.id,
+      region: region.id,
+      queries,
+      added: sites.filter(s => !knownNames.has(s.normalized_name)).map(s => s.normalized_name),
+      total: sites.length,
+      usage: scheduler.getUsage(),
+      error: snapshot.lastError,
+    },
+  };
+};
+
+const runExport = async ({ store, values, log }: CommandContext): Promise<CommandResult> => {
+  const formatId = values.format as string | undefined;
+  if (!formatId) throw new UsageError('--format is required');
+  const profileId = (values.profile as string | undefined) ?? DEFAULT_EXPORT_PROFILE_ID;
+  const formatter = EXPORT_FORMATTERS.find(f => f.id === formatId);
+  if (!formatter) throw new UsageError(`Unknown export format: ${formatId}`);
+  if (!EXPORT_PROFILES.some(p => p.id === profileId)) throw new UsageError(`Unknown export profile: ${profileId}`);
+  const profile = getExportProfile(profileId);
+  const regions = parseRegionOption(values);
+
+  const [{ sites }, allowlist] = await Promise.all([store.load(), loadStoredAllowlist(store, regions)]);
+  const { chunks, warnings } = buildExport(sites, formatter.id, { includeVariants: values.variants === true, collapseFamilies: values.families === true, profile, allowlist, regions });
+  warnings.forEach(warning => log(warning, 'warning'));
+  if (chunks.reduce((sum, chunk) => sum + chunk.count, 0) === 0) {
+    log(`Nothing to export: no keywords match the ${profile.label} profile.`, 'warning');
+    return { exitCode: EXIT_OK, output: { ok: true, format: formatter.id, profile: profile.id, regions: regions ?? null, files: [], total: 0, warnings, snapshot: null } };
+  }
+
+  const outDir = resolve((values.out as string | undefined) ?? '.');
+  await mkdir(outDir, { recursive: true });
+  const files = await Promise.all(chunks.map(async chunk => {
+    const path = join(outDir, chunk.filename);
+    await writeFile(path, chunk.content, 'utf8');
+    return { path, count: chunk.count };
+  }));
+  const total = files.reduce((sum, file) => sum + file.count, 0);
+  const snapshot = await storeSnapshot(store, (values.snapshot as string | undefined) ?? `${formatter.label} export (${profile.label}) ${new Date().toLocaleString()}`, sites);
+  log(`Exported ${total} keywords as ${formatter.label} with the ${profile.label} profile (${files.length} file${files.length === 1 ? '' : 's'}).`, 'success');
+
+  return { exitCode: EXIT_OK, output: { ok: true, format: formatter.id, profile: profile.id, regions: regions ?? null, files, total, warnings, snapshot: { id: snapshot.id, name: snapshot.name, version: snapshot.version } } };
+};
+
+const runEnrich = async ({ store, values, log }: CommandContext): Promise<CommandResult> => {
+  const enrichment = await loadEnrichment(store, values, log, 'none');
+  const { sites } = await store.load();
+  const { sites: enriched, logs } = await enrichSites(sites, enrichment);
+  logs.forEach(message => log(message));
+  await store.saveSites(enriched);
+  await recordStoredMutation(store, sites, enriched, 'enrichment', 'CLI domain re-check', 'cli');
+
+  const withDomain = enriched.filter(site => site.domain_intel);
+  log(`Re-checked domain intel for ${withDomain.length} entries with a domain.`, 'success');
+  return {
+    exitCode: EXIT_OK,
+    output: {
+      ok: true,
+      checked: withDomain.length,
+      blocklisted: withDomain.filter(site => site.domain_intel!.blocklisted).map(site => site.domain_intel!.domain),
+      rescored: enriched.filter((site, i) => site.confidence_score !== sites[i].confidence_score).length,
+    },
+  };
+};
+
+const RESOLUTIONS: ConflictResolution[] = ['keep', 'incoming', 'merge'];
+const IMPORT_FORMATS: ImportFormat[] = ['json', 'csv', 'txt'];
+
+const runImport = async ({ store, values, positionals, log }: CommandContext): Promise<CommandResult> => {
+  const file = positionals[0];
+  if (!file) throw new UsageError('import requires a file path');
+  const resolution = ((values.resolve as string | undefined) ?? 'merge') as ConflictResolution;
+  if (!RESOLUTIONS.includes(resolution)) throw new UsageError(`--resolve must be one of ${RESOLUTIONS.join(', ')}`);
+  const format = values.format as ImportFormat | undefined;
+  if (format && !IMPORT_FORMATS.includes(format)) throw new UsageError(`--format must be one of ${IMPORT_FORMATS.join(', ')}`);
+
+  const content = await readFile(file, 'utf8');
+  const label = basename(file);
+  const { sites: incoming, rejected } = parseImport(content, label, format);
+  const [{ sites }, allowlist] = await Promise.all([store.load(), loadStoredAllowlist(store)]);
+  const plan = planImport(sites, incoming, allowlist);
+
+  const counts = { new: 0, duplicate: 0, conflict: 0, suppressed: 0, allowlisted: 0 };
+  plan.forEach(entry => counts[entry.category]++);
+  const dryRun = values['dry-run'] === true;
+
+  if (!dryRun) {
+    const resolutions = Object.fromEntries(
+      plan.filter(entry => entry.category === 'conflict').map(entry => [entry.incoming.normalized_name, resolution])
+    );
+    const merged = applyImport(sites, plan, resolutions);
+    await store.saveSites(merged);
+    await recordStoredMutation(store, sites, merged, 'import', `Imported ${label}`, 'cli');
+    log(`Imported ${plan.length} entries from ${label}: ${counts.new} new${counts.suppressed > 0 ? `, ${counts.suppressed} kept suppressed as false positives` : ''}${counts.allowlisted > 0 ? `, ${counts.allowlisted} skipped by the allowlist` : ''}${rejected.length > 0 ? `, ${rejected.length} invalid records skipped` : ''}.`, 'success');
+  }
+
+  return {
+    exitCode: EXIT_OK,
+    output: {
+      ok: true,
+      file: label,
+      dryRun,
+      counts,
+      conflicts: plan.filter(entry => entry.category === 'conflict').map(entry => ({ name: entry.incoming.normalized_name, reason: entry.reason })),
+      rejected,
+    },
+  };
+};
+
+const runServe = async ({ store, values, log }: CommandContext): Promise<CommandResult> => {
+  const port = values.port === undefined ? DEFAULT_PORT : parsePositiveInt(values.port, 'port', DEFAULT_PORT);
+  const host = (values.host as string | undefined) ?? DEFAULT_HOST;
+  const token = (values.token as string | undefined) ?? process.env.GAMBLSHIELD_API_TOKEN;
+
+  const server = createRegistryServer({
+    store,
+    token,
+    onLog: entry => {
+      if (!values.quiet) console.error(`[${entry.type}] ${entry.message}`);
+    },
+  });
+  await new Promise<void>((resolveListen, rejectListen) => {
+    server.once('error', rejectListen);
+    server.listen(port, host, () => resolveListen());
+  });
+  const url = `http://${host}:${port}`;
+  log(`Registry API listening on ${url}${token ? '' : ' (read-only: no API token set)'}.`, 'info');
+
+  await new Promise<void>(resolveClose => {
+    const shutdown = () => server.close(() => resolveClose());
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+  return { exitCode: EXIT_OK, output: { ok: true, url } };
+};
+
+const isFinished = (source: ChatSourceStats) => source.status === 'ended' || source.status === 'error';
+
+const runIngest = async ({ store, values, log }: CommandContext): Promise<CommandResult> => {
+  const regionIds = parseRegionOption(values);
+  if (regionIds && regionIds.length > 1) throw new UsageError('ingest takes a single --region');
+  const region = getRegionProfile(regionIds?.[0] ?? DEFAULT_REGION_ID);
+  const speed = values.speed === undefined ? 0 : Number(values.speed);
+  if (!Number.isFinite(speed) || speed < 0) throw new UsageError('--speed must be a number of at least 0');
+  const duration = values.duration === undefined ? undefined : parsePositiveInt(values.duration, 'duration', 1);
+
+  const sources: ChatSource[] = [];
+  try {
+    if (values.twitch) {
+      const url = (values.irc as string | undefined) ?? TWITCH_IRC_TLS_URL;
+      sources.push(createTwitchChatSource({ channel: values.twitch as string, url, openSocket: openIrcLines }));
+    }
+    if (values.youtube) sources.push(createYouTubeChatSource({ videoId: values.youtube as string, apiKey: process.env.YOUTUBE_API_KEY ?? '' }));
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : 'Invalid chat source');
+  }
+  if (values.replay) {
+    const path = values.replay as string;
+    sources.push(createReplayChatSource({ label: basename(path), content: await readFile(path, 'utf8'), speed }));
+  }
+  if (sources.length === 0) throw new UsageError('Give at least one of --twitch, --youtube or --replay');
+
+  const [state, allowlist] = await Promise.all([store.load(), loadStoredAllowlist(store, [region.id])]);
+  let sites = state.sites;
+  const flagged: string[] = [];
+  // Batches are saved in the order they were merged, each as its own registry change
+  let writes: Promise<void> = Promise.resolve();
+  const ingestion = createChatIngestion({ getSites: () => sites, getAllowlist: () => allowlist, getRegion: () => region.id });
+
+  await new Promise<void>(resolveDone => {
+    let started = false;
+    const timer = duration ? setTimeout(() => finish(), duration * 1000) : undefined;
+    const finish = () => {
+      if (timer) clearTimeout(timer);
+      process.off('SIGINT', finish);
+      process.off('SIGTERM', finish);
+      resolveDone();
+    };
+
+    ingestion.subscribe(event => {
+      if (event.type === 'log') {
+        const { message, type, ...details } = event.entry;
+        log(message, type, details);
+      }
+      if (event.type === 'sites') {
+        const before = sites;
+        sites = event.sites;
+        flagged.push(...event.added.map(site => site.normalized_name));
+        writes = writes.then(async () => {
+          await store.saveSites(event.sites);
+          await recordStoredMutation(store, before, event.sites, 'chat', event.summary, 'cli');
+        });
+      }
+      if (event.type === 'stats' && started && event.stats.sources.every(isFinished)) finish();
+    });
+    process.once('SIGINT', finish);
+    process.once('SIGTERM', finish);
+    sources.forEach(source => ingestion.addSource(source));
+    started = true;
+    if (ingestion.getStats().sources.every(isFinished)) finish();
+  });
+
+  // Read before stopping, which disconnects and forgets the sources
+  const stats = ingestion.getStats();
+  ingestion.stop();
+  await writes;
+  const failed = stats.sources.every(source => source.status === 'error');
+  return {
+    exitCode: failed ? EXIT_FAILURE : EXIT_OK,
+    output: { ok: !failed, region: region.id, messages: stats.messages, flagged, sources: stats.sources },
+  };
+};
+
+const runLogs = async ({ store, values }: CommandContext): Promise<CommandResult> => {
+  const type = (values.type as string | undefined) ?? 'all';
+  if (type !== 'all' && !LOG_TYPES.includes(type as AgentLog['type'])) throw new UsageError(`Unknown log type: ${type}`);
+  const [{ logs }, savedRetention] = await Promise.all([store.load(), store.loadMeta<LogRetention>(LOG_RETENTION_META_KEY)]);
+
+  let retention = restoreLogRetention(savedRetention);
+  if (values['max-age'] !== undefined || values['max-entries'] !== undefined) {
+    retention = {
+      maxAgeDays: parsePositiveInt(values['max-age'], 'max-age', retention.maxAgeDays),
+      maxEntries: parsePositiveInt(values['max-entries'], 'max-entries', retention.maxEntries),
+    };
+    await Promise.all([store.saveMeta(LOG_RETENTION_META_KEY, retention), store.saveLogs(applyLogRetention(logs, retention))]);
+  }
+
+  const entries = filterLogs(applyLogRetention(logs, retention), {
+    type: type as AgentLog['type'] | 'all',
+    kind: (values.kind as string | undefined) ?? EMPTY_LOG_FILTER.kind,
+    cycleId: (values.cycle as string | undefined) ?? EMPTY_LOG_FILTER.cycleId,
+  });
+  const path = resolve((values.out as string | undefined) ?? DEFAULT_LOG_PATH);
+  await writeFile(path, serializeLogsJsonl(entries), 'utf8');
+  return { exitCode: EXIT_OK, output: { ok: true, path, entries: entries.length, retention } };
+};
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<CommandResult>> = {
+  discover: runDiscover,
+  export: runExport,
+  import: runImport,
+  enrich: runEnrich,
+  ingest: runIngest,
+  logs: runLogs,
+  serve: runServe,
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        registry: { type: 'string' },
+        quiet: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        query: { type: 'string' },
+        cycles: { type: 'string' },
+        provider: { type: 'string' },
+        format: { type: 'string' },
+        profile: { type: 'string' },
+        variants: { type: 'boolean' },
+        region: { type: 'string' },
+        families: { type: 'boolean' },
+        out: { type: 'string' },
+        snapshot: { type: 'string' },
+        resolve: { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        port: { type: 'string' },
+        host: { type: 'string' },
+        token: { type: 'string' },
+        blocklist: { type: 'string' },
+        resolver: { type: 'string' },
+        twitch: { type: 'string' },
+        irc: { type: 'string' },
+        youtube: { type: 'string' },
+        replay: { type: 'string' },
+        speed: { type: 'string' },
+        duration: { type: 'string' },
+        cycle: { type: 'string' },
+        type: { type: 'string' },
+        kind: { type: 'string' },
+        'max-age': { type: 'string' },
+        'max-entries': { type: 'string' },
+      },
+    });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    console.log(JSON.stringify({ ok: false, error: (error as Error).message }));
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+  const handler = COMMANDS[command];
+  if (!handler) {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    console.log(JSON.stringify({ ok: false, error: `Unknown command: ${command}` }));
+    return EXIT_USAGE;
+  }
+
+  const store = createFileRegistryStore(resolve(values.registry ?? process.env.GAMBLSHIELD_REGISTRY ?? DEFAULT_REGISTRY_PATH));
+  const newLogs: AgentLog[] = [];
+  const log: CommandContext['log'] = (message, type = 'info', details = {}) => {
+    newLogs.unshift(createLogEntry(message, type, details));
+    if (!values.quiet) console.error(`[${type}] ${message}`);
+  };
+
+  try {
+    const { exitCode, output } = await handler({ store, values, positionals: rest, log });
+    if (newLogs.length > 0) {
+      await store.appendLogs(newLogs, restoreLogRetention(await store.loadMeta<LogRetention>(LOG_RETENTION_META_KEY)));
+    }
+    console.log(JSON.stringify({ command, ...output }, null, 2));
+    return exitCode;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error: ${message}`);
+    console.log(JSON.stringify({ command, ok: false, error: message }));
+    return error instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE;
+  }
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,39 @@
+import { lookup, resolveCname } from "node:dns/promises";
+import { DomainResolver } from "../types";
+
+const MAX_REDIRECTS = 5;
+const TIMEOUT_MS = 5000;
+
+const isNotFound = (error: unknown) =>
+  error instanceof Error && ['ENOTFOUND', 'ENODATA', 'NXDOMAIN'].includes((error as NodeJS.ErrnoException).code ?? '');
+
+const hostOf = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+
+// Resolves through DNS and follows HTTP redirects by hand so every hop lands in the chain
+export const createHttpDomainResolver = (): DomainResolver => ({
+  id: 'http',
+  async resolve(domain) {
+    try {
+      await lookup(domain);
+    } catch (error) {
+      if (isNotFound(error)) return { live: false, redirect_chain: [], aliases: [] };
+      throw error;
+    }
+
+    const cnames = await Promise.all([domain, `www.${domain}`].map(name => resolveCname(name).catch(() => [] as string[])));
+    const aliases = Array.from(new Set(cnames.flat().map(name => name.replace(/\.$/, '').toLowerCase()))).filter(name => name !== domain);
+
+    const chain = [domain];
+    let url = `http://${domain}/`;
+    for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+      const response = await fetch(url, { method: 'HEAD', redirect: 'manual', signal: AbortSignal.timeout(TIMEOUT_MS) }).catch(() => null);
+      const location = response && response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+      if (!location) break;
+      url = new URL(location, url).toString();
+      const host = hostOf(url);
+      if (host !== chain[chain.length - 1]) chain.push(host);
+    }
+
+    return { live: true, redirect_chain: chain, aliases };
+  },
+});
@@ -0,0 +1,40 @@
+import { connect as connectTcp, Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+import { LineSocketFactory, openWebSocketLines } from "../services/chatSources";
+
+export const TWITCH_IRC_TLS_URL = 'ircs://irc.chat.twitch.tv:6697';
+
+// Plain IRC over TCP (irc://) or TLS (ircs://); WebSocket URLs go through the runtime's WebSocket
+export const openIrcLines: LineSocketFactory = (url, handlers) => {
+  const target = new URL(url);
+  if (target.protocol !== 'irc:' && target.protocol !== 'ircs:') return openWebSocketLines(url, handlers);
+
+  const secure = target.protocol === 'ircs:';
+  const port = Number(target.port) || (secure ? 6697 : 6667);
+  const socket: Socket = secure
+    ? connectTls({ host: target.hostname, port, servername: target.hostname }, handlers.onOpen)
+    : connectTcp({ host: target.hostname, port }, handlers.onOpen);
+
+  let buffered = '';
+  let failure: string | undefined;
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk: string) => {
+    buffered += chunk;
+    const lines = buffered.split(/\r?\n/);
+    buffered = lines.pop() ?? '';
+    lines.filter(Boolean).forEach(handlers.onLine);
+  });
+  socket.on('error', error => {
+    failure = error.message;
+  });
+  socket.on('close', () => handlers.onClose(failure));
+
+  return {
+    send: line => {
+      socket.write(`${line}\r\n`);
+    },
+    close: () => {
+      socket.destroy();
+    },
+  };
+};
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Server, request } from "node:http";
+import { AddressInfo } from "node:net";
+import { SiteStatus } from "../types";
+import { createRegistryServer } from "./registryServer";
+import { createFileRegistryStore } from "./fileRegistryStore";
+
+const TOKEN = 'test-token';
+
+describe('registry server', () => {
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  const listen = async (token?: string, bodyTimeoutMs?: number) => {
+    server = createRegistryServer({ store: createFileRegistryStore(join(dir, 'registry.json')), token, bodyTimeoutMs });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const post = (path: string, body: unknown, token: string | null = TOKEN) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gamblshield-server-'));
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('records reported sightings and serves them with versioned change feeds', async () => {
+    await listen(TOKEN);
+
+    const created = await post('/sightings', { name: 'Gacor88', url: 'https://example.test/chat', snippet: 'main di gacor88', confidence: 0.9 });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ created: true, site: { normalized_name: 'gacor88', status: SiteStatus.ACTIVE } });
+
+    const repeated = await post('/sightings', { name: 'gacor88', reporter: 'modbot' });
+    expect(repeated.status).toBe(200);
+
+    const unverified = await post('/sightings', { name: 'zeus138' });
+    expect((await unverified.json()).site.status).toBe(SiteStatus.FLAGGED);
+
+    const sites = await fetch(`${baseUrl}/sites?status=active`);
+    const etag = sites.headers.get('etag')!;
+    expect((await sites.json()).sites.map((s: { normalized_name: string }) => s.normalized_name)).toEqual(['gacor88']);
+    expect((await fetch(`${baseUrl}/sites?status=active`, { headers: { 'If-None-Match': etag } })).status).toBe(304);
+
+    const changes = await (await fetch(`${baseUrl}/changes?since=0`)).json();
+    expect(changes.version).toBeGreaterThan(0);
+    expect(changes.changed.map((s: { normalized_name: string }) => s.normalized_name).sort()).toEqual(['gacor88', 'zeus138']);
+  });
+
+  it('rejects false positives and keeps them out of the export', async () => {
+    await listen(TOKEN);
+    await post('/sightings', { name: 'gacor88', confidence: 0.9 });
+    await post('/sightings', { name: 'naga303', confidence: 0.9 });
+
+    const rejected = await post('/false-positives', { name: 'naga303', reviewer: 'mod', note: 'streamer handle' });
+    expect(rejected.status).toBe(200);
+    expect((await rejected.json()).site.status).toBe(SiteStatus.FALSE_POSITIVE);
+
+    const exported = await fetch(`${baseUrl}/export/txt`);
+    expect(exported.status).toBe(200);
+    expect(exported.headers.get('x-export-chunks')).toBe('1');
+    const content = await exported.text();
+    expect(content).toContain('gacor88');
+    expect(content).not.toContain('naga303');
+
+    expect((await post('/false-positives', { name: 'unknown999' })).status).toBe(404);
+  });
+
+  it('only accepts non-negative integer export chunks', async () => {
+    await listen(TOKEN);
+    await post('/sightings', { name: 'gacor88', confidence: 0.9 });
+
+    for (const chunk of ['abc', '-1', '1.5', '']) {
+      const response = await fetch(`${baseUrl}/export/txt?chunk=${chunk}`);
+      expect(response.status, `chunk=${chunk}`).toBe(400);
+    }
+    expect((await fetch(`${baseUrl}/export/txt?chunk=0`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/export/txt?chunk=3`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/export/nope`)).status).toBe(404);
+  });
+
+  it('answers oversized bodies with a 413 instead of dropping the connection', async () => {
+    await listen(TOKEN);
+
+    const response = await post('/sightings', { name: 'gacor88', snippet: 'x'.repeat(200 * 1024) });
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: 'Request body too large' });
+
+    // The server keeps handling requests afterwards
+    expect((await fetch(`${baseUrl}/health`)).status).toBe(200);
+  });
+
+  it('keeps serving reads while a write body is stalled, then times the write out', async () => {
+    await listen(TOKEN, 300);
+    await post('/sightings', { name: 'gacor88', confidence: 0.9 });
+
+    const stalled = new Promise<number | undefined>((resolve, reject) => {
+      const req = request(`${baseUrl}/sightings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': '64', Authorization: `Bearer ${TOKEN}` },
+      }, res => {
+        // The client never finishes its body, so drop the connection once the answer is in
+        req.destroy();
+        resolve(res.statusCode);
+      });
+      req.on('error', reject);
+      req.write('{"name": "zeus');
+    });
+
+    const sites = await fetch(`${baseUrl}/sites`);
+    expect(sites.status).toBe(200);
+    expect((await sites.json()).sites).toHaveLength(1);
+
+    expect(await stalled).toBe(408);
+  });
+
+  it('guards write endpoints with the bearer token', async () => {
+    await listen(TOKEN);
+    expect((await post('/sightings', { name: 'gacor88' }, null)).status).toBe(401);
+    expect((await post('/sightings', { name: 'gacor88' }, 'wrong')).status).toBe(401);
+    expect((await post('/sightings', '[1, 2]')).status).toBe(400);
+    expect((await post('/sightings', { name: 'ab' })).status).toBe(400);
+    const generic = await post('/sightings', { name: 'Slot Gacor' });
+    expect(generic.status).toBe(400);
+    expect(await generic.json()).toEqual({ error: 'Generic term "slotgacor" is not a platform name' });
+    expect((await post('/sightings', { name: 'gacor88', confidence: 2 })).status).toBe(400);
+  });
+
+  it('disables writes when started without a token', async () => {
+    await listen();
+    expect((await post('/sightings', { name: 'gacor88' })).status).toBe(403);
+    expect(await (await fetch(`${baseUrl}/health`)).json()).toMatchObject({ ok: true, writable: false });
+  });
+});
@@ -0,0 +1,315 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { AgentLog, GamblingSite, SiteStatus } from "../types";
+import { RegistryStore } from "../services/registryStore";
+import { ChangeFeed, createChangeFeed, getChangesSince, syncChangeFeed } from "../services/changeFeed";
+import { EXPORT_FORMATTERS, buildExport } from "../services/exporters";
+import { EXPORT_PROFILES, DEFAULT_EXPORT_PROFILE_ID, getExportProfile } from "../services/exportPolicy";
+import { normalizeKeyword } from "../services/keywordNormalizer";
+import { mergeSites } from "../services/registryMerge";
+import { applyReviewDecision, getInitialStatus } from "../services/reviewQueue";
+import { recordStoredMutation } from "../services/registryHistory";
+import { ALLOWLIST_META_KEY, AllowlistSettings, createAllowlistMatcher, loadStoredAllowlist, restoreAllowlistSettings } from "../services/allowlist";
+import { getRegionProfile, parseRegionList } from "../services/regionProfiles";
+import { LOG_RETENTION_META_KEY, LogRetention, createLogEntry, restoreLogRetention } from "../services/agentLog";
+import { getNameRejection } from "../services/responseValidator";
+
+// Bot reports are unverified, so they land in the review queue unless the reporter says otherwise
+const DEFAULT_REPORT_CONFIDENCE = 0.5;
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_BODY_TIMEOUT_MS = 10000;
+
+export interface RegistryServerOptions {
+  store: RegistryStore;
+  // Write endpoints are disabled when no token is configured
+  token?: string;
+  onLog?: (entry: AgentLog) => void;
+  // A client that has not sent its whole body by then gets a 408
+  bodyTimeoutMs?: number;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage, timeoutMs: number): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let failed = false;
+    // Stop collecting but keep draining, so the socket stays usable for the error response
+    const fail = (error: HttpError) => {
+      failed = true;
+      clearTimeout(timer);
+      req.off('data', onData);
+      req.resume();
+      reject(error);
+    };
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) fail(new HttpError(413, 'Request body too large'));
+      else chunks.push(chunk);
+    };
+    const timer = setTimeout(() => fail(new HttpError(408, 'Request body not received in time')), timeoutMs);
+    req.on('data', onData);
+    req.on('end', () => {
+      clearTimeout(timer);
+      if (failed) return;
+      try {
+        const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+        resolve(parsed);
+      } catch {
+        reject(new HttpError(400, 'Body must be a JSON object'));
+      }
+    });
+    req.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+
+const tokensMatch = (expected: string, provided: string) => {
+  const a = createHash('sha256').update(expected).digest();
+  const b = createHash('sha256').update(provided).digest();
+  return timingSafeEqual(a, b);
+};
+
+const parseRegions = (value: string | null | undefined): string[] | undefined => {
+  if (value === null || value === undefined) return undefined;
+  try {
+    return parseRegionList(value);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : 'Invalid region');
+  }
+};
+
+const optionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new HttpError(400, `${field} must be a string`);
+  return value.trim() || undefined;
+};
+
+export const createRegistryServer = ({ store, token, onLog, bodyTimeoutMs = DEFAULT_BODY_TIMEOUT_MS }: RegistryServerOptions): Server => {
+  let feed: ChangeFeed | null = null;
+  // Store access runs one task at a time so read-modify-write cycles never interleave; request bodies are read before queueing
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Brings the change feed up to date with whatever is in the store, including edits made by other processes
+  const syncRegistry = async () => {
+    const { sites } = await store.load();
+    const current = feed ?? (await store.loadMeta<ChangeFeed>('changeFeed')) ?? createChangeFeed();
+    const next = syncChangeFeed(current, sites);
+    feed = next;
+    if (next !== current) await store.saveMeta('changeFeed', next);
+    return { sites, feed: next };
+  };
+
+  const loadRegistry = () => exclusive(syncRegistry);
+
+  const addLog = async (message: string, type: AgentLog['type']) => {
+    const entry = createLogEntry(message, type, { kind: 'api' });
+    await store.appendLogs([entry], restoreLogRetention(await store.loadMeta<LogRetention>(LOG_RETENTION_META_KEY)));
+    onLog?.(entry);
+  };
+
+  const requireToken = (req: IncomingMessage) => {
+    if (!token) throw new HttpError(403, 'Write endpoints are disabled; start the server with an API token');
+    const header = req.headers.authorization ?? '';
+    const provided = header.startsWith('Bearer ') ? header.slice(7) : '';
+    if (!provided || !tokensMatch(token, provided)) throw new HttpError(401, 'Missing or invalid bearer token');
+  };
+
+  const checkEtag = (req: IncomingMessage, res: ServerResponse, etag: string) => {
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304, { ETag: etag });
+      res.end();
+      return true;
+    }
+    return false;
+  };
+
+  const getSites = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const { sites, feed } = await loadRegistry();
+    const status = url.searchParams.get('status');
+    const etag = `"v${feed.version}${status ? `-${status}` : ''}"`;
+    if (checkEtag(req, res, etag)) return;
+    sendJson(res, 200, { version: feed.version, sites: status ? sites.filter(s => s.status === status) : sites }, { ETag: etag });
+  };
+
+  const getChanges = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'since must be a non-negative integer version');
+    const { sites, feed } = await loadRegistry();
+    const etag = `"v${feed.version}-since-${since}"`;
+    if (checkEtag(req, res, etag)) return;
+    sendJson(res, 200, getChangesSince(feed, sites, since), { ETag: etag });
+  };
+
+  const getExport = async (req: IncomingMessage, res: ServerResponse, url: URL, formatId: string) => {
+    const formatter = EXPORT_FORMATTERS.find(f => f.id === formatId);
+    if (!formatter) throw new HttpError(404, `Unknown export format: ${formatId}`);
+    const profileId = url.searchParams.get('profile') ?? DEFAULT_EXPORT_PROFILE_ID;
+    if (!EXPORT_PROFILES.some(p => p.id === profileId)) throw new HttpError(400, `Unknown export profile: ${profileId}`);
+    const includeVariants = url.searchParams.get('variants') === '1';
+    const collapseFamilies = url.searchParams.get('families') === '1';
+    const chunkParam = url.searchParams.get('chunk') ?? '0';
+    if (!/^\d+$/.test(chunkParam)) throw new HttpError(400, 'chunk must be a non-negative integer');
+    const chunkIndex = Number(chunkParam);
+    const regions = parseRegions(url.searchParams.get('region'));
+
+    const [{ sites, feed }, allowlistSettings] = await Promise.all([
+      loadRegistry(),
+      store.loadMeta<AllowlistSettings>(ALLOWLIST_META_KEY).then(restoreAllowlistSettings),
+    ]);
+    // Profiles filter by age, so the same version can export differently on another day
+    const day = new Date().toISOString().split('T')[0];
+    // Allowlist edits change the output without touching the registry version
+    const allowlistTag = createHash('sha256').update(JSON.stringify(allowlistSettings)).digest('hex').slice(0, 8);
+    const etag = `"v${feed.version}-${day}-${allowlistTag}-${formatter.id}-${profileId}-${includeVariants ? 'v' : 'n'}${collapseFamilies ? 'f' : ''}-${regions?.join('-') ?? 'all'}-${chunkIndex}"`;
+    if (checkEtag(req, res, etag)) return;
+
+    const allowlist = createAllowlistMatcher(allowlistSettings, regions);
+    const { chunks, warnings } = buildExport(sites, formatter.id, { includeVariants, collapseFamilies, profile: getExportProfile(profileId), allowlist, regions });
+    const chunk = chunks[chunkIndex];
+    if (!chunk) throw new HttpError(404, `Export has ${chunks.length} chunk(s)`);
+    res.writeHead(200, {
+      'Content-Type': `${formatter.mimeType}; charset=utf-8`,
+      'Content-Disposition': `inline; filename="${chunk.filename}"`,
+      ETag: etag,
+      'X-Registry-Version': String(feed.version),
+      'X-Export-Chunks': String(chunks.length),
+      'X-Export-Count': String(chunk.count),
+      ...(warnings.length > 0 ? { 'X-Export-Warnings': warnings.join(' | ') } : {}),
+    });
+    res.end(chunk.content);
+  };
+
+  const postSighting = async (req: IncomingMessage, res: ServerResponse) => {
+    requireToken(req);
+    const body = await readJsonBody(req, bodyTimeoutMs);
+    const name = optionalString(body.name, 'name');
+    if (!name) throw new HttpError(400, 'name is required');
+    const regionId = parseRegions(optionalString(body.region, 'region'))?.[0];
+    const region = regionId ? getRegionProfile(regionId) : undefined;
+    const normalized = normalizeKeyword(name, region?.normalization);
+    // Bot reports go through the same name rules as model output and imports
+    const rejection = getNameRejection(normalized, region?.genericTerms);
+    if (rejection) throw new HttpError(400, rejection);
+    const url = optionalString(body.url, 'url');
+    const snippet = optionalString(body.snippet, 'snippet');
+    const reporter = optionalString(body.reporter, 'reporter') ?? 'api';
+    const confidence = body.confidence === undefined ? DEFAULT_REPORT_CONFIDENCE : Number(body.confidence);
+    if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) throw new HttpError(400, 'confidence must be between 0 and 1');
+
+    const timestamp = new Date().toISOString();
+    const source = url ?? `report:${reporter}`;
+    const incoming: GamblingSite = {
+      id: Math.random().toString(36).substr(2, 9),
+      site_name: name,
+      normalized_name: normalized,
+      first_seen: timestamp,
+      last_seen: timestamp,
+      confidence_score: confidence,
+      status: getInitialStatus(confidence),
+      source_count: 1,
+      sources: [source],
+      review_history: [],
+      evidence: snippet ? [{ url: source, snippet, query: `report:${reporter}`, timestamp }] : [],
+      ...(regionId ? { regions: [regionId] } : {}),
+    };
+
+    const { version, merged, added } = await exclusive(async () => {
+      const [{ sites }, allowlist] = await Promise.all([syncRegistry(), loadStoredAllowlist(store, regionId ? [regionId] : undefined)]);
+      const { sites: merged, added, blocked } = mergeSites(sites, [incoming], allowlist);
+      if (blocked.length > 0) throw new HttpError(422, `"${normalized}" is allowlisted: ${blocked[0].reason}`);
+      await store.saveSites(merged);
+      await recordStoredMutation(store, sites, merged, 'api', `Sighting of "${normalized}" reported via API`, reporter);
+      await addLog(`${reporter} reported sighting of "${normalized}"${added.length > 0 ? ' (new signature)' : ''}.`, added.length > 0 ? 'success' : 'info');
+      const { feed } = await syncRegistry();
+      return { version: feed.version, merged, added };
+    });
+    const site = merged.find(s => s.normalized_name === normalized);
+    sendJson(res, added.length > 0 ? 201 : 200, { version, created: added.length > 0, site });
+  };
+
+  const postFalsePositive = async (req: IncomingMessage, res: ServerResponse) => {
+    requireToken(req);
+    const body = await readJsonBody(req, bodyTimeoutMs);
+    const name = optionalString(body.name, 'name');
+    if (!name) throw new HttpError(400, 'name is required');
+    const reviewer = optionalString(body.reviewer, 'reviewer') ?? 'api';
+    const note = optionalString(body.note, 'note');
+
+    const normalized = normalizeKeyword(name);
+    const { version, updated } = await exclusive(async () => {
+      const { sites } = await syncRegistry();
+      const site = sites.find(s => s.normalized_name === normalized);
+      if (!site) throw new HttpError(404, `No registry entry for "${normalized}"`);
+
+      const updated = site.status === SiteStatus.FALSE_POSITIVE ? site : applyReviewDecision(site, 'rejected', reviewer, note);
+      if (updated !== site) {
+        const next = sites.map(s => (s.id === site.id ? updated : s));
+        await store.saveSites(next);
+        await recordStoredMutation(store, sites, next, 'review', `Rejected "${normalized}" via API`, reviewer);
+        await addLog(`${reviewer} rejected "${normalized}" via API${note ? `: ${note}` : ''}`, 'info');
+      }
+      const { feed } = await syncRegistry();
+      return { version: feed.version, updated };
+    });
+    sendJson(res, 200, { version, site: updated });
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+
+    if (req.method === 'GET' || req.method === 'HEAD') {
+      if (path === '/health') {
+        const { feed } = await loadRegistry();
+        return sendJson(res, 200, { ok: true, version: feed.version, writable: !!token });
+      }
+      if (path === '/sites') return getSites(req, res, url);
+      if (path === '/changes') return getChanges(req, res, url);
+      if (path === '/formats') {
+        return sendJson(res, 200, {
+          formats: EXPORT_FORMATTERS.map(({ id, label, extension }) => ({ id, label, extension })),
+          profiles: EXPORT_PROFILES.map(({ id, label }) => ({ id, label })),
+        });
+      }
+      const exportMatch = path.match(/^\/export\/([\w-]+)$/);
+      if (exportMatch) return getExport(req, res, url, exportMatch[1]);
+    }
+    if (req.method === 'POST') {
+      if (path === '/sightings') return postSighting(req, res);
+      if (path === '/false-positives') return postFalsePositive(req, res);
+    }
+    throw new HttpError(404, `No route for ${req.method} ${path}`);
+  };
+
+  return createServer((req, res) => {
+    route(req, res).catch(error => {
+      if (res.headersSent) return;
+      if (error instanceof HttpError) return sendJson(res, error.status, { error: error.message });
+      console.error(error);
+      sendJson(res, 500, { error: 'Internal server error' });
+    });
+  });
+};
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { AgentLog, ValidationIssue } from '../types';
+import {
+  EMPTY_LOG_FILTER,
+  LogFilter,
+  LogRetention,
+  filterLogs,
+  getLogCycles,
+  getLogKinds,
+} from '../services/agentLog';
+
+interface AgentLogPanelProps {
+  logs: AgentLog[];
+  retention: LogRetention;
+  onRetentionChange: (retention: LogRetention) => void;
+  onExport: (logs: AgentLog[]) => void;
+}
+
+// Rendering thousands of retained entries would stall the page; filters narrow down the rest
+const MAX_RENDERED = 200;
+const LOG_TYPES: AgentLog['type'][] = ['info', 'success', 'warning', 'error'];
+
+const formatTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleTimeString();
+};
+
+const selectClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-[11px] text-slate-300 outline-none focus:ring-1 focus:ring-indigo-500';
+
+const AgentLogPanel: React.FC<AgentLogPanelProps> = ({ logs, retention, onRetentionChange, onExport }) => {
+  const [filter, setFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+
+  const kinds = useMemo(() => getLogKinds(logs), [logs]);
+  const cycles = useMemo(() => getLogCycles(logs), [logs]);
+  const filtered = useMemo(() => filterLogs(logs, filter), [logs, filter]);
+  const isFiltered = filter.type !== 'all' || filter.kind !== 'all' || filter.cycleId !== 'all';
+
+  const setRetention = (key: keyof LogRetention, value: string) => {
+    const parsed = Number(value);
+    if (Number.isInteger(parsed) && parsed >= 1) onRetentionChange({ ...retention, [key]: parsed });
+  };
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-xl border border-slate-700 h-[420px] flex flex-col">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <i className="fas fa-terminal text-slate-500"></i>
+          Intelligence Stream
+        </h2>
+        <button
+          onClick={() => onExport(filtered)}
+          disabled={filtered.length === 0}
+          title="Download the entries shown as JSON Lines"
+          className="text-xs px-2 py-1 rounded bg-slate-900 border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+        >
+          <i className="fas fa-file-export mr-1"></i>
+          JSONL
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <select value={filter.type} onChange={(e) => setFilter({ ...filter, type: e.target.value as LogFilter['type'] })} className={selectClass}>
+          <option value="all">All types</option>
+          {LOG_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <select value={filter.kind} onChange={(e) => setFilter({ ...filter, kind: e.target.value })} className={selectClass}>
+          <option value="all">All events</option>
+          {kinds.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+        </select>
+        <select value={filter.cycleId} onChange={(e) => setFilter({ ...filter, cycleId: e.target.value })} className={selectClass}>
+          <option value="all">All cycles</option>
+          {cycles.map(cycle => (
+            <option key={cycle.cycleId} value={cycle.cycleId}>{formatTime(cycle.timestamp)} · {cycle.query}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-between items-center text-[10px] text-slate-500 mb-2">
+        <span>
+          {isFiltered ? `${filtered.length} of ${logs.length}` : logs.length} entries
+          {filtered.length > MAX_RENDERED ? ` (newest ${MAX_RENDERED} shown)` : ''}
+          {isFiltered && (
+            <button onClick={() => setFilter(EMPTY_LOG_FILTER)} className="ml-2 text-indigo-400 hover:text-indigo-300">clear</button>
+          )}
+        </span>
+        <span className="flex items-center gap-1">
+          keep
+          <input
+            type="number"
+            min={1}
+            value={retention.maxAgeDays}
+            onChange={(e) => setRetention('maxAgeDays', e.target.value)}
+            className="w-12 bg-slate-900 border border-slate-700 rounded px-1 text-slate-300"
+          />
+          days, max
+          <input
+            type="number"
+            min={1}
+            step={500}
+            value={retention.maxEntries}
+            onChange={(e) => setRetention('maxEntries', e.target.value)}
+            className="w-16 bg-slate-900 border border-slate-700 rounded px-1 text-slate-300"
+          />
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2 pr-2 scrollbar-thin scrollbar-thumb-slate-700">
+        {logs.length === 0 && (
+          <p className="text-slate-500 text-center py-10 text-sm">Agent idle. Initiate cycle or activate Auto-Mode.</p>
+        )}
+        {logs.length > 0 && filtered.length === 0 && (
+          <p className="text-slate-500 text-center py-10 text-sm">No entries match the filters.</p>
+        )}
+        {filtered.slice(0, MAX_RENDERED).map((log, i) => (
+          <div key={i} className="text-[11px] font-mono border-l-2 border-slate-700 pl-3 py-1 bg-slate-900/20 rounded-r">
+            <span className="text-slate-500 mr-2 opacity-50" title={log.timestamp}>[{formatTime(log.timestamp)}]</span>
+            <span className={`${
+              log.type === 'success' ? 'text-emerald-400 font-bold' :
+              log.type === 'error' ? 'text-rose-400' :
+              log.type === 'warning' ? 'text-indigo-400 animate-pulse' :
+              'text-slate-300'
+            }`}>
+              {log.message}
+            </span>
+            {log.cycleId && filter.cycleId === 'all' && (
+              <button
+                onClick={() => setFilter({ ...filter, cycleId: log.cycleId! })}
+                title={`Show only cycle ${log.cycleId}${log.query ? ` ("${log.query}")` : ''}`}
+                className="ml-2 text-[10px] text-slate-600 hover:text-indigo-400"
+              >
+                #{log.cycleId}
+              </button>
+            )}
+            {log.kind === 'sites_added' && Array.isArray(log.payload?.sites) && log.payload.sites.length > 0 && (
+              <div className="mt-1 text-slate-500 truncate">
+                {(log.payload.sites as { name: string }[]).map(site => site.name).join(', ')}
+              </div>
+            )}
+            {log.kind === 'validation' && Array.isArray(log.payload?.issues) && (
+              <ul className="mt-1 text-slate-500 space-y-0.5">
+                {(log.payload.issues as ValidationIssue[]).slice(0, 5).map((issue, j) => (
+                  <li key={j}>
+                    {issue.action === 'rejected' ? '✕' : '↻'} {issue.index !== null ? `#${issue.index} ` : ''}{issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default AgentLogPanel;
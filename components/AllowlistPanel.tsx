@@ -0,0 +1,132 @@
+import React, { useState, useMemo } from 'react';
+import { GamblingSite } from '../types';
+import {
+  AllowlistSettings,
+  AllowlistMatcher,
+  AllowlistRuleKind,
+  createAllowlistRule,
+  partitionAllowlisted,
+} from '../services/allowlist';
+import { STARTER_ALLOWLIST_TERMS } from '../services/allowlistDictionary';
+import { normalizeKeyword } from '../services/keywordNormalizer';
+
+interface AllowlistPanelProps {
+  sites: GamblingSite[];
+  settings: AllowlistSettings;
+  matcher: AllowlistMatcher;
+  onChange: (settings: AllowlistSettings) => void;
+}
+
+const KIND_HINTS: Record<AllowlistRuleKind, string> = {
+  exact: 'e.g. mabar',
+  prefix: 'e.g. mobilelegend',
+  regex: 'e.g. ^rrq\\w*$',
+};
+
+const MAX_LISTED = 100;
+
+const AllowlistPanel: React.FC<AllowlistPanelProps> = ({ sites, settings, matcher, onChange }) => {
+  const [kind, setKind] = useState<AllowlistRuleKind>('exact');
+  const [pattern, setPattern] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [probe, setProbe] = useState('');
+
+  const blocked = useMemo(() => partitionAllowlisted(sites, matcher).blocked, [sites, matcher]);
+  const probeNormalized = normalizeKeyword(probe);
+  const probeReason = probeNormalized ? matcher.check(probeNormalized) : null;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onChange({ ...settings, rules: [...settings.rules, createAllowlistRule(kind, pattern, note)] });
+      setPattern('');
+      setNote('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid rule');
+    }
+  };
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs outline-none focus:ring-1 focus:ring-indigo-500';
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Allowlist</h3>
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.useStarterDictionary}
+            onChange={(e) => onChange({ ...settings, useStarterDictionary: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          Starter dictionary ({STARTER_ALLOWLIST_TERMS.length} common words, games and brands)
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <form onSubmit={submit} className="space-y-2">
+            <div className="flex gap-2">
+              <select value={kind} onChange={(e) => setKind(e.target.value as AllowlistRuleKind)} className={inputClass}>
+                <option value="exact">exact</option>
+                <option value="prefix">prefix</option>
+                <option value="regex">regex</option>
+              </select>
+              <input type="text" value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder={KIND_HINTS[kind]} className={`flex-1 ${inputClass}`} />
+            </div>
+            <div className="flex gap-2">
+              <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Why it is legitimate (optional)" className={`flex-1 ${inputClass}`} />
+              <button type="submit" className="px-3 py-1.5 rounded-lg text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white">Add</button>
+            </div>
+            {error && <p className="text-xs text-rose-400">{error}</p>}
+          </form>
+          <div>
+            <input type="text" value={probe} onChange={(e) => setProbe(e.target.value)} placeholder="Test a keyword..." className={`w-full ${inputClass}`} />
+            {probeNormalized && (
+              <p className={`text-[11px] mt-1 font-mono ${probeReason ? 'text-sky-400' : 'text-slate-500'}`}>
+                {probeReason ? `Protected: ${probeReason}` : `"${probeNormalized}" may be blocked`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase mb-2">Custom Rules</h4>
+          {settings.rules.length === 0 && <p className="text-xs text-slate-500">No custom rules yet.</p>}
+          <div className="space-y-1 max-h-60 overflow-y-auto pr-1">
+            {settings.rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-2 text-[11px] font-mono bg-slate-900/40 rounded px-2 py-1.5">
+                <span className="text-slate-500 w-12">{rule.kind}</span>
+                <span className="flex-1 truncate text-slate-200" title={rule.note}>{rule.pattern}</span>
+                <button
+                  onClick={() => onChange({ ...settings, rules: settings.rules.filter(r => r.id !== rule.id) })}
+                  className="text-slate-600 hover:text-rose-400"
+                  title="Remove rule"
+                >
+                  <i className="fas fa-xmark"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase mb-2">Registry Entries Held Back ({blocked.length})</h4>
+          {blocked.length === 0 && <p className="text-xs text-slate-500">No registry entry matches the allowlist.</p>}
+          <div className="space-y-1 max-h-60 overflow-y-auto pr-1 text-[11px] font-mono">
+            {blocked.slice(0, MAX_LISTED).map(({ site, reason }) => (
+              <div key={site.id}>
+                <span className="text-sky-400">{site.normalized_name}</span>
+                <span className="block pl-3 text-slate-500">{reason}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AllowlistPanel;
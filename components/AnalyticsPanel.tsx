@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import { GamblingSite } from '../types';
+import { StrategyState } from '../services/queryStrategy';
+import {
+  CycleRecord,
+  getConfidenceHistogram,
+  getDiscoveryTrend,
+  getQuietBrands,
+  getRisingBrands,
+  getStrategyYield,
+  getTopSourceDomains,
+  summarizeCycles,
+} from '../services/discoveryAnalytics';
+
+interface AnalyticsPanelProps {
+  sites: GamblingSite[];
+  cycles: CycleRecord[];
+  strategy: StrategyState;
+}
+
+const RANGES = [14, 30, 90];
+const MAX_CYCLE_BARS = 40;
+const MAX_LISTED = 8;
+
+interface ColumnChartProps {
+  values: number[];
+  labels: string[];
+  color: string;
+  format?: (value: number) => string;
+}
+
+// Vertical bars scaled to the largest value; each bar's title carries its label and exact value
+const ColumnChart: React.FC<ColumnChartProps> = ({ values, labels, color, format = String }) => {
+  const max = Math.max(...values, 0);
+  return (
+    <div className="flex items-end gap-px h-24 bg-slate-900/40 rounded p-1">
+      {values.map((value, i) => (
+        <div key={i} className="flex-1 h-full flex items-end" title={`${labels[i]}: ${format(value)}`}>
+          <div className={`w-full rounded-sm ${color}`} style={{ height: max > 0 ? `${Math.max((value / max) * 100, value > 0 ? 4 : 0)}%` : 0 }}></div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface BarListProps {
+  rows: { label: string; value: number; detail: string }[];
+  color: string;
+}
+
+const BarList: React.FC<BarListProps> = ({ rows, color }) => {
+  const max = Math.max(...rows.map(row => row.value), 0);
+  return (
+    <div className="space-y-1 text-[11px] font-mono">
+      {rows.map(row => (
+        <div key={row.label} className="relative bg-slate-900/40 rounded px-2 py-1 flex justify-between gap-2 overflow-hidden">
+          <div className={`absolute inset-y-0 left-0 ${color}`} style={{ width: max > 0 ? `${(row.value / max) * 100}%` : 0 }}></div>
+          <span className="relative truncate text-slate-300" title={row.label}>{row.label}</span>
+          <span className="relative text-slate-400">{row.detail}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ChartTitle: React.FC<{ title: string; hint?: string }> = ({ title, hint }) => (
+  <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase mb-2">
+    <span>{title}</span>
+    {hint && <span className="normal-case font-normal">{hint}</span>}
+  </div>
+);
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ sites, cycles, strategy }) => {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [quietDays, setQuietDays] = useState(14);
+
+  const daily = useMemo(() => getDiscoveryTrend(sites, rangeDays), [sites, rangeDays]);
+  const weekly = useMemo(() => getDiscoveryTrend(sites, rangeDays, 7), [sites, rangeDays]);
+  const histogram = useMemo(() => getConfidenceHistogram(sites), [sites]);
+  const domains = useMemo(() => getTopSourceDomains(sites), [sites]);
+  const quiet = useMemo(() => getQuietBrands(sites, quietDays), [sites, quietDays]);
+  const rising = useMemo(() => getRisingBrands(sites, 7), [sites]);
+  const strategyYield = getStrategyYield(strategy);
+
+  // Planned cycles, whether run by the Auto Mode loop or on demand, are the ones the strategy is judged by
+  const plannedCycles = cycles.filter(cycle => cycle.mode !== 'manual');
+  const summary = summarizeCycles(plannedCycles);
+  const recentCycles = plannedCycles.slice(-MAX_CYCLE_BARS);
+
+  const addedInRange = daily.reduce((sum, bucket) => sum + bucket.added, 0);
+  const falsePositivesInRange = daily.reduce((sum, bucket) => sum + bucket.falsePositives, 0);
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Discovery Analytics</h3>
+        <div className="flex rounded-lg overflow-hidden border border-slate-700">
+          {RANGES.map(days => (
+            <button
+              key={days}
+              onClick={() => setRangeDays(days)}
+              className={`px-3 py-1 text-xs font-medium ${days === rangeDays ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-700'}`}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700">
+          <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">New in {rangeDays}d</div>
+          <div className="text-2xl font-bold text-emerald-400">{addedInRange}</div>
+        </div>
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700">
+          <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">False positive rate</div>
+          <div className="text-2xl font-bold text-rose-400">{addedInRange > 0 ? percent(falsePositivesInRange / addedInRange) : '—'}</div>
+        </div>
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700">
+          <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Yield per planned cycle</div>
+          <div className="text-2xl font-bold text-indigo-400">{summary.meanYield.toFixed(2)}</div>
+          <div className="text-[10px] text-slate-500">{summary.productive}/{summary.cycles} cycles found something</div>
+        </div>
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700">
+          <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Last 10 cycles</div>
+          <div className={`text-2xl font-bold ${summary.recentMeanYield >= summary.meanYield ? 'text-emerald-400' : 'text-amber-400'}`}>
+            {summary.recentMeanYield.toFixed(2)}
+          </div>
+          <div className="text-[10px] text-slate-500">
+            {summary.cycles === 0 ? 'No planned cycles yet' : summary.recentMeanYield >= summary.meanYield ? 'At or above the overall mean' : 'Below the overall mean'}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <ChartTitle title="New signatures per day" hint={`${daily[0]?.start} → ${daily[daily.length - 1]?.start}`} />
+          <ColumnChart values={daily.map(b => b.added)} labels={daily.map(b => b.start)} color="bg-emerald-500/70" />
+        </div>
+        <div>
+          <ChartTitle title="False positive rate per week" hint="share of entries first seen that week" />
+          <ColumnChart
+            values={weekly.map(b => (b.added > 0 ? b.falsePositives / b.added : 0))}
+            labels={weekly.map(b => `Week of ${b.start} (${b.falsePositives}/${b.added})`)}
+            color="bg-rose-500/70"
+            format={percent}
+          />
+        </div>
+        <div>
+          <ChartTitle title="Yield per planned cycle" hint={`last ${recentCycles.length}`} />
+          {recentCycles.length === 0 ? (
+            <p className="text-xs text-slate-500">Run Auto Mode or a planned cycle to record yields.</p>
+          ) : (
+            <ColumnChart
+              values={recentCycles.map(c => c.added)}
+              labels={recentCycles.map(c => `${new Date(c.timestamp).toLocaleString()} · ${c.query}`)}
+              color="bg-indigo-500/70"
+            />
+          )}
+        </div>
+        <div>
+          <ChartTitle title="Confidence distribution" hint="excludes false positives" />
+          <ColumnChart
+            values={histogram.map(b => b.count)}
+            labels={histogram.map(b => `${percent(b.from)}–${percent(b.to)}`)}
+            color="bg-amber-500/70"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div>
+          <ChartTitle title="Yield per strategy" />
+          <BarList
+            color="bg-indigo-500/20"
+            rows={strategyYield.map(row => ({ label: row.pattern, value: row.meanYield, detail: `${row.meanYield.toFixed(2)} · ${row.uses}×` }))}
+          />
+        </div>
+        <div>
+          <ChartTitle title="Top source domains" />
+          {domains.length === 0 ? (
+            <p className="text-xs text-slate-500">No sources recorded yet.</p>
+          ) : (
+            <BarList color="bg-emerald-500/20" rows={domains.map(d => ({ label: d.domain, value: d.count, detail: String(d.count) }))} />
+          )}
+        </div>
+        <div>
+          <ChartTitle title="Rising brands" hint="last 7d vs the 7d before" />
+          {rising.length === 0 ? (
+            <p className="text-xs text-slate-500">No brand is gaining new entries.</p>
+          ) : (
+            <BarList
+              color="bg-amber-500/20"
+              rows={rising.slice(0, MAX_LISTED).map(b => ({ label: b.stem, value: b.recent - b.previous, detail: `${b.previous} → ${b.recent}` }))}
+            />
+          )}
+        </div>
+        <div>
+          <div className="flex justify-between items-center text-[10px] font-bold text-slate-500 uppercase mb-2">
+            <span>Gone quiet</span>
+            <label className="normal-case font-normal flex items-center gap-1">
+              not seen in
+              <input
+                type="number"
+                min={1}
+                value={quietDays}
+                onChange={(e) => setQuietDays(Math.max(1, Number(e.target.value) || 1))}
+                className="w-12 bg-slate-900 border border-slate-700 rounded px-1 text-slate-300"
+              />
+              days
+            </label>
+          </div>
+          {quiet.length === 0 ? (
+            <p className="text-xs text-slate-500">Every brand was sighted in the last {quietDays} days.</p>
+          ) : (
+            <div className="space-y-1 max-h-48 overflow-y-auto pr-1 text-[11px] font-mono">
+              {quiet.map(brand => (
+                <div key={brand.stem} className="flex justify-between gap-2 bg-slate-900/40 rounded px-2 py-1">
+                  <span className="truncate text-slate-300">{brand.stem}{brand.members > 1 ? ` (${brand.members})` : ''}</span>
+                  <span className="text-slate-500" title={new Date(brand.lastSeen).toLocaleString()}>{brand.daysQuiet}d</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { SchedulerConfig, UsageCounters } from '../services/requestScheduler';
+
+interface ApiUsagePanelProps {
+  usage: UsageCounters;
+  budget: SchedulerConfig;
+  onBudgetChange: (budget: Partial<SchedulerConfig>) => void;
+}
+
+const UsageBar: React.FC<{ label: string; used: number; limit: number }> = ({ label, used, limit }) => {
+  const ratio = limit > 0 ? Math.min(1, used / limit) : 1;
+  const color = ratio >= 1 ? 'bg-rose-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500';
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] font-mono text-slate-400 mb-1">
+        <span className="uppercase font-bold text-slate-500">{label}</span>
+        <span>{used.toLocaleString()} / {limit.toLocaleString()}</span>
+      </div>
+      <div className="h-1.5 bg-slate-900 rounded-full overflow-hidden">
+        <div className={`h-full ${color} transition-all`} style={{ width: `${ratio * 100}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+const ApiUsagePanel: React.FC<ApiUsagePanelProps> = ({ usage, budget, onBudgetChange }) => {
+  const setLimit = (key: 'dailyCallBudget' | 'dailyTokenBudget', value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed) && parsed >= 0) onBudgetChange({ [key]: Math.floor(parsed) });
+  };
+
+  return (
+    <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700 mb-6 space-y-3">
+      <UsageBar label="API Calls Today" used={usage.calls} limit={budget.dailyCallBudget} />
+      <UsageBar label="Tokens Today" used={usage.tokens} limit={budget.dailyTokenBudget} />
+      <div className="flex justify-between text-[10px] font-mono text-slate-500">
+        <span>Retries: <span className="text-amber-400">{usage.retries}</span></span>
+        <span>Failures: <span className="text-rose-400">{usage.failures}</span></span>
+        <span>{budget.ratePerMinute}/min</span>
+      </div>
+      <details className="text-[10px] text-slate-500">
+        <summary className="cursor-pointer uppercase font-bold hover:text-slate-300">Daily Budget</summary>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <label className="flex flex-col gap-1">
+            Calls
+            <input
+              type="number"
+              min={0}
+              value={budget.dailyCallBudget}
+              onChange={(e) => setLimit('dailyCallBudget', e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Tokens
+            <input
+              type="number"
+              min={0}
+              step={10000}
+              value={budget.dailyTokenBudget}
+              onChange={(e) => setLimit('dailyTokenBudget', e.target.value)}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500"
+            />
+          </label>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default ApiUsagePanel;
@@ -0,0 +1,151 @@
+import React, { useState, useMemo } from 'react';
+import { GamblingSite, SiteStatus } from '../types';
+import {
+  BrandFamily,
+  FlaggedFamily,
+  MirrorSuggestion,
+  clusterBrandFamilies,
+  getFamilyLabel,
+  getFamilyRules,
+} from '../services/brandFamilies';
+
+interface BrandFamiliesPanelProps {
+  sites: GamblingSite[];
+  flaggedFamilies: FlaggedFamily[];
+  suggestions: MirrorSuggestion[];
+  onFlagFamily: (family: BrandFamily) => void;
+  onUnflagFamily: (id: string) => void;
+  onApproveMirrors: (suggestions: MirrorSuggestion[]) => void;
+}
+
+const MAX_FAMILIES = 50;
+const MAX_MEMBERS = 12;
+
+const isSameFamily = (family: BrandFamily, flagged: FlaggedFamily) =>
+  getFamilyLabel(family) === getFamilyLabel(flagged) || family.stems.some(stem => flagged.stems.includes(stem));
+
+const BrandFamiliesPanel: React.FC<BrandFamiliesPanelProps> = ({ sites, flaggedFamilies, suggestions, onFlagFamily, onUnflagFamily, onApproveMirrors }) => {
+  const [query, setQuery] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const families = useMemo(() => clusterBrandFamilies(sites), [sites]);
+  const clustered = families.reduce((sum, family) => sum + family.members.length, 0);
+  const visible = families
+    .filter(family => !query.trim() || family.stems.some(stem => stem.includes(query.trim().toLowerCase())))
+    .slice(0, MAX_FAMILIES);
+
+  const copy = async (rule: string) => {
+    try {
+      await navigator.clipboard.writeText(rule);
+      setCopied(rule);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const ruleButton = (label: string, rule: string) => (
+    <button
+      onClick={() => copy(rule)}
+      className="flex items-center gap-1 max-w-full bg-slate-900 border border-slate-700 rounded px-2 py-0.5 font-mono text-[10px] text-slate-300 hover:border-slate-500"
+      title={`Copy ${label} rule`}
+    >
+      <span className="text-slate-500 uppercase">{label}</span>
+      <span className="truncate">{rule}</span>
+      <i className={`fas ${copied === rule ? 'fa-check text-emerald-400' : 'fa-copy text-slate-600'}`}></i>
+    </button>
+  );
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
+          Brand Families <span className="text-slate-600 normal-case">{clustered} entries in {families.length} families</span>
+        </h3>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Find a family..."
+          className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="mb-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/5">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold text-amber-400">
+              <i className="fas fa-wand-magic-sparkles mr-1"></i>
+              {suggestions.length} pending entr{suggestions.length === 1 ? 'y matches' : 'ies match'} a flagged family
+            </span>
+            <button onClick={() => onApproveMirrors(suggestions)} className="px-2 py-1 rounded text-xs font-bold bg-emerald-600 hover:bg-emerald-500 text-white">
+              Approve all
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.slice(0, MAX_FAMILIES).map(suggestion => (
+              <button
+                key={suggestion.site.id}
+                onClick={() => onApproveMirrors([suggestion])}
+                className="text-[11px] font-mono px-2 py-1 rounded bg-slate-900 border border-slate-700 text-slate-300 hover:border-emerald-500/50 hover:text-emerald-300"
+                title={`Approve as a mirror of ${getFamilyLabel(suggestion.family)}`}
+              >
+                {suggestion.site.normalized_name}
+                <span className="text-slate-600"> → {getFamilyLabel(suggestion.family)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {families.length === 0 && <p className="text-xs text-slate-500">No brand families yet. Mirror names sharing a stem are grouped here.</p>}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-[480px] overflow-y-auto pr-1">
+        {visible.map(family => {
+          const label = getFamilyLabel(family);
+          const rules = getFamilyRules(family);
+          const flagged = flaggedFamilies.find(f => isSameFamily(family, f));
+          const pending = family.members.filter(site => site.status === SiteStatus.FLAGGED).length;
+          const rejected = family.members.filter(site => site.status === SiteStatus.FALSE_POSITIVE).length;
+          return (
+            <div key={family.stems.join('|')} className={`p-3 rounded-lg border ${flagged ? 'border-rose-500/30 bg-rose-500/5' : 'border-slate-700 bg-slate-900/40'}`}>
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="min-w-0">
+                  <span className="font-mono font-bold text-indigo-300">{label}</span>
+                  <span className="text-[10px] text-slate-500 ml-2">
+                    {family.members.length} members{pending > 0 ? ` · ${pending} pending` : ''}{rejected > 0 ? ` · ${rejected} false positive` : ''}
+                  </span>
+                </div>
+                {flagged ? (
+                  <button onClick={() => onUnflagFamily(flagged.id)} className="text-[10px] font-bold uppercase text-rose-400 hover:text-slate-300" title="Stop suggesting new mirrors of this family">
+                    <i className="fas fa-flag mr-1"></i>
+                    Flagged
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => onFlagFamily(family)}
+                    className="text-[10px] font-bold uppercase px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-rose-400 hover:border-rose-500/50"
+                    title="Approve pending members and suggest new mirrors of this family"
+                  >
+                    Flag family
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {family.members.slice(0, MAX_MEMBERS).map(site => (
+                  <span key={site.id} className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-slate-800 text-slate-400">{site.normalized_name}</span>
+                ))}
+                {family.members.length > MAX_MEMBERS && <span className="text-[10px] text-slate-600">+{family.members.length - MAX_MEMBERS} more</span>}
+              </div>
+              <div className="flex flex-col gap-1 items-start">
+                {rules.wildcard && ruleButton('wildcard', rules.wildcard)}
+                {ruleButton('regex', rules.regex)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BrandFamiliesPanel;
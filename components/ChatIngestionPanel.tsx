@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ChatIngestionStats, ChatSource, ChatSourceStatus } from '../services/chatIngestion';
+import { createReplayChatSource, createTwitchChatSource, createYouTubeChatSource } from '../services/chatSources';
+
+interface ChatIngestionPanelProps {
+  stats: ChatIngestionStats;
+  onConnect: (source: ChatSource) => void;
+  onDisconnect: (id: string) => void;
+}
+
+type SourceKind = 'twitch' | 'youtube' | 'replay';
+
+const REPLAY_SPEEDS = [
+  { value: 0, label: 'At once' },
+  { value: 1, label: 'Real time' },
+  { value: 10, label: '10× speed' },
+];
+
+const STATUS_STYLES: Record<ChatSourceStatus, string> = {
+  connecting: 'text-amber-400',
+  live: 'text-emerald-400',
+  ended: 'text-slate-500',
+  error: 'text-rose-400',
+};
+
+const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-orange-500';
+
+const ChatIngestionPanel: React.FC<ChatIngestionPanelProps> = ({ stats, onConnect, onDisconnect }) => {
+  const [kind, setKind] = useState<SourceKind>('twitch');
+  const [channel, setChannel] = useState('');
+  const [videoId, setVideoId] = useState('');
+  const [apiKey, setApiKey] = useState(process.env.YOUTUBE_API_KEY ?? '');
+  const [speed, setSpeed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const connect = (create: () => ChatSource) => {
+    try {
+      onConnect(create());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not connect');
+    }
+  };
+
+  const handleReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    connect(() => createReplayChatSource({ label: file.name, content, speed }));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Live Chat Ingestion</h3>
+        <span className="text-[10px] font-mono text-slate-500">
+          {stats.messages.toLocaleString()} messages · {stats.flagged} flagged{stats.pending > 0 ? ` · ${stats.pending} pending` : ''}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <div className="flex rounded-lg overflow-hidden border border-slate-700">
+            {(['twitch', 'youtube', 'replay'] as SourceKind[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`flex-1 px-3 py-1.5 text-xs font-medium capitalize ${option === kind ? 'bg-orange-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-700'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'twitch' && (
+            <div className="flex gap-2">
+              <input value={channel} onChange={(e) => setChannel(e.target.value)} placeholder="Channel name" className={inputClass} />
+              <button
+                onClick={() => connect(() => createTwitchChatSource({ channel }))}
+                disabled={!channel.trim()}
+                className="px-4 rounded-lg bg-orange-600 hover:bg-orange-500 text-white text-sm font-bold disabled:opacity-50"
+              >
+                Join
+              </button>
+            </div>
+          )}
+
+          {kind === 'youtube' && (
+            <div className="space-y-2">
+              <input value={videoId} onChange={(e) => setVideoId(e.target.value)} placeholder="Live video id" className={inputClass} />
+              <input type="password" value={apiKey} onChange={(e) => setApiKey(e.target.value)} placeholder="YouTube Data API key" className={inputClass} />
+              <button
+                onClick={() => connect(() => createYouTubeChatSource({ videoId, apiKey }))}
+                disabled={!videoId.trim() || !apiKey}
+                className="w-full py-2 rounded-lg bg-orange-600 hover:bg-orange-500 text-white text-sm font-bold disabled:opacity-50"
+              >
+                Start polling
+              </button>
+            </div>
+          )}
+
+          {kind === 'replay' && (
+            <div className="space-y-2">
+              <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className={inputClass}>
+                {REPLAY_SPEEDS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              <label className="block w-full py-2 rounded-lg bg-orange-600 hover:bg-orange-500 text-white text-sm font-bold text-center cursor-pointer">
+                <i className="fas fa-upload mr-2"></i>
+                Replay chat log
+                <input type="file" accept=".txt,.json,.jsonl,.log" onChange={handleReplay} className="hidden" />
+              </label>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          <p className="text-[11px] text-slate-500">
+            Messages with unknown domains, or brand-like names next to gambling terms, are added to the review queue as flagged entries with the message as evidence.
+          </p>
+        </div>
+
+        <div>
+          <div className="text-[10px] font-bold text-slate-500 uppercase mb-2">Sources</div>
+          {stats.sources.length === 0 ? (
+            <p className="text-xs text-slate-500">No chat connected.</p>
+          ) : (
+            <div className="space-y-1 text-[11px] font-mono">
+              {stats.sources.map(source => (
+                <div key={source.id} className="flex items-center justify-between gap-2 bg-slate-900/40 rounded px-2 py-1">
+                  <div className="min-w-0">
+                    <div className="truncate text-slate-300">{source.label}</div>
+                    <div className={`truncate ${STATUS_STYLES[source.status]}`} title={source.detail}>
+                      {source.status}{source.detail ? ` · ${source.detail}` : ''}
+                    </div>
+                  </div>
+                  <span className="text-slate-500 whitespace-nowrap">{source.messages} msg · {source.candidates} hits</span>
+                  <button onClick={() => onDisconnect(source.id)} title="Disconnect and remove" className="text-slate-500 hover:text-rose-400">
+                    <i className="fas fa-xmark"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <div className="text-[10px] font-bold text-slate-500 uppercase mb-2">Recently flagged</div>
+          {stats.recent.length === 0 ? (
+            <p className="text-xs text-slate-500">Nothing flagged from chat yet.</p>
+          ) : (
+            <div className="space-y-1 max-h-48 overflow-y-auto pr-1 text-[11px] font-mono">
+              {stats.recent.map(candidate => (
+                <div key={`${candidate.name}-${candidate.timestamp}`} className="bg-slate-900/40 rounded px-2 py-1">
+                  <div className="flex justify-between gap-2">
+                    <span className="text-orange-400 font-bold">{candidate.name}</span>
+                    <span className="text-slate-500">{candidate.source}</span>
+                  </div>
+                  <div className="text-slate-400 truncate" title={candidate.text}>{candidate.author || 'anonymous'}: {candidate.text}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatIngestionPanel;
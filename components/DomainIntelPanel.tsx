@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { GamblingSite } from '../types';
+import { StoredBlocklist } from '../services/domainIntel';
+
+interface DomainIntelPanelProps {
+  sites: GamblingSite[];
+  blocklist: StoredBlocklist | undefined;
+  resolverLabel: string | null;
+  onLoadBlocklist: (content: string, label: string) => void;
+  onClearBlocklist: () => void;
+  onRecheck: () => Promise<void>;
+}
+
+const MAX_LISTED = 50;
+
+const DomainIntelPanel: React.FC<DomainIntelPanelProps> = ({ sites, blocklist, resolverLabel, onLoadBlocklist, onClearBlocklist, onRecheck }) => {
+  const [isChecking, setIsChecking] = useState(false);
+
+  const withDomain = sites.filter(site => site.domain_intel);
+  const listed = withDomain.filter(site => site.domain_intel!.blocklisted);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    onLoadBlocklist(await file.text(), file.name);
+    e.target.value = '';
+  };
+
+  const recheck = async () => {
+    setIsChecking(true);
+    try {
+      await onRecheck();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Domain Intel</h3>
+        <button
+          onClick={recheck}
+          disabled={isChecking || sites.length === 0}
+          className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-900 border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-50"
+        >
+          <i className={`fas ${isChecking ? 'fa-spinner fa-spin' : 'fa-rotate'} mr-1`}></i>
+          Re-check registry
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3 text-xs">
+          <div>
+            <div className="text-[10px] font-bold text-slate-500 uppercase mb-1">Blocklist feed</div>
+            {blocklist ? (
+              <div className="flex items-center gap-2">
+                <span className="text-slate-200 font-mono truncate">{blocklist.label}</span>
+                <span className="text-slate-500">{blocklist.domains.length.toLocaleString()} domains · {new Date(blocklist.loaded_at).toLocaleDateString()}</span>
+                <button onClick={onClearBlocklist} className="ml-auto text-slate-600 hover:text-rose-400" title="Remove blocklist">
+                  <i className="fas fa-xmark"></i>
+                </button>
+              </div>
+            ) : (
+              <p className="text-slate-500">No blocklist loaded. Load a plain domain list such as the Trust+ (Kominfo) export, or a hosts file.</p>
+            )}
+            <label className="mt-2 inline-flex px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 hover:border-slate-500 cursor-pointer items-center gap-2">
+              <i className="fas fa-upload"></i>
+              {blocklist ? 'Replace' : 'Load'} file
+              <input type="file" accept=".txt,.csv,.hosts" onChange={handleUpload} className="hidden" />
+            </label>
+          </div>
+          <div>
+            <div className="text-[10px] font-bold text-slate-500 uppercase mb-1">Resolver</div>
+            <p className="text-slate-400">
+              {resolverLabel ?? 'None in the browser. Redirects and aliases are recorded by the CLI resolver or the offline fixtures provider.'}
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-[10px] font-bold text-slate-500 uppercase mb-2">
+            {withDomain.length} entries with a domain · {listed.length} blocklisted
+          </div>
+          <div className="space-y-1 max-h-52 overflow-y-auto pr-1 text-[11px] font-mono">
+            {listed.slice(0, MAX_LISTED).map(site => (
+              <div key={site.id} className="flex justify-between gap-2">
+                <span className="text-rose-300 truncate">{site.domain_intel!.domain}</span>
+                <span className="text-slate-500 truncate">{site.domain_intel!.signals.join(', ')}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DomainIntelPanel;
@@ -0,0 +1,95 @@
+import React, { useState, useMemo } from 'react';
+import { GamblingSite } from '../types';
+import { EXPORT_PROFILES, ExportProfile, applyExportProfile, diffProfiles } from '../services/exportPolicy';
+
+interface ExportProfilePreviewProps {
+  sites: GamblingSite[];
+  activeProfile: ExportProfile;
+  onSelect: (profileId: string) => void;
+}
+
+const MAX_LISTED = 100;
+
+const ExportProfilePreview: React.FC<ExportProfilePreviewProps> = ({ sites, activeProfile, onSelect }) => {
+  const [comparedId, setComparedId] = useState<string | null>(null);
+
+  const summaries = useMemo(() => EXPORT_PROFILES.map(profile => ({
+    profile,
+    included: applyExportProfile(sites, profile).length,
+    diff: diffProfiles(sites, activeProfile, profile),
+  })), [sites, activeProfile]);
+
+  const compared = summaries.find(s => s.profile.id === comparedId && s.profile.id !== activeProfile.id);
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">Export Profile Preview</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {summaries.map(({ profile, included, diff }) => {
+          const isActive = profile.id === activeProfile.id;
+          return (
+            <div
+              key={profile.id}
+              className={`p-4 rounded-lg border transition-colors ${
+                isActive ? 'bg-emerald-500/5 border-emerald-500/40' : 'bg-slate-900/50 border-slate-700'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-bold text-slate-100">{profile.label}</span>
+                <span className="text-xl font-bold text-emerald-400">{included}</span>
+              </div>
+              <p className="text-[11px] text-slate-500 mb-2">{profile.description}</p>
+              <div className="text-[10px] font-mono text-slate-400 space-y-0.5">
+                <div>confidence ≥ {(profile.minConfidence * 100).toFixed(0)}% · sources ≥ {profile.minSourceCount}</div>
+                <div>seen within {profile.maxAgeDays === null ? 'any time' : `${profile.maxAgeDays}d`} · {profile.statuses.join(', ')}</div>
+              </div>
+              <div className="flex items-center justify-between mt-3">
+                {isActive ? (
+                  <span className="text-[10px] font-black uppercase tracking-widest text-emerald-400">Active</span>
+                ) : (
+                  <button
+                    onClick={() => setComparedId(comparedId === profile.id ? null : profile.id)}
+                    className="text-[10px] font-mono"
+                  >
+                    <span className="text-emerald-400">+{diff.added.length}</span>{' '}
+                    <span className="text-rose-400">-{diff.dropped.length}</span>{' '}
+                    <span className="text-slate-500 underline">vs active</span>
+                  </button>
+                )}
+                {!isActive && (
+                  <button
+                    onClick={() => onSelect(profile.id)}
+                    className="px-2 py-1 rounded text-[10px] font-bold bg-slate-800 border border-slate-700 text-slate-300 hover:border-slate-500"
+                  >
+                    Use
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {compared && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 text-[11px] font-mono">
+          <div className="bg-slate-900/50 p-3 rounded-lg border border-emerald-500/20 max-h-48 overflow-y-auto">
+            <div className="text-emerald-400 font-bold mb-2">{compared.profile.label} adds {compared.diff.added.length}</div>
+            {compared.diff.added.slice(0, MAX_LISTED).map(site => (
+              <div key={site.id} className="text-slate-300">{site.normalized_name}</div>
+            ))}
+          </div>
+          <div className="bg-slate-900/50 p-3 rounded-lg border border-rose-500/20 max-h-48 overflow-y-auto">
+            <div className="text-rose-400 font-bold mb-2">{compared.profile.label} drops {compared.diff.dropped.length}</div>
+            {compared.diff.dropped.slice(0, MAX_LISTED).map(({ site, reason }) => (
+              <div key={site.id} className="text-slate-300">
+                {site.normalized_name} <span className="text-slate-500">({reason})</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportProfilePreview;
@@ -0,0 +1,187 @@
+import React, { useState, useMemo } from 'react';
+import { GamblingSite } from '../types';
+import { parseChatLog, ChatLogFormat } from '../services/chatLogParser';
+import { createChatMatcher, computeFilterMetrics, ChatMatch, FilterLabLabels } from '../services/chatMatcher';
+
+interface FilterLabProps {
+  sites: GamblingSite[];
+}
+
+type ResultView = 'all' | 'blocked' | 'suspicious';
+
+const MAX_RENDERED_ROWS = 500;
+
+const formatRatio = (value: number | null, labeled: number) =>
+  labeled === 0 ? 'unmeasured' : value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+
+const FilterLab: React.FC<FilterLabProps> = ({ sites }) => {
+  const [rawLog, setRawLog] = useState('');
+  const [matches, setMatches] = useState<ChatMatch[]>([]);
+  const [format, setFormat] = useState<ChatLogFormat | null>(null);
+  const [labels, setLabels] = useState<FilterLabLabels>({});
+  const [view, setView] = useState<ResultView>('all');
+
+  const runLab = (content: string) => {
+    const parsed = parseChatLog(content);
+    const matcher = createChatMatcher(sites);
+    setFormat(parsed.format);
+    setMatches(parsed.messages.map(message => matcher.match(message)));
+    setLabels({});
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const content = await file.text();
+    setRawLog(content);
+    runLab(content);
+    e.target.value = '';
+  };
+
+  const metrics = useMemo(() => computeFilterMetrics(matches, labels), [matches, labels]);
+
+  const visible = matches
+    .map((match, index) => ({ match, index }))
+    .filter(({ match }) =>
+      view === 'all' ||
+      (view === 'blocked' && match.matched) ||
+      (view === 'suspicious' && !match.matched && match.suspicionReasons.length > 0)
+    );
+
+  // Clicking the active label again clears it
+  const setLabel = (index: number, isSpam: boolean) => {
+    setLabels(prev => {
+      const { [index]: current, ...rest } = prev;
+      return current === isSpam ? rest : { ...rest, [index]: isSpam };
+    });
+  };
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-xl border border-slate-700 mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <i className="fas fa-flask text-amber-400"></i>
+          Filter Lab
+        </h2>
+        {format && (
+          <span className="text-[10px] font-bold text-slate-500 uppercase">Parsed as {format} · {matches.length} messages</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <textarea
+            value={rawLog}
+            onChange={(e) => setRawLog(e.target.value)}
+            placeholder="Paste chat lines, or a YouTube / Twitch chat JSON export..."
+            className="w-full h-48 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-xs font-mono focus:ring-2 focus:ring-amber-500 outline-none transition-all"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => runLab(rawLog)}
+              disabled={!rawLog.trim()}
+              className="flex-1 py-2 rounded-lg font-bold flex items-center justify-center gap-2 bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <i className="fas fa-play"></i>
+              Run Filter
+            </button>
+            <label className="px-4 py-2 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 hover:border-slate-500 cursor-pointer transition-colors flex items-center gap-2">
+              <i className="fas fa-upload"></i>
+              Upload
+              <input type="file" accept=".txt,.json,.jsonl,.log" onChange={handleUpload} className="hidden" />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+              <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Blocked</div>
+              <div className="text-xl font-bold text-rose-400">{metrics.blocked}</div>
+            </div>
+            <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+              <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Suspicious Missed</div>
+              <div className="text-xl font-bold text-amber-400">{metrics.suspiciousUnmatched}</div>
+            </div>
+            <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+              <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Precision</div>
+              <div className="text-xl font-bold text-emerald-400">{formatRatio(metrics.precision, metrics.labeled)}</div>
+            </div>
+            <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+              <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Recall</div>
+              <div className="text-xl font-bold text-indigo-400">{formatRatio(metrics.recall, metrics.labeled)}</div>
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            {metrics.labeled} of {matches.length} messages labeled. Mark messages as spam or legit; precision and recall are measured over labeled messages only.
+          </p>
+        </div>
+
+        <div className="lg:col-span-2 flex flex-col">
+          <div className="flex gap-2 mb-3">
+            {(['all', 'blocked', 'suspicious'] as ResultView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 rounded text-[10px] font-black uppercase tracking-widest border transition-colors ${
+                  view === option ? 'bg-amber-500/10 text-amber-400 border-amber-500/30' : 'bg-slate-900 text-slate-500 border-slate-700 hover:text-slate-300'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 h-80 overflow-y-auto space-y-1 pr-2">
+            {visible.length === 0 && (
+              <p className="text-slate-500 text-center py-10 text-sm">No messages to show. Paste a chat log and run the filter.</p>
+            )}
+            {visible.slice(0, MAX_RENDERED_ROWS).map(({ match, index }) => {
+              const label = labels[index];
+              return (
+                <div key={index} className={`text-[11px] font-mono border-l-2 pl-3 py-1 rounded-r flex items-start gap-3 ${
+                  match.matched ? 'border-rose-500 bg-rose-500/5' : match.suspicionReasons.length > 0 ? 'border-amber-500 bg-amber-500/5' : 'border-slate-700 bg-slate-900/20'
+                }`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-slate-300 break-words">
+                      {match.message.author && <span className="text-slate-500 mr-2">{match.message.author}:</span>}
+                      {match.message.text}
+                    </div>
+                    {match.matched && (
+                      <div className="text-rose-400 mt-0.5">blocked by <span className="font-bold">{match.matched.normalized_name}</span> ({match.matched.site_name})</div>
+                    )}
+                    {!match.matched && match.suspicionReasons.length > 0 && (
+                      <div className="text-amber-400 mt-0.5">unmatched · {match.suspicionReasons.join(' · ')}</div>
+                    )}
+                  </div>
+                  <div className="shrink-0 flex gap-1">
+                    <button
+                      onClick={() => setLabel(index, true)}
+                      className={`px-2 py-0.5 rounded text-[9px] font-black uppercase border ${
+                        label === true ? 'text-rose-400 border-rose-500/30 bg-rose-500/10' : 'text-slate-600 border-slate-700 hover:text-slate-400'
+                      }`}
+                      title="Label as spam"
+                    >
+                      spam
+                    </button>
+                    <button
+                      onClick={() => setLabel(index, false)}
+                      className={`px-2 py-0.5 rounded text-[9px] font-black uppercase border ${
+                        label === false ? 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' : 'text-slate-600 border-slate-700 hover:text-slate-400'
+                      }`}
+                      title="Label as legitimate"
+                    >
+                      legit
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            {visible.length > MAX_RENDERED_ROWS && (
+              <p className="text-slate-500 text-center py-2 text-[10px]">Showing first {MAX_RENDERED_ROWS} of {visible.length} messages.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default FilterLab;
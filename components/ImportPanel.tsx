@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import { GamblingSite } from '../types';
+import { parseImport, planImport, ImportEntry, ImportCategory, ImportRejection, ConflictResolution } from '../services/registryImport';
+import { AllowlistMatcher } from '../services/allowlist';
+
+interface ImportPanelProps {
+  sites: GamblingSite[];
+  allowlist: AllowlistMatcher;
+  onApply: (plan: ImportEntry[], resolutions: Record<string, ConflictResolution>, label: string) => void;
+  onBackup: () => void;
+}
+
+const CATEGORY_STYLES: Record<ImportCategory, string> = {
+  new: 'text-emerald-400',
+  duplicate: 'text-slate-400',
+  conflict: 'text-amber-400',
+  suppressed: 'text-rose-400',
+  allowlisted: 'text-sky-400',
+};
+
+const MAX_LISTED = 200;
+
+const ImportPanel: React.FC<ImportPanelProps> = ({ sites, allowlist, onApply, onBackup }) => {
+  const [content, setContent] = useState('');
+  const [filename, setFilename] = useState('');
+  const [plan, setPlan] = useState<ImportEntry[] | null>(null);
+  const [rejected, setRejected] = useState<ImportRejection[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = (text: string, name: string) => {
+    try {
+      const parsed = parseImport(text, name);
+      setPlan(planImport(sites, parsed.sites, allowlist));
+      setRejected(parsed.rejected);
+      setResolutions({});
+      setError(null);
+    } catch (e) {
+      setPlan(null);
+      setRejected([]);
+      setError(e instanceof Error ? e.message : 'Could not parse import');
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setContent(text);
+    setFilename(file.name);
+    preview(text, file.name);
+    e.target.value = '';
+  };
+
+  const counts = useMemo(() => {
+    const result: Record<ImportCategory, number> = { new: 0, duplicate: 0, conflict: 0, suppressed: 0, allowlisted: 0 };
+    plan?.forEach(entry => result[entry.category]++);
+    return result;
+  }, [plan]);
+
+  const apply = () => {
+    if (!plan) return;
+    onApply(plan, resolutions, filename || 'pasted list');
+    setPlan(null);
+    setRejected([]);
+    setContent('');
+    setFilename('');
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Import Registry</h3>
+        <button
+          onClick={onBackup}
+          disabled={sites.length === 0}
+          className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-900 border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-50"
+        >
+          <i className="fas fa-download mr-1"></i>
+          Backup JSON
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <textarea
+            value={content}
+            onChange={(e) => { setContent(e.target.value); setFilename(''); }}
+            placeholder="Paste a TXT keyword list, CSV, or GamblShield JSON backup..."
+            className="w-full h-40 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => preview(content, filename)}
+              disabled={!content.trim()}
+              className="flex-1 py-2 rounded-lg font-bold bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Preview
+            </button>
+            <label className="px-4 py-2 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 hover:border-slate-500 cursor-pointer flex items-center gap-2">
+              <i className="fas fa-upload"></i>
+              File
+              <input type="file" accept=".txt,.csv,.json" onChange={handleUpload} className="hidden" />
+            </label>
+          </div>
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+          {plan && (
+            <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+              {(Object.keys(counts) as ImportCategory[]).map(category => (
+                <div key={category} className="bg-slate-900/50 px-3 py-2 rounded border border-slate-700 flex justify-between">
+                  <span className="uppercase text-slate-500">{category}</span>
+                  <span className={`font-bold ${CATEGORY_STYLES[category]}`}>{counts[category]}</span>
+                </div>
+              ))}
+              {rejected.length > 0 && (
+                <div className="bg-slate-900/50 px-3 py-2 rounded border border-slate-700 flex justify-between">
+                  <span className="uppercase text-slate-500">invalid</span>
+                  <span className="font-bold text-orange-400">{rejected.length}</span>
+                </div>
+              )}
+            </div>
+          )}
+          {plan && (
+            <button
+              onClick={apply}
+              disabled={counts.new + counts.duplicate + counts.conflict + counts.suppressed === 0}
+              className="w-full py-2 rounded-lg font-bold bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-50"
+            >
+              Apply Import
+            </button>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 max-h-80 overflow-y-auto">
+          {!plan && <p className="text-slate-500 text-center py-10 text-sm">Preview an import to see new, duplicate and conflicting entries.</p>}
+          {plan && (
+            <table className="w-full text-left text-xs font-mono">
+              <tbody className="divide-y divide-slate-700/50">
+                {plan.slice(0, MAX_LISTED).map(entry => (
+                  <tr key={entry.incoming.normalized_name}>
+                    <td className={`py-1.5 pr-3 uppercase text-[10px] font-black ${CATEGORY_STYLES[entry.category]}`}>{entry.category}</td>
+                    <td className="py-1.5 pr-3 text-slate-200">{entry.incoming.normalized_name}</td>
+                    <td className="py-1.5 pr-3 text-slate-500">{entry.reason}</td>
+                    <td className="py-1.5 text-right">
+                      {entry.category === 'conflict' && (
+                        <select
+                          value={resolutions[entry.incoming.normalized_name] ?? 'merge'}
+                          onChange={(e) => setResolutions(prev => ({ ...prev, [entry.incoming.normalized_name]: e.target.value as ConflictResolution }))}
+                          className="bg-slate-900 border border-slate-700 rounded px-2 py-0.5"
+                        >
+                          <option value="merge">merge</option>
+                          <option value="keep">keep registry</option>
+                          <option value="incoming">take import</option>
+                        </select>
+                      )}
+                      {entry.category === 'suppressed' && <span className="text-rose-400/70">stays suppressed</span>}
+                      {entry.category === 'allowlisted' && <span className="text-sky-400/70">skipped</span>}
+                    </td>
+                  </tr>
+                ))}
+                {rejected.slice(0, MAX_LISTED).map((rejection, i) => (
+                  <tr key={`rejected-${i}`}>
+                    <td className="py-1.5 pr-3 uppercase text-[10px] font-black text-orange-400">invalid</td>
+                    <td className="py-1.5 pr-3 text-slate-200">{rejection.record}</td>
+                    <td className="py-1.5 pr-3 text-slate-500">{rejection.reason}</td>
+                    <td className="py-1.5 text-right"><span className="text-orange-400/70">skipped</span></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {plan && plan.length > MAX_LISTED && (
+            <p className="text-slate-500 text-center py-2 text-[10px]">Showing first {MAX_LISTED} of {plan.length} entries.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPanel;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { StrategyState, addTemplate, removeTemplate, getMeanYield, getRegionTemplates } from '../services/queryStrategy';
+import { getRegionProfile } from '../services/regionProfiles';
+
+interface QueryStrategyPanelProps {
+  state: StrategyState;
+  regionId: string;
+  onChange: (state: StrategyState) => void;
+}
+
+const MAX_RECENT = 5;
+
+const QueryStrategyPanel: React.FC<QueryStrategyPanelProps> = ({ state, regionId, onChange }) => {
+  const [pattern, setPattern] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onChange(addTemplate(state, pattern, regionId));
+      setPattern('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid template');
+    }
+  };
+
+  const templates = getRegionTemplates(state, regionId).sort(
+    (a, b) => getMeanYield(state.templateStats[b.id]) - getMeanYield(state.templateStats[a.id])
+  );
+
+  return (
+    <section className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <i className="fas fa-chess-knight text-slate-500"></i>
+        Query Strategies
+        <span className="ml-auto text-[10px] font-bold text-slate-500 uppercase">{getRegionProfile(regionId).label}</span>
+      </h2>
+      <div className="space-y-1 mb-4 max-h-48 overflow-y-auto pr-1">
+        {templates.map(template => {
+          const stats = state.templateStats[template.id];
+          return (
+            <div key={template.id} className="flex items-center gap-2 text-[11px] font-mono bg-slate-900/40 rounded px-2 py-1.5">
+              <span className="flex-1 truncate text-slate-300" title={template.pattern}>{template.pattern}</span>
+              <span className="text-slate-500" title="Uses">{stats?.uses ?? 0}×</span>
+              <span className="text-emerald-400 w-12 text-right" title="New signatures per query">{getMeanYield(stats).toFixed(2)}</span>
+              {!template.builtIn && (
+                <button onClick={() => onChange(removeTemplate(state, template.id))} className="text-slate-600 hover:text-rose-400" title="Remove template">
+                  <i className="fas fa-xmark"></i>
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder="e.g. rtp live {stem} hari ini"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button type="submit" disabled={!pattern.trim()} className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold disabled:opacity-50">
+          Add
+        </button>
+      </form>
+      {error && <p className="text-xs text-rose-400 mt-1">{error}</p>}
+      {state.recentQueries.length > 0 && (
+        <div className="mt-4">
+          <div className="text-[10px] text-slate-500 uppercase font-bold mb-1">Recent Queries</div>
+          <ul className="text-[10px] font-mono text-slate-500 space-y-0.5">
+            {state.recentQueries.slice(0, MAX_RECENT).map(query => (
+              <li key={query} className="truncate">{query}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default QueryStrategyPanel;
@@ -0,0 +1,187 @@
+import React, { useState, useMemo } from 'react';
+import { GamblingSite } from '../types';
+import {
+  RegistryHistory,
+  RegistrySnapshot,
+  MutationKind,
+  FieldChange,
+  diffRegistries,
+  findChangeSource,
+} from '../services/registryHistory';
+
+interface RegistryHistoryPanelProps {
+  sites: GamblingSite[];
+  history: RegistryHistory;
+  snapshots: RegistrySnapshot[];
+  onSnapshot: (name: string) => void;
+  onRollback: (snapshot: RegistrySnapshot) => void;
+}
+
+// Pseudo snapshot id standing for the live registry in the compare selectors
+const CURRENT = 'current';
+const MAX_ENTRIES = 50;
+const MAX_LISTED = 100;
+
+const KIND_STYLES: Record<MutationKind, string> = {
+  discovery: 'text-indigo-400',
+  status: 'text-amber-400',
+  review: 'text-emerald-400',
+  import: 'text-sky-400',
+  delete: 'text-rose-400',
+  rollback: 'text-fuchsia-400',
+  api: 'text-slate-300',
+  enrichment: 'text-cyan-400',
+  chat: 'text-orange-400',
+};
+
+const formatFields = (fields: Record<string, FieldChange>) =>
+  Object.entries(fields).map(([field, { from, to }]) => `${field} ${String(from)} → ${String(to)}`).join(', ');
+
+const RegistryHistoryPanel: React.FC<RegistryHistoryPanelProps> = ({ sites, history, snapshots, onSnapshot, onRollback }) => {
+  const [name, setName] = useState('');
+  const [baseId, setBaseId] = useState(snapshots[0]?.id ?? CURRENT);
+  const [targetId, setTargetId] = useState(CURRENT);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+
+  const resolve = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    return snapshot
+      ? { label: snapshot.name, version: snapshot.version, sites: snapshot.sites }
+      : { label: 'Current registry', version: history.version, sites };
+  };
+  const base = resolve(baseId);
+  const target = resolve(targetId);
+  const diff = useMemo(() => diffRegistries(base.sites, target.sites), [base.sites, target.sites]);
+
+  // Explains each change with the changelog entry that caused it, when it falls between the two versions
+  const sourceOf = (entryName: string) => {
+    if (target.version <= base.version) return null;
+    const entry = findChangeSource(history, entryName, base.version, target.version);
+    return entry ? `v${entry.version} ${entry.kind}: ${entry.summary}` : null;
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSnapshot(name);
+    setName('');
+  };
+
+  const rollback = (snapshot: RegistrySnapshot) => {
+    if (window.confirm(`Replace the registry with snapshot "${snapshot.name}" (${snapshot.sites.length} entries)? The rollback itself is recorded and can be undone from a later snapshot.`)) {
+      onRollback(snapshot);
+    }
+  };
+
+  const selectClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 outline-none';
+
+  return (
+    <div className="bg-slate-800/50 p-6 rounded-xl border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Registry History <span className="text-slate-600">v{history.version}</span></h3>
+        <form onSubmit={submit} className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Snapshot name"
+            className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <button type="submit" className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-900 border border-slate-700 text-slate-300 hover:border-slate-500">
+            <i className="fas fa-camera mr-1"></i>
+            Snapshot
+          </button>
+        </form>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase mb-2">Snapshots</h4>
+          {snapshots.length === 0 && <p className="text-xs text-slate-500">No snapshots yet. One is taken at every export.</p>}
+          <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+            {snapshots.map(snapshot => (
+              <div key={snapshot.id} className="flex items-center gap-2 text-[11px] bg-slate-900/40 rounded px-2 py-1.5">
+                <div className="flex-1 min-w-0">
+                  <div className="text-slate-200 truncate" title={snapshot.name}>{snapshot.name}</div>
+                  <div className="text-slate-500 font-mono">v{snapshot.version} · {snapshot.sites.length} entries · {new Date(snapshot.timestamp).toLocaleString()}</div>
+                </div>
+                <button onClick={() => rollback(snapshot)} className="text-slate-500 hover:text-fuchsia-400" title="Roll back to this snapshot">
+                  <i className="fas fa-clock-rotate-left"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase mb-2">Compare</h4>
+          <div className="flex items-center gap-2 mb-3">
+            <select value={baseId} onChange={(e) => setBaseId(e.target.value)} className={selectClass}>
+              <option value={CURRENT}>Current registry</option>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+            <i className="fas fa-arrow-right text-slate-600 text-xs"></i>
+            <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={selectClass}>
+              <option value={CURRENT}>Current registry</option>
+              {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
+          <div className="text-xs font-mono mb-2 flex gap-3">
+            <span className="text-emerald-400">+{diff.added.length}</span>
+            <span className="text-rose-400">-{diff.removed.length}</span>
+            <span className="text-amber-400">~{diff.updated.length}</span>
+          </div>
+          <div className="space-y-1 max-h-60 overflow-y-auto pr-1 text-[11px] font-mono">
+            {diff.added.slice(0, MAX_LISTED).map(site => {
+              const source = sourceOf(site.normalized_name);
+              return (
+                <div key={`a-${site.id}`} className="text-emerald-400">
+                  + {site.normalized_name}
+                  {source && <span className="block pl-3 text-slate-500 truncate" title={source}>{source}</span>}
+                </div>
+              );
+            })}
+            {diff.removed.slice(0, MAX_LISTED).map(site => (
+              <div key={`r-${site.id}`} className="text-rose-400">- {site.normalized_name}</div>
+            ))}
+            {diff.updated.slice(0, MAX_LISTED).map(({ site, fields }) => (
+              <div key={`u-${site.id}`} className="text-amber-400">
+                ~ {site.normalized_name} <span className="text-slate-500">{formatFields(fields)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase mb-2">Changelog</h4>
+          {history.entries.length === 0 && <p className="text-xs text-slate-500">No changes recorded yet.</p>}
+          <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+            {history.entries.slice(0, MAX_ENTRIES).map(entry => (
+              <div key={entry.version} className="text-[11px] bg-slate-900/40 rounded px-2 py-1.5">
+                <button onClick={() => setExpandedVersion(expandedVersion === entry.version ? null : entry.version)} className="w-full text-left">
+                  <span className="font-mono text-slate-500 mr-2">v{entry.version}</span>
+                  <span className={`font-bold uppercase mr-2 ${KIND_STYLES[entry.kind]}`}>{entry.kind}</span>
+                  <span className="text-slate-300">{entry.summary}</span>
+                  <span className="block text-slate-600 font-mono">
+                    {new Date(entry.timestamp).toLocaleString()}{entry.actor ? ` · ${entry.actor}` : ''} · {entry.changes.length} change{entry.changes.length === 1 ? '' : 's'}
+                  </span>
+                </button>
+                {expandedVersion === entry.version && (
+                  <div className="mt-1 pl-2 border-l border-slate-700 font-mono text-slate-400 space-y-0.5">
+                    {entry.changes.slice(0, MAX_LISTED).map(change => (
+                      <div key={`${change.action}-${change.name}`}>
+                        {change.action === 'added' ? '+' : change.action === 'removed' ? '-' : '~'} {change.name}
+                        {change.fields && <span className="text-slate-600"> {formatFields(change.fields)}</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegistryHistoryPanel;
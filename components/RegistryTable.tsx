@@ -0,0 +1,343 @@
+import React, { useState, useMemo, useRef, useLayoutEffect } from 'react';
+import { GamblingSite, SiteStatus } from '../types';
+import {
+  RegistryFilter,
+  RegistrySort,
+  RegistrySortKey,
+  createRegistryFilter,
+  isFilterActive,
+  filterSites,
+  sortSites,
+  getSourceDomains,
+} from '../services/registryQuery';
+import { REGION_PROFILES, getSiteRegions } from '../services/regionProfiles';
+import SiteEvidencePanel from './SiteEvidencePanel';
+
+interface RegistryTableProps {
+  sites: GamblingSite[];
+  isAutonomous: boolean;
+  onToggleStatus: (id: string) => void;
+  onDelete: (id: string) => void;
+  onBulkStatus: (ids: string[], status: SiteStatus) => void;
+  onBulkDelete: (ids: string[]) => void;
+}
+
+// Rows have a fixed height so only the slice inside the viewport has to be rendered
+const ROW_HEIGHT = 73;
+const VIEWPORT_HEIGHT = 720;
+const OVERSCAN = 8;
+const MAX_DOMAINS = 200;
+const COLUMNS = 7;
+
+const STATUS_STYLES: Record<SiteStatus, string> = {
+  [SiteStatus.ACTIVE]: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+  [SiteStatus.FLAGGED]: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  [SiteStatus.FALSE_POSITIVE]: 'bg-rose-500/10 text-rose-400 border-rose-500/20',
+};
+
+const SORT_LABELS: Record<RegistrySortKey, string> = {
+  first_seen: 'Discovered',
+  last_seen: 'Last seen',
+  site_name: 'Platform',
+  normalized_name: 'Keyword',
+  confidence_score: 'Confidence',
+  source_count: 'Sources',
+  status: 'Status',
+};
+
+const RegistryTable: React.FC<RegistryTableProps> = ({ sites, isAutonomous, onToggleStatus, onDelete, onBulkStatus, onBulkDelete }) => {
+  const [filter, setFilter] = useState<RegistryFilter>(createRegistryFilter);
+  const [sort, setSort] = useState<RegistrySort>({ key: 'first_seen', direction: 'desc' });
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [expandedSiteId, setExpandedSiteId] = useState<string | null>(null);
+  const [expandedHeight, setExpandedHeight] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const expandedRef = useRef<HTMLTableRowElement>(null);
+
+  const rows = useMemo(() => sortSites(filterSites(sites, filter), sort), [sites, filter, sort]);
+  const domains = useMemo(() => getSourceDomains(sites).slice(0, MAX_DOMAINS), [sites]);
+  // Selections hidden by the current filters are never acted on
+  const selectedIds = useMemo(() => rows.filter(site => selected.has(site.id)).map(site => site.id), [rows, selected]);
+  const allSelected = rows.length > 0 && selectedIds.length === rows.length;
+
+  const expandedIndex = expandedSiteId ? rows.findIndex(site => site.id === expandedSiteId) : -1;
+  const extra = expandedIndex >= 0 ? expandedHeight : 0;
+
+  // The evidence panel is the only row of variable height; keep its last measured size while it is scrolled away
+  useLayoutEffect(() => {
+    if (expandedRef.current) setExpandedHeight(expandedRef.current.offsetHeight);
+  });
+
+  const offsetOf = (index: number) => index * ROW_HEIGHT + (expandedIndex >= 0 && index > expandedIndex ? extra : 0);
+  const indexAt = (y: number) => {
+    if (expandedIndex < 0 || y < (expandedIndex + 1) * ROW_HEIGHT) return Math.floor(y / ROW_HEIGHT);
+    return Math.max(expandedIndex, Math.floor((y - extra) / ROW_HEIGHT));
+  };
+  const start = Math.max(0, indexAt(scrollTop) - OVERSCAN);
+  const end = Math.min(rows.length, indexAt(scrollTop + VIEWPORT_HEIGHT) + OVERSCAN + 1);
+  const topPadding = offsetOf(start);
+  const bottomPadding = offsetOf(rows.length) - offsetOf(end);
+
+  const patchFilter = (patch: Partial<RegistryFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const toggleStatusFilter = (status: SiteStatus) => patchFilter({
+    statuses: filter.statuses.includes(status) ? filter.statuses.filter(s => s !== status) : [...filter.statuses, status],
+  });
+
+  const sortBy = (key: RegistrySortKey) => setSort(prev => ({
+    key,
+    direction: prev.key === key && prev.direction === 'desc' ? 'asc' : 'desc',
+  }));
+
+  const toggleSelected = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(rows.map(site => site.id)));
+
+  const runBulk = (action: (ids: string[]) => void) => {
+    action(selectedIds);
+    setSelected(new Set());
+  };
+
+  const header = (key: RegistrySortKey, label: string, className = '') => (
+    <th className={`px-4 py-4 font-bold ${className}`}>
+      <button onClick={() => sortBy(key)} className={`uppercase tracking-widest hover:text-slate-300 ${sort.key === key ? 'text-slate-300' : ''}`}>
+        {label}
+        {sort.key === key && <i className={`fas fa-arrow-${sort.direction === 'asc' ? 'up' : 'down'} ml-1`}></i>}
+      </button>
+    </th>
+  );
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 outline-none focus:ring-1 focus:ring-indigo-500';
+
+  return (
+    <section className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-2xl">
+      <div className="px-6 py-4 bg-slate-800/80 backdrop-blur border-b border-slate-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <i className={`fas fa-database ${isAutonomous ? 'text-indigo-400' : 'text-emerald-500'}`}></i>
+          Evolving Registry
+        </h2>
+        <div className="flex items-center gap-3">
+          {isAutonomous && (
+            <div className="flex items-center gap-1.5 px-3 py-1 rounded bg-indigo-500/10 border border-indigo-500/20">
+              <div className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-ping"></div>
+              <span className="text-[10px] font-black text-indigo-400 uppercase tracking-tighter">Self-Learning Active</span>
+            </div>
+          )}
+          <span className="bg-emerald-500/10 text-emerald-400 text-xs px-2.5 py-1 rounded-full border border-emerald-500/20 font-bold">
+            {rows.length === sites.length ? `${sites.length} Identified` : `${rows.length} of ${sites.length}`}
+          </span>
+        </div>
+      </div>
+
+      <div className="px-6 py-3 border-b border-slate-700 bg-slate-900/30 flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[180px]">
+          <i className="fas fa-magnifying-glass absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-600 text-xs"></i>
+          <input
+            type="text"
+            value={filter.text}
+            onChange={(e) => patchFilter({ text: e.target.value })}
+            placeholder="Search platform or keyword..."
+            className={`w-full pl-7 ${inputClass}`}
+          />
+        </div>
+        {Object.values(SiteStatus).map(status => (
+          <button
+            key={status}
+            onClick={() => toggleStatusFilter(status)}
+            className={`px-2 py-1 rounded text-[9px] font-black uppercase tracking-widest border ${filter.statuses.includes(status) ? STATUS_STYLES[status] : 'border-slate-700 text-slate-600'}`}
+          >
+            {status}
+          </button>
+        ))}
+        <label className="flex items-center gap-1 text-[10px] text-slate-500 uppercase font-bold">
+          Conf.
+          <input
+            type="number" min={0} max={100}
+            value={Math.round(filter.minConfidence * 100)}
+            onChange={(e) => patchFilter({ minConfidence: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+            className={`w-14 ${inputClass}`}
+          />
+          –
+          <input
+            type="number" min={0} max={100}
+            value={Math.round(filter.maxConfidence * 100)}
+            onChange={(e) => patchFilter({ maxConfidence: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+            className={`w-14 ${inputClass}`}
+          />
+          %
+        </label>
+        <label className="flex items-center gap-1 text-[10px] text-slate-500 uppercase font-bold">
+          Found
+          <input type="date" value={filter.discoveredFrom} onChange={(e) => patchFilter({ discoveredFrom: e.target.value })} className={inputClass} />
+          –
+          <input type="date" value={filter.discoveredTo} onChange={(e) => patchFilter({ discoveredTo: e.target.value })} className={inputClass} />
+        </label>
+        <select value={filter.sourceDomain} onChange={(e) => patchFilter({ sourceDomain: e.target.value })} className={`max-w-[180px] ${inputClass}`}>
+          <option value="">All source domains</option>
+          {domains.map(({ domain, count }) => <option key={domain} value={domain}>{domain} ({count})</option>)}
+        </select>
+        <select value={filter.region} onChange={(e) => patchFilter({ region: e.target.value })} className={inputClass}>
+          <option value="">All regions</option>
+          {REGION_PROFILES.map(region => <option key={region.id} value={region.id}>{region.label}</option>)}
+        </select>
+        <select value={sort.key} onChange={(e) => setSort({ ...sort, key: e.target.value as RegistrySortKey })} className={inputClass} title="Sort by">
+          {(Object.keys(SORT_LABELS) as RegistrySortKey[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+        </select>
+        <button
+          onClick={() => setSort({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+          className={`${inputClass} hover:border-slate-500`}
+          title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+        >
+          <i className={`fas fa-arrow-${sort.direction === 'asc' ? 'up' : 'down'}-wide-short`}></i>
+        </button>
+        {isFilterActive(filter) && (
+          <button onClick={() => setFilter(createRegistryFilter())} className="text-xs text-slate-400 hover:text-white">
+            <i className="fas fa-xmark mr-1"></i>
+            Reset
+          </button>
+        )}
+      </div>
+
+      {selectedIds.length > 0 && (
+        <div className="px-6 py-2 border-b border-slate-700 bg-indigo-500/10 flex items-center gap-3 text-xs">
+          <span className="font-bold text-indigo-300">{selectedIds.length} selected</span>
+          <button onClick={() => runBulk(ids => onBulkStatus(ids, SiteStatus.FALSE_POSITIVE))} className="px-2 py-1 rounded border border-rose-500/30 text-rose-400 hover:bg-rose-500/10">
+            <i className="fas fa-shield-slash mr-1"></i>
+            Flag False Positive
+          </button>
+          <button onClick={() => runBulk(ids => onBulkStatus(ids, SiteStatus.ACTIVE))} className="px-2 py-1 rounded border border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/10">
+            <i className="fas fa-check mr-1"></i>
+            Restore
+          </button>
+          <button onClick={() => runBulk(onBulkDelete)} className="px-2 py-1 rounded border border-slate-600 text-slate-300 hover:text-rose-400 hover:border-rose-500/50">
+            <i className="fas fa-trash-can mr-1"></i>
+            Delete
+          </button>
+          <button onClick={() => setSelected(new Set())} className="ml-auto text-slate-400 hover:text-white">Clear selection</button>
+        </div>
+      )}
+
+      <div className="overflow-auto" style={{ maxHeight: VIEWPORT_HEIGHT }} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-900 text-slate-500 uppercase text-[10px] tracking-widest sticky top-0 z-10">
+            <tr>
+              <th className="pl-6 pr-2 py-4 w-8">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={rows.length === 0} className="accent-indigo-500" title="Select all matching entries" />
+              </th>
+              {header('site_name', 'Platform Identifier')}
+              {header('normalized_name', 'Keyword Signature')}
+              {header('confidence_score', 'Confidence', 'text-center')}
+              {header('source_count', 'Context', 'text-center')}
+              {header('status', 'Status')}
+              <th className="px-6 py-4 font-bold text-right">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={COLUMNS} className="px-6 py-24 text-center text-slate-500">
+                  <div className="bg-slate-900 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4 border border-slate-700">
+                    <i className="fas fa-search-plus text-2xl opacity-20"></i>
+                  </div>
+                  <p className="font-medium text-slate-400">{sites.length === 0 ? 'Knowledge base awaiting seeds.' : 'No entries match the current filters.'}</p>
+                </td>
+              </tr>
+            ) : (
+              <>
+                {topPadding > 0 && <tr style={{ height: topPadding }}><td colSpan={COLUMNS}></td></tr>}
+                {rows.slice(start, end).map(site => (
+                  <React.Fragment key={site.id}>
+                    <tr className={`hover:bg-slate-700/30 transition-all group ${selected.has(site.id) ? 'bg-indigo-500/5' : ''}`} style={{ height: ROW_HEIGHT }}>
+                      <td className="pl-6 pr-2">
+                        <input type="checkbox" checked={selected.has(site.id)} onChange={() => toggleSelected(site.id)} className="accent-indigo-500" />
+                      </td>
+                      <td className="px-4">
+                        <div className="font-semibold text-slate-200 group-hover:text-emerald-400 transition-colors uppercase tracking-tight truncate max-w-[220px]" title={site.site_name}>{site.site_name}</div>
+                        <div className="text-[9px] text-slate-500 mt-0.5 font-mono">
+                          DISCOVERED: {new Date(site.first_seen).toLocaleString()}
+                          <span className="ml-2 text-slate-400 uppercase">{getSiteRegions(site).join(' · ')}</span>
+                        </div>
+                      </td>
+                      <td className="px-4">
+                        <span className="bg-slate-900 px-2 py-1 rounded font-mono text-indigo-400 text-xs border border-indigo-500/10">
+                          {site.normalized_name}
+                        </span>
+                      </td>
+                      <td className="px-4">
+                        <div className="flex flex-col items-center">
+                          <span className={`text-[10px] font-black ${
+                            site.confidence_score > 0.8 ? 'text-emerald-400' :
+                            site.confidence_score > 0.5 ? 'text-amber-400' : 'text-slate-400'
+                          }`}>
+                            {(site.confidence_score * 100).toFixed(0)}%
+                          </span>
+                          <div className="w-16 h-1 bg-slate-700 rounded-full mt-1.5 overflow-hidden">
+                            <div
+                              className={`h-full ${
+                                site.confidence_score > 0.8 ? 'bg-emerald-500' :
+                                site.confidence_score > 0.5 ? 'bg-amber-500' : 'bg-slate-500'
+                              }`}
+                              style={{ width: `${site.confidence_score * 100}%` }}
+                            />
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-4 text-center">
+                        <button
+                          onClick={() => setExpandedSiteId(expandedSiteId === site.id ? null : site.id)}
+                          className="flex items-center justify-center gap-1 mx-auto hover:text-indigo-300"
+                          title="Show evidence"
+                        >
+                          <span className="text-slate-400 font-bold text-xs">{site.source_count}</span>
+                          <i className={`fas ${expandedSiteId === site.id ? 'fa-chevron-up' : 'fa-link'} text-[10px] text-slate-600`}></i>
+                        </button>
+                      </td>
+                      <td className="px-4">
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-widest border ${STATUS_STYLES[site.status]}`}>
+                          {site.status}
+                        </span>
+                      </td>
+                      <td className="px-6">
+                        <div className="flex items-center justify-end gap-1">
+                          <button
+                            onClick={() => onToggleStatus(site.id)}
+                            className="w-8 h-8 rounded-lg bg-slate-900 border border-slate-700 text-slate-500 hover:text-white hover:border-slate-500 transition-all flex items-center justify-center"
+                            title={site.status !== SiteStatus.FALSE_POSITIVE ? "Flag False Positive" : "Restore"}
+                          >
+                            <i className={`fas ${site.status !== SiteStatus.FALSE_POSITIVE ? 'fa-shield-slash' : 'fa-check'}`}></i>
+                          </button>
+                          <button
+                            onClick={() => onDelete(site.id)}
+                            className="w-8 h-8 rounded-lg bg-slate-900 border border-slate-700 text-slate-600 hover:text-rose-400 hover:border-rose-500/50 transition-all flex items-center justify-center"
+                            title="Delete entry"
+                          >
+                            <i className="fas fa-trash-can text-xs"></i>
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedSiteId === site.id && (
+                      <tr ref={expandedRef}>
+                        <td colSpan={COLUMNS} className="p-0">
+                          <SiteEvidencePanel site={site} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+                {bottomPadding > 0 && <tr style={{ height: bottomPadding }}><td colSpan={COLUMNS}></td></tr>}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default RegistryTable;
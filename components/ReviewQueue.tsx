@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GamblingSite, ReviewVerdict } from '../types';
+import { getReviewQueue } from '../services/reviewQueue';
+import { MirrorSuggestion, getFamilyLabel } from '../services/brandFamilies';
+
+interface ReviewQueueProps {
+  sites: GamblingSite[];
+  reviewer: string;
+  onReviewerChange: (reviewer: string) => void;
+  onDecision: (siteId: string, verdict: ReviewVerdict, note: string) => void;
+  suggestions?: MirrorSuggestion[];
+}
+
+const MAX_UPCOMING = 8;
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ sites, reviewer, onReviewerChange, onDecision, suggestions = [] }) => {
+  const queue = getReviewQueue(sites);
+  const [index, setIndex] = useState(0);
+  const [note, setNote] = useState('');
+  const noteRef = useRef<HTMLInputElement>(null);
+
+  const current = queue[Math.min(index, queue.length - 1)];
+  const mirrorOf = current && suggestions.find(suggestion => suggestion.site.id === current.id)?.family;
+
+  const decide = (verdict: ReviewVerdict) => {
+    if (!current) return;
+    onDecision(current.id, verdict, note);
+    setNote('');
+  };
+
+  // Keyboard triage: A approve, R reject, J/K or arrows to move, N to write a note
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (isTypingTarget(e.target)) {
+        if (e.key === 'Escape') (e.target as HTMLElement).blur();
+        if (e.key === 'Enter' && e.target === noteRef.current) decide('approved');
+        return;
+      }
+      switch (e.key) {
+        case 'a':
+          decide('approved');
+          break;
+        case 'r':
+          decide('rejected');
+          break;
+        case 'j':
+        case 'ArrowDown':
+          setIndex(i => Math.min(i + 1, queue.length - 1));
+          break;
+        case 'k':
+        case 'ArrowUp':
+          setIndex(i => Math.max(i - 1, 0));
+          break;
+        case 'n':
+          e.preventDefault();
+          noteRef.current?.focus();
+          break;
+        default:
+          return;
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  if (queue.length === 0) return null;
+
+  return (
+    <section className="bg-slate-800 rounded-xl border border-amber-500/30 overflow-hidden shadow-2xl mb-8">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <i className="fas fa-gavel text-amber-400"></i>
+          Review Queue
+          <span className="bg-amber-500/10 text-amber-400 text-xs px-2.5 py-1 rounded-full border border-amber-500/20 font-bold">
+            {queue.length} pending
+          </span>
+        </h2>
+        <input
+          type="text"
+          value={reviewer}
+          onChange={(e) => onReviewerChange(e.target.value)}
+          placeholder="Reviewer name"
+          className="w-40 bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-amber-500 outline-none"
+        />
+      </div>
+
+      {current && (
+        <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="md:col-span-2 space-y-3">
+            <div>
+              <div className="text-2xl font-bold text-slate-100 uppercase tracking-tight">{current.site_name}</div>
+              <div className="flex items-center gap-3 mt-1 text-xs font-mono">
+                <span className="bg-slate-900 px-2 py-1 rounded text-indigo-400 border border-indigo-500/10">{current.normalized_name}</span>
+                <span className="text-amber-400 font-bold">{(current.confidence_score * 100).toFixed(0)}% confidence</span>
+                <span className="text-slate-500">{current.source_count} source(s)</span>
+              </div>
+              {mirrorOf && (
+                <div className="mt-2 text-xs text-amber-300">
+                  <i className="fas fa-wand-magic-sparkles mr-1"></i>
+                  Suggested: looks like a new mirror of flagged family <span className="font-mono">{getFamilyLabel(mirrorOf)}</span>
+                </div>
+              )}
+            </div>
+            {current.sources.length > 0 && (
+              <ul className="text-[11px] font-mono text-slate-400 space-y-0.5">
+                {current.sources.slice(0, 5).map(source => (
+                  <li key={source} className="truncate">
+                    {/* Chat streams, API reporters and ungrounded models are cited by id rather than URL */}
+                    {/^https?:\/\//.test(source)
+                      ? <a href={source} target="_blank" rel="noreferrer" className="hover:text-slate-200">{source}</a>
+                      : source}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {current.review_history.length > 0 && (
+              <div className="text-[10px] font-mono text-slate-500 space-y-0.5">
+                {current.review_history.map((decision, i) => (
+                  <div key={i}>
+                    {new Date(decision.timestamp).toLocaleString()} · {decision.reviewer} {decision.verdict}
+                    {decision.note && <span className="text-slate-400"> — {decision.note}</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+            <input
+              ref={noteRef}
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional note (N to focus, Enter to approve)"
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-amber-500 outline-none"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={() => decide('approved')}
+                className="flex-1 py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white transition-colors"
+              >
+                <i className="fas fa-check"></i>
+                Approve <kbd className="text-[10px] opacity-60">A</kbd>
+              </button>
+              <button
+                onClick={() => decide('rejected')}
+                className="flex-1 py-2.5 rounded-lg font-bold flex items-center justify-center gap-2 bg-rose-600 hover:bg-rose-500 text-white transition-colors"
+              >
+                <i className="fas fa-ban"></i>
+                Reject <kbd className="text-[10px] opacity-60">R</kbd>
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] text-slate-500 uppercase font-bold mb-2">Up next · J/K to move</div>
+            <ul className="space-y-1">
+              {queue.slice(0, MAX_UPCOMING).map((site, i) => (
+                <li key={site.id}>
+                  <button
+                    onClick={() => setIndex(i)}
+                    className={`w-full text-left px-3 py-1.5 rounded text-xs font-mono flex justify-between ${
+                      site.id === current.id ? 'bg-amber-500/10 text-amber-300 border border-amber-500/30' : 'text-slate-400 hover:bg-slate-700/30'
+                    }`}
+                  >
+                    <span className="truncate">{site.normalized_name}</span>
+                    <span>{(site.confidence_score * 100).toFixed(0)}%</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ReviewQueue;
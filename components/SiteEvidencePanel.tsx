@@ -0,0 +1,66 @@
+import React from 'react';
+import { GamblingSite } from '../types';
+
+interface SiteEvidencePanelProps {
+  site: GamblingSite;
+}
+
+const SiteEvidencePanel: React.FC<SiteEvidencePanelProps> = ({ site }) => {
+  // Sources recorded before per-sighting evidence existed only have a URL
+  const legacySources = site.sources.filter(url => !site.evidence.some(e => e.url === url));
+
+  return (
+    <div className="bg-slate-900/60 border-l-2 border-indigo-500/40 px-6 py-4 space-y-3">
+      {site.domain_intel && (
+        <div className="text-[11px] font-mono space-y-0.5">
+          <div className="text-[10px] text-slate-500 uppercase font-bold font-sans">Domain Intel</div>
+          <div className="text-slate-300">
+            {site.domain_intel.domain} <span className="text-slate-500">· .{site.domain_intel.tld}</span>
+            {site.domain_intel.blocklisted && <span className="text-rose-400"> · listed in {site.domain_intel.blocklist_label}</span>}
+            {site.domain_intel.live === false && <span className="text-slate-500"> · not resolving</span>}
+          </div>
+          {site.domain_intel.redirect_chain.length > 1 && (
+            <div className="text-slate-400">redirects: {site.domain_intel.redirect_chain.join(' → ')}</div>
+          )}
+          {site.domain_intel.aliases.length > 0 && (
+            <div className="text-slate-400">aliases: {site.domain_intel.aliases.join(', ')}</div>
+          )}
+          {site.domain_intel.signals.length > 0 && (
+            <div className="text-slate-500">
+              {site.domain_intel.signals.join(', ')} · confidence {site.domain_intel.confidence_delta >= 0 ? '+' : ''}{(site.domain_intel.confidence_delta * 100).toFixed(0)}%
+            </div>
+          )}
+          <div className="text-slate-600">checked {new Date(site.domain_intel.checked_at).toLocaleString()}</div>
+        </div>
+      )}
+      <div className="text-[10px] text-slate-500 uppercase font-bold">
+        Evidence · {site.evidence.length} sighting(s) across {site.source_count} source(s)
+      </div>
+      {site.evidence.length === 0 && legacySources.length === 0 && (
+        <p className="text-xs text-slate-500">No grounding evidence was attributed to this entry.</p>
+      )}
+      {[...site.evidence].reverse().map((evidence, i) => (
+        <div key={`${evidence.url}-${i}`} className="text-[11px] font-mono">
+          <a href={evidence.url} target="_blank" rel="noreferrer" className="text-indigo-400 hover:text-indigo-300 break-all">
+            {evidence.title || evidence.url}
+          </a>
+          <p className="text-slate-300 mt-0.5">“{evidence.snippet}”</p>
+          <div className="text-slate-500 mt-0.5">
+            query: {evidence.query || '—'} · {new Date(evidence.timestamp).toLocaleString()}
+          </div>
+        </div>
+      ))}
+      {legacySources.length > 0 && (
+        <ul className="text-[11px] font-mono text-slate-500 space-y-0.5">
+          {legacySources.map(url => (
+            <li key={url} className="break-all">
+              <a href={url} target="_blank" rel="noreferrer" className="hover:text-slate-300">{url}</a> <span>(no snippet recorded)</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SiteEvidencePanel;
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AgentLog, DiscoveryProvider, GamblingSite } from "../types";
+import { AgentEngineOptions, AgentEvent, createAgentEngine } from "./agentEngine";
+import { createFixtureProvider } from "./fixtureProvider";
+import { createStrategyState, StrategyState } from "./queryStrategy";
+import { CycleRecord } from "./discoveryAnalytics";
+
+const setup = (provider: DiscoveryProvider, overrides: Partial<AgentEngineOptions> = {}) => {
+  let sites: GamblingSite[] = [];
+  let strategy: StrategyState = createStrategyState();
+  const logs: Omit<AgentLog, 'timestamp'>[] = [];
+  const cycles: CycleRecord[] = [];
+
+  const engine = createAgentEngine({
+    getSites: () => sites,
+    getProvider: () => provider,
+    getStrategy: () => strategy,
+    getSeedQuery: () => 'situs slot gacor',
+    cycleDelaySeconds: 15,
+    analyzeDelayMs: 1000,
+    ...overrides,
+  });
+  engine.subscribe((event: AgentEvent) => {
+    if (event.type === 'sites') sites = event.sites;
+    if (event.type === 'strategy') strategy = event.state;
+    if (event.type === 'log') logs.push(event.entry);
+    if (event.type === 'cycle') cycles.push(event.record);
+  });
+
+  return { engine, logs, cycles, getSites: () => sites };
+};
+
+const failingProvider = (failures: number): DiscoveryProvider => {
+  const fixtures = createFixtureProvider();
+  let calls = 0;
+  return {
+    id: 'flaky',
+    label: 'Flaky stub',
+    discover: vi.fn(async (...args: Parameters<DiscoveryProvider['discover']>) => {
+      calls++;
+      if (calls <= failures) throw new Error('backend unavailable');
+      return fixtures.discover(...args);
+    }),
+  };
+};
+
+describe('agent engine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs a manual cycle against the fixture provider and tags its log entries', async () => {
+    const { engine, logs, cycles, getSites } = setup(createFixtureProvider());
+
+    const run = engine.runOnce('gacor88 zeus138');
+    expect(engine.getSnapshot().state).toBe('analyzing');
+    await vi.advanceTimersByTimeAsync(1000);
+    await run;
+
+    const names = getSites().map(site => site.normalized_name);
+    expect(names).toContain('gacor88');
+    expect(names).toContain('zeus138');
+    expect(engine.getSnapshot()).toMatchObject({ state: 'idle', cycleCount: 0, failureStreak: 0, currentQuery: null });
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]).toMatchObject({ query: 'gacor88 zeus138', mode: 'manual', added: getSites().length });
+    const cycleLogs = logs.filter(entry => entry.cycleId === cycles[0].id);
+    expect(cycleLogs.map(entry => entry.kind)).toEqual(expect.arrayContaining(['cycle_start', 'search', 'sites_added', 'cycle_complete']));
+  });
+
+  it('waits out the cooldown between autonomous cycles', async () => {
+    const provider = createFixtureProvider();
+    const discover = vi.spyOn(provider, 'discover');
+    const { engine } = setup(provider);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(discover).toHaveBeenCalledTimes(1);
+    expect(engine.getSnapshot()).toMatchObject({ state: 'cooling_down', countdown: 15, cycleCount: 1 });
+
+    await vi.advanceTimersByTimeAsync(14000);
+    expect(discover).toHaveBeenCalledTimes(1);
+    expect(engine.getSnapshot().countdown).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(discover).toHaveBeenCalledTimes(2);
+    expect(engine.getSnapshot().cycleCount).toBe(2);
+
+    engine.stop();
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(discover).toHaveBeenCalledTimes(2);
+    expect(engine.getSnapshot().state).toBe('idle');
+  });
+
+  it('backs off exponentially after failures and recovers on success', async () => {
+    const provider = failingProvider(2);
+    const { engine, logs } = setup(provider);
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(engine.getSnapshot()).toMatchObject({ failureStreak: 1, countdown: 30, lastError: 'backend unavailable' });
+
+    await vi.advanceTimersByTimeAsync(31000);
+    expect(engine.getSnapshot()).toMatchObject({ failureStreak: 2, countdown: 60 });
+    expect(logs.filter(entry => entry.kind === 'backoff').map(entry => entry.payload?.delaySeconds)).toEqual([30, 60]);
+    expect(logs.filter(entry => entry.kind === 'cycle_error')).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(61000);
+    expect(provider.discover).toHaveBeenCalledTimes(3);
+    expect(engine.getSnapshot()).toMatchObject({ failureStreak: 0, lastError: null, state: 'cooling_down', countdown: 15 });
+    engine.stop();
+  });
+
+  it('caps the backoff at the maximum error delay', async () => {
+    const { engine } = setup(failingProvider(10), { maxErrorDelaySeconds: 40 });
+
+    engine.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(31000);
+    expect(engine.getSnapshot()).toMatchObject({ failureStreak: 2, countdown: 40 });
+    engine.stop();
+  });
+
+  it('pauses after the cycle in flight and resumes with the remaining countdown', async () => {
+    const provider = createFixtureProvider();
+    const discover = vi.spyOn(provider, 'discover');
+    const { engine } = setup(provider);
+
+    engine.start();
+    engine.pause();
+    expect(engine.getSnapshot().state).toBe('analyzing');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(engine.getSnapshot()).toMatchObject({ state: 'paused', countdown: 15 });
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(discover).toHaveBeenCalledTimes(1);
+
+    engine.resume();
+    await vi.advanceTimersByTimeAsync(16000);
+    expect(discover).toHaveBeenCalledTimes(2);
+    engine.stop();
+  });
+});
@@ -0,0 +1,322 @@
+import { AgentLog, DiscoveryProvider, GamblingSite } from "../types";
+import { performDiscovery } from "./discoveryService";
+import { mergeSites } from "./registryMerge";
+import { createValidationLog, LogDetails } from "./agentLog";
+import { planNextQuery, recordQueryOutcome, QueryPlan, StrategyState } from "./queryStrategy";
+import { BudgetExceededError } from "./requestScheduler";
+import { AllowlistMatcher, AllowlistedSite } from "./allowlist";
+import { EnrichmentOptions } from "./domainIntel";
+import { createCycleRecord, CycleRecord } from "./discoveryAnalytics";
+import { DEFAULT_REGION_ID } from "./regionProfiles";
+
+export type AgentState = 'idle' | 'analyzing' | 'searching' | 'cooling_down' | 'paused' | 'error';
+
+export interface AgentSnapshot {
+  state: AgentState;
+  // True while the self-driving loop is engaged, including while it is paused
+  autonomous: boolean;
+  cycleCount: number;
+  // Seconds until the next autonomous cycle (cooling down) or left over when paused
+  countdown: number;
+  failureStreak: number;
+  currentQuery: string | null;
+  lastError: string | null;
+}
+
+export type AgentEvent =
+  | { type: 'state'; snapshot: AgentSnapshot }
+  | { type: 'log'; entry: Omit<AgentLog, 'timestamp'> }
+  | { type: 'sites'; sites: GamblingSite[]; query: string }
+  | { type: 'strategy'; state: StrategyState }
+  | { type: 'cycle'; record: CycleRecord };
+
+export interface EngineTimers {
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export interface AgentEngineOptions {
+  // Read at the moment they are needed, so the engine never works from a stale copy
+  getSites: () => GamblingSite[];
+  getProvider: () => DiscoveryProvider;
+  getStrategy: () => StrategyState;
+  getSeedQuery: () => string;
+  getAllowlist?: () => AllowlistMatcher;
+  getEnrichment?: () => EnrichmentOptions | undefined;
+  // Region profile id the cycle's prompt, templates and normalization come from
+  getRegion?: () => string;
+  timers?: EngineTimers;
+  cycleDelaySeconds?: number;
+  maxErrorDelaySeconds?: number;
+  analyzeDelayMs?: number;
+}
+
+export interface AgentEngine {
+  getSnapshot(): AgentSnapshot;
+  subscribe(listener: (event: AgentEvent) => void): () => void;
+  runOnce(query?: string): Promise<void>;
+  // Runs one cycle with a query chosen by the strategy, without engaging the loop
+  runPlanned(): Promise<void>;
+  start(): void;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  restoreCycleCount(count: number): void;
+}
+
+const defaultTimers: EngineTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+export const createAgentEngine = (options: AgentEngineOptions): AgentEngine => {
+  const timers = options.timers ?? defaultTimers;
+  const cycleDelay = options.cycleDelaySeconds ?? 15;
+  const maxErrorDelay = options.maxErrorDelaySeconds ?? 300;
+  const analyzeDelay = options.analyzeDelayMs ?? 1000;
+
+  let snapshot: AgentSnapshot = {
+    state: 'idle',
+    autonomous: false,
+    cycleCount: 0,
+    countdown: 0,
+    failureStreak: 0,
+    currentQuery: null,
+    lastError: null,
+  };
+  let tickHandle: unknown = null;
+  let pauseRequested = false;
+  // Id and query of the cycle in flight; every log entry written during it is tagged with them
+  let cycle: { id: string; query: string } | null = null;
+  const listeners = new Set<(event: AgentEvent) => void>();
+
+  const emit = (event: AgentEvent) => listeners.forEach(listener => listener(event));
+
+  const update = (patch: Partial<AgentSnapshot>) => {
+    snapshot = { ...snapshot, ...patch };
+    emit({ type: 'state', snapshot });
+  };
+
+  const logEntry = (entry: Omit<AgentLog, 'timestamp'>) =>
+    emit({ type: 'log', entry: cycle ? { cycleId: cycle.id, query: cycle.query, ...entry } : entry });
+
+  const log = (message: string, type: AgentLog['type'] = 'info', details: LogDetails = {}) => logEntry({ message, type, ...details });
+
+  const logBlocked = (blocked: AllowlistedSite[], stage: 'extraction' | 'merge') =>
+    blocked.forEach(({ site, reason }) => log(`Allowlist blocked "${site.normalized_name}" during ${stage}: ${reason}.`, 'warning', {
+      kind: 'allowlist',
+      payload: { name: site.normalized_name, reason, stage },
+    }));
+
+  const isBusy = () => snapshot.state === 'analyzing' || snapshot.state === 'searching';
+
+  const sleep = (ms: number) => new Promise<void>(resolve => timers.setTimeout(resolve, ms));
+
+  const clearTick = () => {
+    if (tickHandle !== null) timers.clearTimeout(tickHandle);
+    tickHandle = null;
+  };
+
+  const tick = () => {
+    tickHandle = timers.setTimeout(() => {
+      tickHandle = null;
+      if (snapshot.countdown <= 1) {
+        update({ countdown: 0 });
+        runAutonomousCycle();
+      } else {
+        update({ countdown: snapshot.countdown - 1 });
+        tick();
+      }
+    }, 1000);
+  };
+
+  const scheduleNext = (seconds: number) => {
+    clearTick();
+    if (seconds <= 0) {
+      runAutonomousCycle();
+      return;
+    }
+    update({ state: 'cooling_down', countdown: seconds });
+    tick();
+  };
+
+  // Decides what happens once a cycle settles: wait for the next one, hold for resume, or go quiet
+  const settle = (delaySeconds: number, failed: boolean) => {
+    if (!snapshot.autonomous) {
+      update({ state: failed ? 'error' : 'idle', countdown: 0 });
+    } else if (pauseRequested) {
+      pauseRequested = false;
+      update({ state: 'paused', countdown: delaySeconds });
+    } else {
+      scheduleNext(delaySeconds);
+    }
+  };
+
+  const runCycle = async (query: string, plan?: QueryPlan) => {
+    const region = options.getRegion?.() ?? DEFAULT_REGION_ID;
+    const mode = !plan ? 'manual' : snapshot.autonomous ? 'autonomous' : 'planned';
+    const startedAt = Date.now();
+    cycle = { id: Math.random().toString(36).substr(2, 9), query };
+    update({ state: 'analyzing', currentQuery: query });
+    if (plan) {
+      log(`Autonomous trigger: Evolving search based on "${plan.query}"`, 'info', { kind: 'plan', payload: { templateId: plan.templateId } });
+    }
+    log(`Analyzing current registry for existing patterns...`, 'info', { kind: 'cycle_start', payload: { mode, region } });
+    const knownPatterns = options.getSites().map(s => s.normalized_name);
+    if (knownPatterns.length > 0) {
+      log(`Knowledge base primed with ${knownPatterns.length} existing entries.`, 'success', { kind: 'knowledge', payload: { known: knownPatterns.length } });
+    }
+    await sleep(analyzeDelay);
+
+    update({ state: 'searching' });
+    log(`Initiating context-aware search for: "${query}"`, 'info', { kind: 'search' });
+
+    try {
+      const allowlist = options.getAllowlist?.();
+      const { sites: newSites, sources, logs: providerLogs, issues, received, blocked } = await performDiscovery(query, knownPatterns, options.getProvider(), allowlist, options.getEnrichment?.(), region);
+      providerLogs.forEach(message => log(message, 'info', { kind: 'provider' }));
+      if (issues.length > 0) {
+        logEntry(createValidationLog(issues, received, newSites.length));
+      }
+      if (sources.length > 0) {
+        log(`Successfully indexed ${sources.length} public sources.`, 'success', { kind: 'sources', payload: { sources } });
+      }
+
+      logBlocked(blocked, 'extraction');
+
+      // The allowlist may have changed while the provider was answering
+      const { sites: merged, added, updated, blocked: blockedAtMerge } = mergeSites(options.getSites(), newSites, options.getAllowlist?.());
+      logBlocked(blockedAtMerge, 'merge');
+      emit({ type: 'sites', sites: merged, query });
+      const addedPayload = { sites: added.map(site => ({ id: site.id, name: site.normalized_name, confidence: site.confidence_score })) };
+      if (added.length > 0) {
+        log(`Learned ${added.length} new unique site signatures.`, 'success', { kind: 'sites_added', payload: addedPayload });
+      } else {
+        log(`No new unique signatures found in this cycle.`, 'warning', { kind: 'sites_added', payload: addedPayload });
+      }
+      if (updated.length > 0) {
+        log(`Reinforced ${updated.length} known signatures with new sightings.`, 'info', {
+          kind: 'sites_updated',
+          payload: { names: updated.map(site => site.normalized_name) },
+        });
+      }
+      if (plan) {
+        emit({ type: 'strategy', state: recordQueryOutcome(options.getStrategy(), plan, added.length) });
+      }
+      emit({ type: 'cycle', record: createCycleRecord(cycle.id, query, mode, region, plan?.templateId ?? null, added.length, updated.length) });
+
+      log(`Discovery cycle complete.`, 'success', {
+        kind: 'cycle_complete',
+        payload: { mode, region, added: added.length, updated: updated.length, durationMs: Date.now() - startedAt },
+      });
+      cycle = null;
+      update({
+        failureStreak: 0,
+        lastError: null,
+        currentQuery: null,
+        cycleCount: snapshot.autonomous ? snapshot.cycleCount + 1 : snapshot.cycleCount,
+      });
+      settle(cycleDelay, false);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        log(snapshot.autonomous ? `${error.message}. Autonomous mode paused until the budget resets.` : `${error.message}.`, 'warning', { kind: 'budget' });
+        cycle = null;
+        update({ lastError: error.message, currentQuery: null });
+        if (snapshot.autonomous) pauseRequested = true;
+        settle(0, true);
+        return;
+      }
+
+      const streak = snapshot.failureStreak + 1;
+      log(`Error during discovery: ${errorMessage(error)}`, 'error', { kind: 'cycle_error', payload: { error: errorMessage(error), failureStreak: streak } });
+      cycle = null;
+      update({ failureStreak: streak, lastError: errorMessage(error), currentQuery: null });
+      // Consecutive failures stretch the cooldown so a failing backend is not hammered
+      const delay = Math.min(cycleDelay * Math.pow(2, streak), maxErrorDelay);
+      if (snapshot.autonomous && !pauseRequested) {
+        log(`Backing off for ${delay}s after ${streak} consecutive failure(s).`, 'warning', { kind: 'backoff', payload: { delaySeconds: delay, failureStreak: streak } });
+      }
+      settle(delay, true);
+    }
+  };
+
+  const runPlannedCycle = () => {
+    // Pick the template and seed with the best expected yield, skipping recent queries
+    const plan = planNextQuery(options.getStrategy(), options.getSites(), options.getSeedQuery(), Math.random, options.getRegion?.() ?? DEFAULT_REGION_ID);
+    return runCycle(plan.query, plan);
+  };
+
+  const runAutonomousCycle = () => {
+    void runPlannedCycle();
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async runOnce(query) {
+      const queryToUse = query ?? options.getSeedQuery();
+      if (!queryToUse.trim() || isBusy()) return;
+      clearTick();
+      // A manual run while paused must not silently resume the loop
+      if (snapshot.state === 'paused') pauseRequested = true;
+      await runCycle(queryToUse);
+    },
+
+    async runPlanned() {
+      if (isBusy()) return;
+      clearTick();
+      if (snapshot.state === 'paused') pauseRequested = true;
+      await runPlannedCycle();
+    },
+
+    start() {
+      if (snapshot.autonomous) return;
+      pauseRequested = false;
+      update({ autonomous: true, lastError: null });
+      log("Autonomous Mode ACTIVATED. Agent will now evolve self-queries.", "warning", { kind: 'mode', payload: { action: 'start' } });
+      if (!isBusy()) scheduleNext(0);
+    },
+
+    pause() {
+      if (!snapshot.autonomous || snapshot.state === 'paused') return;
+      log("Autonomous Mode PAUSED.", "info", { kind: 'mode', payload: { action: 'pause' } });
+      if (isBusy()) {
+        pauseRequested = true;
+        return;
+      }
+      clearTick();
+      update({ state: 'paused' });
+    },
+
+    resume() {
+      if (snapshot.state !== 'paused') {
+        pauseRequested = false;
+        return;
+      }
+      log("Autonomous Mode RESUMED.", "info", { kind: 'mode', payload: { action: 'resume' } });
+      update({ lastError: null });
+      scheduleNext(snapshot.countdown);
+    },
+
+    stop() {
+      if (!snapshot.autonomous) return;
+      clearTick();
+      pauseRequested = false;
+      update({ autonomous: false, countdown: 0, state: isBusy() ? snapshot.state : 'idle' });
+      log("Autonomous Mode DEACTIVATED.", "info", { kind: 'mode', payload: { action: 'stop' } });
+    },
+
+    restoreCycleCount(count) {
+      update({ cycleCount: count });
+    },
+  };
+};
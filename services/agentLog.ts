@@ -0,0 +1,98 @@
+import { AgentLog, ValidationIssue } from "../types";
+
+export const LOG_RETENTION_META_KEY = 'logRetention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LogRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+}
+
+export const DEFAULT_LOG_RETENTION: LogRetention = { maxEntries: 5000, maxAgeDays: 14 };
+
+export type LogDetails = Pick<AgentLog, 'kind' | 'cycleId' | 'query' | 'payload'>;
+
+export interface LogFilter {
+  type: AgentLog['type'] | 'all';
+  kind: string;
+  cycleId: string;
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { type: 'all', kind: 'all', cycleId: 'all' };
+
+export interface LogCycle {
+  cycleId: string;
+  query: string;
+  timestamp: string;
+}
+
+export const createLogEntry = (message: string, type: AgentLog['type'] = 'info', details: LogDetails = {}): AgentLog => ({
+  timestamp: new Date().toISOString(),
+  message,
+  type,
+  ...details,
+});
+
+export const restoreLogRetention = (saved: Partial<LogRetention> | null | undefined): LogRetention => ({
+  ...DEFAULT_LOG_RETENTION,
+  ...saved,
+});
+
+// Entries written before the log was structured carry a locale time of day that does not parse
+const getLogTime = (log: AgentLog) => Date.parse(log.timestamp);
+
+// Newest first; undated legacy entries keep their relative order at the end
+export const sortLogsNewestFirst = (logs: AgentLog[]): AgentLog[] =>
+  logs
+    .map((log, index) => ({ log, index, time: getLogTime(log) }))
+    .sort((a, b) => {
+      const ta = Number.isNaN(a.time) ? -Infinity : a.time;
+      const tb = Number.isNaN(b.time) ? -Infinity : b.time;
+      return tb - ta || a.index - b.index;
+    })
+    .map(({ log }) => log);
+
+// Undated legacy entries never expire by age; they only fall out through the entry cap
+export const isLogExpired = (log: AgentLog, retention: LogRetention, now = new Date()): boolean =>
+  getLogTime(log) < now.getTime() - retention.maxAgeDays * DAY_MS;
+
+// Expects the newest entry first
+export const applyLogRetention = (logs: AgentLog[], retention: LogRetention, now = new Date()): AgentLog[] =>
+  logs.filter(log => !isLogExpired(log, retention, now)).slice(0, retention.maxEntries);
+
+export const filterLogs = (logs: AgentLog[], filter: LogFilter): AgentLog[] =>
+  logs.filter(log =>
+    (filter.type === 'all' || log.type === filter.type) &&
+    (filter.kind === 'all' || (log.kind ?? 'message') === filter.kind) &&
+    (filter.cycleId === 'all' || log.cycleId === filter.cycleId)
+  );
+
+export const getLogKinds = (logs: AgentLog[]): string[] =>
+  Array.from(new Set(logs.map(log => log.kind ?? 'message'))).sort();
+
+// Cycles present in the log, newest first, labelled by the query they ran
+export const getLogCycles = (logs: AgentLog[]): LogCycle[] => {
+  const cycles = new Map<string, LogCycle>();
+  logs.forEach(log => {
+    if (log.cycleId && !cycles.has(log.cycleId)) {
+      cycles.set(log.cycleId, { cycleId: log.cycleId, query: log.query ?? '', timestamp: log.timestamp });
+    }
+  });
+  return Array.from(cycles.values());
+};
+
+// One JSON object per line in chronological order, as audit tooling expects
+export const serializeLogsJsonl = (logs: AgentLog[]): string =>
+  [...logs].reverse().map(log => JSON.stringify(log)).join('\n') + (logs.length > 0 ? '\n' : '');
+
+// Summarizes one response's validation outcome as a single structured log entry
+export const createValidationLog = (issues: ValidationIssue[], received: number, accepted: number): Omit<AgentLog, 'timestamp'> => {
+  const rejected = issues.filter(issue => issue.action === 'rejected').length;
+  const repaired = issues.filter(issue => issue.action === 'repaired').length;
+  return {
+    message: `Validated model output: ${accepted}/${received} accepted, ${rejected} rejected, ${repaired} repaired.`,
+    type: rejected > 0 ? 'warning' : 'info',
+    kind: 'validation',
+    payload: { received, accepted, rejected, repaired, issues },
+  };
+};
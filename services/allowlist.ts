@@ -0,0 +1,127 @@
+import { GamblingSite } from "../types";
+import { normalizeKeyword } from "./keywordNormalizer";
+import { STARTER_ALLOWLIST_TERMS } from "./allowlistDictionary";
+import { RegistryStore } from "./registryStore";
+import { REGION_PROFILES } from "./regionProfiles";
+
+export type AllowlistRuleKind = 'exact' | 'prefix' | 'regex';
+
+export interface AllowlistRule {
+  id: string;
+  kind: AllowlistRuleKind;
+  pattern: string;
+  note?: string;
+}
+
+export interface AllowlistSettings {
+  rules: AllowlistRule[];
+  useStarterDictionary: boolean;
+}
+
+export interface AllowlistMatcher {
+  // Returns why a normalized keyword must not be blocked, or null when it may be
+  check(normalized: string): string | null;
+}
+
+export interface AllowlistedSite {
+  site: GamblingSite;
+  reason: string;
+}
+
+export const ALLOWLIST_META_KEY = 'allowlist';
+
+export const createAllowlistSettings = (): AllowlistSettings => ({ rules: [], useStarterDictionary: true });
+
+export const restoreAllowlistSettings = (saved: Partial<AllowlistSettings> | undefined): AllowlistSettings =>
+  ({ ...createAllowlistSettings(), ...saved });
+
+export const createAllowlistRule = (kind: AllowlistRuleKind, pattern: string, note?: string): AllowlistRule => {
+  const trimmed = pattern.trim();
+  if (!trimmed) throw new Error('Pattern must not be empty');
+  if (kind === 'regex') {
+    try {
+      new RegExp(trimmed, 'i');
+    } catch {
+      throw new Error(`Invalid regular expression: ${trimmed}`);
+    }
+  } else if (!normalizeKeyword(trimmed)) {
+    throw new Error(`"${trimmed}" has no letters or digits left after normalization`);
+  }
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    kind,
+    pattern: trimmed,
+    ...(note?.trim() ? { note: note.trim() } : {}),
+  };
+};
+
+const ALL_REGION_IDS = REGION_PROFILES.map(region => region.id);
+
+// The starter dictionary includes the everyday words of each region in `regionIds`; exports meant for
+// every region check them all
+export const createAllowlistMatcher = (settings: AllowlistSettings, regionIds: string[] = ALL_REGION_IDS): AllowlistMatcher => {
+  const terms = new Map<string, string>();
+  const addTerm = (raw: string, label: string) => {
+    const normalized = normalizeKeyword(raw);
+    if (normalized && !terms.has(normalized)) terms.set(normalized, label);
+  };
+  if (settings.useStarterDictionary) {
+    STARTER_ALLOWLIST_TERMS.forEach(term => addTerm(term, 'starter dictionary'));
+    REGION_PROFILES
+      .filter(region => regionIds.includes(region.id))
+      .forEach(region => region.allowlistTerms.forEach(term => addTerm(term, `${region.label} dictionary`)));
+  }
+  settings.rules.filter(rule => rule.kind === 'exact').forEach(rule => addTerm(rule.pattern, 'allowlist'));
+
+  const prefixes = settings.rules
+    .filter(rule => rule.kind === 'prefix')
+    .map(rule => ({ rule, prefix: normalizeKeyword(rule.pattern) }))
+    .filter(({ prefix }) => prefix.length > 0);
+  const regexes = settings.rules
+    .filter(rule => rule.kind === 'regex')
+    .flatMap(rule => {
+      try {
+        return [{ rule, regex: new RegExp(rule.pattern, 'i') }];
+      } catch {
+        return [];
+      }
+    });
+  const termList = Array.from(terms.entries());
+
+  return {
+    check(normalized) {
+      if (!normalized) return null;
+      const exact = terms.get(normalized);
+      if (exact) return `"${normalized}" is an allowlisted term (${exact})`;
+
+      const prefix = prefixes.find(({ prefix }) => normalized.startsWith(prefix));
+      if (prefix) return `matches allowlisted prefix "${prefix.rule.pattern}"`;
+
+      const regex = regexes.find(({ regex }) => regex.test(normalized));
+      if (regex) return `matches allowlisted pattern /${regex.rule.pattern}/`;
+
+      // Chat filters match substrings, so a keyword inside an everyday word would hide that word too
+      const collision = termList.find(([term]) => term.length > normalized.length && term.includes(normalized));
+      if (collision) return `would also block allowlisted word "${collision[0]}" (${collision[1]})`;
+
+      return null;
+    },
+  };
+};
+
+export const loadStoredAllowlist = async (store: RegistryStore, regionIds?: string[]): Promise<AllowlistMatcher> =>
+  createAllowlistMatcher(restoreAllowlistSettings(await store.loadMeta<AllowlistSettings>(ALLOWLIST_META_KEY)), regionIds);
+
+export const partitionAllowlisted = (
+  sites: GamblingSite[],
+  allowlist: AllowlistMatcher
+): { allowed: GamblingSite[]; blocked: AllowlistedSite[] } => {
+  const allowed: GamblingSite[] = [];
+  const blocked: AllowlistedSite[] = [];
+  sites.forEach(site => {
+    const reason = allowlist.check(site.normalized_name);
+    if (reason) blocked.push({ site, reason });
+    else allowed.push(site);
+  });
+  return { allowed, blocked };
+};
@@ -0,0 +1,32 @@
+// Everyday words seen in Indonesian and English stream chats. A filter keyword equal to, or contained in,
+// any of these would hide ordinary messages, so discovery never learns them and exports never ship them.
+export const STARTER_ALLOWLIST_TERMS: string[] = [
+  // Indonesian everyday vocabulary
+  'apa', 'apakah', 'bagaimana', 'kenapa', 'mengapa', 'kapan', 'dimana', 'siapa', 'berapa', 'yang', 'dan', 'atau', 'dengan',
+  'untuk', 'dari', 'pada', 'sama', 'juga', 'sudah', 'belum', 'masih', 'akan', 'bisa', 'tidak', 'enggak', 'nggak', 'bukan',
+  'ada', 'saya', 'aku', 'kamu', 'kalian', 'kita', 'mereka', 'dia', 'bang', 'abang', 'kakak', 'adik', 'bro', 'sis', 'mas', 'mbak',
+  'selamat', 'pagi', 'siang', 'sore', 'malam', 'terima', 'kasih', 'terimakasih', 'makasih', 'tolong', 'maaf', 'semangat',
+  'mantap', 'mantul', 'keren', 'bagus', 'lucu', 'seru', 'asik', 'asyik', 'gokil', 'anjay', 'wkwk', 'wkwkwk', 'haha', 'hehe',
+  'main', 'mainan', 'bermain', 'permainan', 'pemain', 'menang', 'kemenangan', 'kalah', 'hadiah', 'untung', 'rezeki', 'rejeki',
+  'uang', 'duit', 'harga', 'murah', 'gratis', 'diskon', 'promo', 'beli', 'jual', 'bayar', 'transfer', 'saldo', 'pulsa', 'kuota',
+  'hari', 'minggu', 'bulan', 'tahun', 'sekarang', 'nanti', 'besok', 'kemarin', 'tadi', 'lagi', 'terus', 'dulu', 'baru', 'lama',
+  'rumah', 'sekolah', 'kuliah', 'kerja', 'kantor', 'makan', 'minum', 'tidur', 'mandi', 'jalan', 'pulang', 'pergi', 'datang',
+  'teman', 'keluarga', 'orang', 'anak', 'bapak', 'ibu', 'mama', 'papa', 'nenek', 'kakek', 'indonesia', 'jakarta', 'bandung',
+  'surabaya', 'medan', 'bali', 'jawa', 'sumatra', 'kalimantan', 'sulawesi', 'papua', 'naga', 'raja', 'ratu', 'dewa', 'emas',
+  'hoki', 'cuan', 'gacor', 'mabar', 'push', 'rank', 'nonton', 'live', 'siaran', 'sawer', 'donasi', 'dukung',
+  // English everyday vocabulary
+  'the', 'and', 'you', 'your', 'for', 'with', 'this', 'that', 'what', 'when', 'where', 'who', 'why', 'how', 'hello', 'hi',
+  'thanks', 'thank', 'please', 'sorry', 'nice', 'good', 'great', 'cool', 'love', 'lol', 'lmao', 'omg', 'wow', 'win', 'winner',
+  'lose', 'play', 'player', 'playing', 'game', 'gaming', 'gamer', 'stream', 'streamer', 'chat', 'subscribe', 'follow', 'like',
+  'share', 'money', 'free', 'gift', 'lucky', 'luck', 'king', 'queen', 'dragon', 'gold', 'golden', 'star', 'super', 'mega',
+  'today', 'tomorrow', 'week', 'month', 'year', 'home', 'school', 'work', 'friend', 'family', 'people', 'music', 'song',
+  // Game titles and gaming terms common in Indonesian streams
+  'mobilelegends', 'mlbb', 'freefire', 'pubg', 'pubgmobile', 'valorant', 'genshin', 'genshinimpact', 'minecraft', 'roblox',
+  'fortnite', 'dota', 'csgo', 'honkai', 'starrail', 'efootball', 'fifa', 'pes', 'gta', 'tekken', 'sims', 'pokemon', 'zeus',
+  'olympus', 'mahjong', 'domino', 'catur', 'ludo', 'sakura', 'esports', 'turnamen', 'tournament', 'scrim', 'savage', 'maniac',
+  // Platforms, payment and sponsor brands
+  'youtube', 'twitch', 'discord', 'tiktok', 'instagram', 'facebook', 'whatsapp', 'telegram', 'google', 'shopee', 'tokopedia',
+  'lazada', 'bukalapak', 'blibli', 'gojek', 'grab', 'traveloka', 'indomaret', 'alfamart', 'telkomsel', 'indosat', 'xl',
+  'smartfren', 'dana', 'ovo', 'gopay', 'shopeepay', 'linkaja', 'bca', 'bri', 'bni', 'mandiri', 'saweria', 'trakteer',
+  'nightbot', 'streamelements', 'streamlabs',
+];
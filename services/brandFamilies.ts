@@ -0,0 +1,169 @@
+import { GamblingSite, SiteStatus } from "../types";
+import { getKeywordStem } from "./keywordNormalizer";
+import { keywordToPattern } from "./exporters/regex";
+
+// Shorter roots are too generic to stand for a whole brand ("slot", "gacor")
+export const MIN_ROOT_LENGTH = 6;
+const MIN_FUZZY_LENGTH = 6;
+const BLOCK_KEY_LENGTH = 3;
+
+export const FLAGGED_FAMILIES_META_KEY = 'flaggedFamilies';
+
+export interface BrandFamily {
+  // Shared leading part of every member stem, used as the family's single filter rule
+  root: string | null;
+  stems: string[];
+  members: GamblingSite[];
+}
+
+export interface FamilyRules {
+  wildcard: string | null;
+  regex: string;
+}
+
+export interface FlaggedFamily {
+  id: string;
+  root: string | null;
+  stems: string[];
+  flaggedAt: string;
+  reviewer?: string;
+}
+
+export interface MirrorSuggestion {
+  site: GamblingSite;
+  family: FlaggedFamily;
+}
+
+// Mirror names tolerate one typo, longer names two
+const maxDistanceFor = (length: number) => (length >= 10 ? 2 : length >= MIN_FUZZY_LENGTH ? 1 : 0);
+
+// Levenshtein distance that gives up as soon as it exceeds the limit
+export const boundedEditDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const areSiblingStems = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= MIN_ROOT_LENGTH && longer.startsWith(shorter)) return true;
+  const limit = maxDistanceFor(shorter.length);
+  return limit > 0 && boundedEditDistance(a, b, limit) <= limit;
+};
+
+const commonPrefix = (values: string[]): string =>
+  values.reduce((prefix, value) => {
+    let i = 0;
+    while (i < prefix.length && prefix[i] === value[i]) i++;
+    return prefix.slice(0, i);
+  });
+
+// A root may drop at most one trailing character of the shortest stem, so typo siblings
+// ("gacor88", "gacorr88") never widen into a generic word ("gacor")
+const toRoot = (stems: string[]): string | null => {
+  const prefix = commonPrefix(stems);
+  const shortest = Math.min(...stems.map(stem => stem.length));
+  return prefix.length >= Math.max(MIN_ROOT_LENGTH, shortest - 1) ? prefix : null;
+};
+
+// Groups entries whose stems share a root or differ by a typo into brand families of two or more
+export const clusterBrandFamilies = (sites: GamblingSite[]): BrandFamily[] => {
+  const membersByStem = new Map<string, GamblingSite[]>();
+  sites.forEach(site => {
+    const stem = getKeywordStem(site.normalized_name);
+    membersByStem.set(stem, [...(membersByStem.get(stem) ?? []), site]);
+  });
+  const stems = Array.from(membersByStem.keys());
+
+  const parent = new Map(stems.map(stem => [stem, stem]));
+  const find = (stem: string): string => {
+    let rootStem = stem;
+    while (parent.get(rootStem) !== rootStem) rootStem = parent.get(rootStem)!;
+    parent.set(stem, rootStem);
+    return rootStem;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  // Mirrors keep the brand's opening letters, so only stems sharing them are compared pairwise
+  const blocks = new Map<string, string[]>();
+  stems.forEach(stem => {
+    const key = stem.slice(0, BLOCK_KEY_LENGTH);
+    blocks.set(key, [...(blocks.get(key) ?? []), stem]);
+  });
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        if (areSiblingStems(block[i], block[j])) union(block[i], block[j]);
+      }
+    }
+  });
+
+  const groups = new Map<string, string[]>();
+  stems.forEach(stem => {
+    const key = find(stem);
+    groups.set(key, [...(groups.get(key) ?? []), stem]);
+  });
+
+  return Array.from(groups.values())
+    .map(groupStems => ({
+      root: toRoot(groupStems),
+      stems: groupStems.sort(),
+      members: groupStems.flatMap(stem => membersByStem.get(stem) ?? []),
+    }))
+    .filter(family => family.members.length > 1)
+    .sort((a, b) => b.members.length - a.members.length || a.stems[0].localeCompare(b.stems[0]));
+};
+
+export const getFamilyLabel = (family: Pick<BrandFamily, 'root' | 'stems'>): string =>
+  family.root ?? family.stems[0];
+
+// The keyword a member is exported as: the family root, or its own stem when typo siblings leave no shared root
+export const getCollapsedKeyword = (family: BrandFamily, site: GamblingSite): string | null => {
+  const keyword = family.root ?? getKeywordStem(site.normalized_name);
+  return keyword.length >= MIN_ROOT_LENGTH ? keyword : null;
+};
+
+export const getFamilyRules = (family: Pick<BrandFamily, 'root' | 'stems'>): FamilyRules => ({
+  wildcard: family.root ? `${family.root}*` : null,
+  regex: family.root
+    ? keywordToPattern(family.root)
+    : `(?:${family.stems.map(keywordToPattern).join('|')})`,
+});
+
+export const createFlaggedFamily = (family: BrandFamily, reviewer?: string): FlaggedFamily => ({
+  id: Math.random().toString(36).substr(2, 9),
+  root: family.root,
+  stems: [...family.stems],
+  flaggedAt: new Date().toISOString(),
+  ...(reviewer?.trim() ? { reviewer: reviewer.trim() } : {}),
+});
+
+export const matchFlaggedFamily = (normalized: string, families: FlaggedFamily[]): FlaggedFamily | null => {
+  const stem = getKeywordStem(normalized);
+  return families.find(family =>
+    (family.root !== null && stem.startsWith(family.root))
+    || family.stems.some(known => areSiblingStems(known, stem))
+  ) ?? null;
+};
+
+// Entries waiting for review that look like new mirrors of a family a moderator already flagged
+export const suggestFamilyMirrors = (sites: GamblingSite[], families: FlaggedFamily[]): MirrorSuggestion[] => {
+  if (families.length === 0) return [];
+  return sites.flatMap(site => {
+    if (site.status !== SiteStatus.FLAGGED) return [];
+    const family = matchFlaggedFamily(site.normalized_name, families);
+    return family ? [{ site, family }] : [];
+  });
+};
@@ -0,0 +1,65 @@
+import { GamblingSite } from "../types";
+
+// Tracks a monotonically increasing registry version and the version at which each entry last changed,
+// so clients can ask for "everything since version N" instead of re-downloading the full list.
+export interface ChangeFeedEntry {
+  version: number;
+  fingerprint: string;
+  removed?: boolean;
+}
+
+export interface ChangeFeed {
+  version: number;
+  entries: Record<string, ChangeFeedEntry>;
+}
+
+export interface ChangeSet {
+  version: number;
+  changed: GamblingSite[];
+  removed: string[];
+}
+
+export const createChangeFeed = (): ChangeFeed => ({ version: 0, entries: {} });
+
+// Only fields a filter consumer cares about; evidence and review notes do not bump the version
+const fingerprint = (site: GamblingSite) =>
+  [site.site_name, site.status, site.confidence_score.toFixed(3), site.last_seen, site.source_count].join('|');
+
+// Assigns a new version to every entry that was added, changed or removed since the feed last saw the registry
+export const syncChangeFeed = (feed: ChangeFeed, sites: GamblingSite[]): ChangeFeed => {
+  const next = feed.version + 1;
+  const entries = { ...feed.entries };
+  let changed = false;
+  const present = new Set<string>();
+
+  sites.forEach(site => {
+    present.add(site.normalized_name);
+    const print = fingerprint(site);
+    const entry = entries[site.normalized_name];
+    if (!entry || entry.removed || entry.fingerprint !== print) {
+      entries[site.normalized_name] = { version: next, fingerprint: print };
+      changed = true;
+    }
+  });
+  Object.entries(entries).forEach(([name, entry]) => {
+    if (!present.has(name) && !entry.removed) {
+      entries[name] = { ...entry, version: next, removed: true };
+      changed = true;
+    }
+  });
+
+  return changed ? { version: next, entries } : feed;
+};
+
+export const getChangesSince = (feed: ChangeFeed, sites: GamblingSite[], since: number): ChangeSet => {
+  const byName = new Map(sites.map(site => [site.normalized_name, site]));
+  const changed: GamblingSite[] = [];
+  const removed: string[] = [];
+  Object.entries(feed.entries).forEach(([name, entry]) => {
+    if (entry.version <= since) return;
+    const site = byName.get(name);
+    if (entry.removed || !site) removed.push(name);
+    else changed.push(site);
+  });
+  return { version: feed.version, changed, removed };
+};
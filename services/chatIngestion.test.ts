@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GamblingSite, SiteStatus } from "../types";
+import { ChatIngestionEvent, ChatIngestionOptions, createChatIngestion } from "./chatIngestion";
+import { createReplayChatSource } from "./chatSources";
+import { createAllowlistMatcher, createAllowlistSettings } from "./allowlist";
+
+const REPLAY = `[2026-03-01T12:00:00Z] budi: main di gacor88 slot gacor maxwin hari ini
+[2026-03-01T12:00:05Z] sari: gacor88 lagi gacor bosku
+[2026-03-01T12:00:09Z] andi: daftar di rajazeus77 dapat bonus deposit
+[2026-03-01T12:00:12Z] rina: nonton di youtube.com aja
+[2026-03-01T12:00:15Z] budi: halo semua
+[2026-03-01T12:00:20Z] tono: cek naga303 link alternatif`;
+
+const knownSite: GamblingSite = {
+  id: 'known',
+  site_name: 'Naga303',
+  normalized_name: 'naga303',
+  first_seen: '2026-02-01T00:00:00.000Z',
+  last_seen: '2026-02-01T00:00:00.000Z',
+  confidence_score: 0.9,
+  status: SiteStatus.ACTIVE,
+  source_count: 1,
+  sources: ['https://fixtures.local/news/judi-online'],
+  review_history: [],
+  evidence: [],
+};
+
+const setup = (overrides: Partial<ChatIngestionOptions> = {}) => {
+  let sites: GamblingSite[] = [knownSite];
+  const events: ChatIngestionEvent[] = [];
+  const ingestion = createChatIngestion({
+    getSites: () => sites,
+    getAllowlist: () => createAllowlistMatcher(createAllowlistSettings()),
+    ...overrides,
+  });
+  ingestion.subscribe(event => {
+    if (event.type === 'sites') sites = event.sites;
+    events.push(event);
+  });
+  return { ingestion, events, getSites: () => sites };
+};
+
+describe('chat ingestion', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('flags unknown platforms from a replayed log with each message as evidence', async () => {
+    const { ingestion, events, getSites } = setup();
+    ingestion.addSource(createReplayChatSource({ label: 'stream.txt', content: REPLAY }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    const siteEvents = events.filter(event => event.type === 'sites');
+    expect(siteEvents).toHaveLength(1);
+
+    const flagged = getSites().filter(site => site.id !== knownSite.id);
+    expect(flagged.map(site => site.normalized_name).sort()).toEqual(['gacor88', 'rajazeus77']);
+    const gacor = flagged.find(site => site.normalized_name === 'gacor88')!;
+    expect(gacor).toMatchObject({
+      status: SiteStatus.FLAGGED,
+      sources: ['replay:stream.txt'],
+      first_seen: '2026-03-01T12:00:00.000Z',
+      last_seen: '2026-03-01T12:00:05.000Z',
+      regions: ['id'],
+    });
+    expect(gacor.confidence_score).toBeLessThan(0.7);
+    expect(gacor.evidence.map(evidence => [evidence.url, evidence.title])).toEqual([
+      ['replay:stream.txt#0', 'budi in replay stream.txt'],
+      ['replay:stream.txt#1', 'sari in replay stream.txt'],
+    ]);
+
+    // Known entries are not re-flagged and the allowlist drops sponsor domains silently
+    expect(getSites().find(site => site.id === knownSite.id)).toBe(knownSite);
+    expect(events.some(event => event.type === 'log' && event.entry.kind === 'allowlist')).toBe(false);
+
+    expect(ingestion.getStats()).toMatchObject({
+      messages: 6,
+      pending: 0,
+      flagged: 2,
+      sources: [{ id: 'replay:stream.txt', status: 'ended', detail: 'replayed 6 messages', messages: 6 }],
+    });
+    expect(ingestion.getStats().recent.map(candidate => candidate.name).sort()).toEqual(['gacor88', 'rajazeus77']);
+  });
+
+  it('paces a replay by the original timestamps and batches candidates until the flush interval', async () => {
+    const { ingestion, events } = setup({ flushIntervalMs: 3000 });
+    ingestion.addSource(createReplayChatSource({ label: 'paced.txt', content: REPLAY, speed: 1 }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ingestion.getStats()).toMatchObject({ messages: 1, pending: 1 });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(ingestion.getStats()).toMatchObject({ messages: 1, pending: 0, flagged: 1 });
+    expect(events.filter(event => event.type === 'sites')).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(ingestion.getStats().messages).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(20000);
+    expect(ingestion.getStats()).toMatchObject({ messages: 6, flagged: 2 });
+    expect(ingestion.getStats().sources[0].status).toBe('ended');
+  });
+
+  it('merges repeats across batches into the flagged entry', async () => {
+    const { ingestion, getSites } = setup();
+    ingestion.addSource(createReplayChatSource({ label: 'one.txt', content: 'budi: main di gacor88 slot gacor' }));
+    await vi.advanceTimersByTimeAsync(0);
+    ingestion.addSource(createReplayChatSource({ label: 'two.txt', content: 'sari: gacor88 maxwin bosku' }));
+    await vi.advanceTimersByTimeAsync(0);
+
+    // The second replay sees gacor88 as a known name and leaves the entry alone
+    const gacor = getSites().filter(site => site.normalized_name === 'gacor88');
+    expect(gacor).toHaveLength(1);
+    expect(gacor[0].sources).toEqual(['replay:one.txt']);
+    expect(ingestion.getStats().flagged).toBe(1);
+  });
+
+  it('stops a replay when its source is removed', async () => {
+    const { ingestion } = setup();
+    ingestion.addSource(createReplayChatSource({ label: 'stopped.txt', content: REPLAY, speed: 1 }));
+    await vi.advanceTimersByTimeAsync(0);
+    ingestion.removeSource('replay:stopped.txt');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(ingestion.getStats()).toMatchObject({ messages: 1, sources: [] });
+  });
+
+  it('reports a replay without messages as an error', async () => {
+    const { ingestion, events } = setup();
+    ingestion.addSource(createReplayChatSource({ label: 'empty.txt', content: '   ' }));
+
+    expect(ingestion.getStats().sources[0]).toMatchObject({ status: 'error', detail: 'no chat messages found' });
+    expect(events.some(event => event.type === 'log' && event.entry.type === 'error')).toBe(true);
+  });
+});
@@ -0,0 +1,360 @@
+import { AgentLog, GamblingSite, SiteStatus } from "../types";
+import { ChatMessage } from "./chatLogParser";
+import { ChatTokenKind, getCandidateTokens, getGamblingTerms } from "./chatMatcher";
+import { normalizeKeyword } from "./keywordNormalizer";
+import { isGenericName } from "./responseValidator";
+import { mergeSites } from "./registryMerge";
+import { AllowlistMatcher } from "./allowlist";
+import { DEFAULT_REGION_ID, RegionProfile, getRegionProfile } from "./regionProfiles";
+import { EngineTimers } from "./agentEngine";
+
+// Chat tokens are noisier than model extractions; entries start low and always wait for review
+const DOMAIN_CONFIDENCE = 0.45;
+const BRAND_CONFIDENCE = 0.3;
+const GAMBLING_CONTEXT_BOOST = 0.15;
+// Each further author posting the same token in one batch looks more like a coordinated wave
+const WAVE_BOOST = 0.05;
+const MAX_CHAT_CONFIDENCE = 0.65;
+const MIN_CANDIDATE_LENGTH = 4;
+const MAX_MESSAGES_PER_CANDIDATE = 5;
+const MAX_SNIPPET_LENGTH = 300;
+const MAX_RECENT_CANDIDATES = 20;
+const DEFAULT_FLUSH_MS = 5000;
+const STATS_INTERVAL_MS = 1000;
+
+export type ChatSourceStatus = 'connecting' | 'live' | 'ended' | 'error';
+
+export interface ChatSourceHandlers {
+  onMessage: (message: ChatMessage) => void;
+  onStatus: (status: ChatSourceStatus, detail?: string) => void;
+}
+
+export interface ChatSource {
+  id: string;
+  label: string;
+  // Page the evidence links to: the channel, the live video or the replayed file
+  url: string;
+  // Starts delivering messages; the returned function disconnects
+  connect(handlers: ChatSourceHandlers): () => void;
+}
+
+export interface ChatCandidate {
+  normalized: string;
+  token: string;
+  kind: ChatTokenKind;
+  gamblingTerms: string[];
+}
+
+export interface ChatSourceStats {
+  id: string;
+  label: string;
+  status: ChatSourceStatus;
+  detail?: string;
+  messages: number;
+  candidates: number;
+}
+
+export interface RecentChatCandidate {
+  name: string;
+  source: string;
+  author: string;
+  text: string;
+  timestamp: string;
+}
+
+export interface ChatIngestionStats {
+  sources: ChatSourceStats[];
+  messages: number;
+  // Candidate sightings waiting for the next batch
+  pending: number;
+  flagged: number;
+  recent: RecentChatCandidate[];
+}
+
+export type ChatIngestionEvent =
+  | { type: 'log'; entry: Omit<AgentLog, 'timestamp'> }
+  | { type: 'sites'; sites: GamblingSite[]; added: GamblingSite[]; summary: string }
+  | { type: 'stats'; stats: ChatIngestionStats };
+
+export interface ChatIngestionOptions {
+  getSites: () => GamblingSite[];
+  getAllowlist?: () => AllowlistMatcher;
+  getRegion?: () => string;
+  timers?: EngineTimers;
+  // Candidates are batched so a spam wave becomes one registry change instead of hundreds
+  flushIntervalMs?: number;
+}
+
+export interface ChatIngestion {
+  subscribe(listener: (event: ChatIngestionEvent) => void): () => void;
+  addSource(source: ChatSource): void;
+  removeSource(id: string): void;
+  // Merges pending candidates into the registry now instead of at the next batch
+  flush(): void;
+  getStats(): ChatIngestionStats;
+  stop(): void;
+}
+
+interface PendingCandidate {
+  candidate: ChatCandidate;
+  source: ChatSource;
+  messages: ChatMessage[];
+  authors: Set<string>;
+}
+
+const defaultTimers: EngineTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+const truncate = (text: string) => (text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : text);
+
+// Chat exports often carry only a time of day; those sightings are dated when they were ingested
+const toIsoTimestamp = (timestamp?: string) => {
+  const time = timestamp ? Date.parse(timestamp) : NaN;
+  return Number.isNaN(time) ? new Date().toISOString() : new Date(time).toISOString();
+};
+
+// Unknown domain-like tokens always count; brand-like tokens ("gacor88") only next to gambling terms or a domain
+export const findChatCandidates = (text: string, known: Set<string>, region: RegionProfile): ChatCandidate[] => {
+  const tokens = getCandidateTokens(text);
+  const gamblingTerms = getGamblingTerms(text);
+  const hasDomain = tokens.some(token => token.kind === 'domain');
+  const candidates = new Map<string, ChatCandidate>();
+
+  tokens.forEach(({ token, kind }) => {
+    if (kind === 'brand' && gamblingTerms.length === 0 && !hasDomain) return;
+    const normalized = normalizeKeyword(token, region.normalization);
+    if (normalized.length < MIN_CANDIDATE_LENGTH || known.has(normalized) || candidates.has(normalized)) return;
+    if (isGenericName(normalized, region.genericTerms)) return;
+    candidates.set(normalized, { normalized, token, kind, gamblingTerms });
+  });
+  return Array.from(candidates.values());
+};
+
+export const createChatCandidateSite = (
+  candidate: ChatCandidate,
+  source: Pick<ChatSource, 'id' | 'label' | 'url'>,
+  messages: ChatMessage[],
+  regionId: string
+): GamblingSite => {
+  const authors = new Set(messages.map(message => message.author || 'anonymous'));
+  const base = (candidate.kind === 'domain' ? DOMAIN_CONFIDENCE : BRAND_CONFIDENCE) + (candidate.gamblingTerms.length > 0 ? GAMBLING_CONTEXT_BOOST : 0);
+  const timestamps = messages.map(message => toIsoTimestamp(message.timestamp)).sort();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    site_name: candidate.token,
+    normalized_name: candidate.normalized,
+    first_seen: timestamps[0],
+    last_seen: timestamps[timestamps.length - 1],
+    confidence_score: Math.min(MAX_CHAT_CONFIDENCE, base + WAVE_BOOST * (authors.size - 1)),
+    // Chat sightings are unverified however often they repeat, so a moderator always decides
+    status: SiteStatus.FLAGGED,
+    source_count: 1,
+    sources: [source.url],
+    review_history: [],
+    // One evidence record per message, so repeats of the same wave are not collapsed into one
+    evidence: messages.map((message, i) => ({
+      url: `${source.url}#${message.id ?? timestamps[i]}`,
+      title: `${message.author || 'anonymous'} in ${source.label}`,
+      snippet: truncate(message.text),
+      query: `chat:${source.id}`,
+      timestamp: toIsoTimestamp(message.timestamp),
+    })),
+    regions: [regionId],
+  };
+};
+
+export const createChatIngestion = (options: ChatIngestionOptions): ChatIngestion => {
+  const timers = options.timers ?? defaultTimers;
+  const flushInterval = options.flushIntervalMs ?? DEFAULT_FLUSH_MS;
+  const listeners = new Set<(event: ChatIngestionEvent) => void>();
+  const sources = new Map<string, { source: ChatSource; stats: ChatSourceStats; disconnect: (() => void) | null }>();
+  const pending = new Map<string, PendingCandidate>();
+  let messageCount = 0;
+  let flaggedCount = 0;
+  let recent: RecentChatCandidate[] = [];
+  let flushHandle: unknown = null;
+  let statsHandle: unknown = null;
+  // Registry names, rebuilt only when the registry array changes
+  let knownFor: GamblingSite[] | null = null;
+  let known = new Set<string>();
+
+  const emit = (event: ChatIngestionEvent) => listeners.forEach(listener => listener(event));
+
+  const log = (message: string, type: AgentLog['type'], kind: string, payload?: Record<string, unknown>) =>
+    emit({ type: 'log', entry: { message, type, kind, ...(payload ? { payload } : {}) } });
+
+  const getStats = (): ChatIngestionStats => ({
+    sources: Array.from(sources.values()).map(entry => ({ ...entry.stats })),
+    messages: messageCount,
+    pending: pending.size,
+    flagged: flaggedCount,
+    recent,
+  });
+
+  const emitStats = () => {
+    if (statsHandle !== null) timers.clearTimeout(statsHandle);
+    statsHandle = null;
+    emit({ type: 'stats', stats: getStats() });
+  };
+
+  // Message counters change on every chat line; listeners hear about them at most once a second
+  const scheduleStats = () => {
+    if (statsHandle !== null) return;
+    statsHandle = timers.setTimeout(emitStats, STATS_INTERVAL_MS);
+  };
+
+  const getKnownNames = () => {
+    const sites = options.getSites();
+    if (sites !== knownFor) {
+      knownFor = sites;
+      known = new Set(sites.map(site => site.normalized_name));
+    }
+    return known;
+  };
+
+  const flush = () => {
+    if (flushHandle !== null) timers.clearTimeout(flushHandle);
+    flushHandle = null;
+    if (pending.size === 0) return;
+
+    const regionId = options.getRegion?.() ?? DEFAULT_REGION_ID;
+    const batch = Array.from(pending.values());
+    pending.clear();
+    const incoming = batch.map(entry => createChatCandidateSite(entry.candidate, entry.source, entry.messages, regionId));
+    const { sites, added, updated, blocked } = mergeSites(options.getSites(), incoming, options.getAllowlist?.());
+
+    blocked.forEach(({ site, reason }) => log(`Allowlist blocked "${site.normalized_name}" from chat: ${reason}.`, 'warning', 'allowlist', {
+      name: site.normalized_name,
+      reason,
+      stage: 'chat',
+    }));
+    if (added.length + updated.length > 0) {
+      const sources = Array.from(new Set(batch.map(entry => entry.source.label)));
+      emit({ type: 'sites', sites, added, summary: `Chat ingestion from ${sources.join(', ')}` });
+    }
+
+    added.forEach(site => {
+      const entry = batch.find(item => item.candidate.normalized === site.normalized_name)!;
+      const first = entry.messages[0];
+      flaggedCount++;
+      recent = [{
+        name: site.normalized_name,
+        source: entry.source.label,
+        author: first.author,
+        text: truncate(first.text),
+        timestamp: site.first_seen,
+      }, ...recent].slice(0, MAX_RECENT_CANDIDATES);
+      log(`Flagged "${site.normalized_name}" from ${entry.source.label} chat (${entry.authors.size} author${entry.authors.size === 1 ? '' : 's'}): "${truncate(first.text)}"`, 'warning', 'chat_candidate', {
+        name: site.normalized_name,
+        token: entry.candidate.token,
+        tokenKind: entry.candidate.kind,
+        source: entry.source.id,
+        messages: entry.messages.map(message => ({ author: message.author, text: message.text, timestamp: message.timestamp })),
+      });
+    });
+    emitStats();
+  };
+
+  const ingest = (entry: { source: ChatSource; stats: ChatSourceStats }, message: ChatMessage) => {
+    messageCount++;
+    entry.stats.messages++;
+    const region = getRegionProfile(options.getRegion?.() ?? DEFAULT_REGION_ID);
+    const allowlist = options.getAllowlist?.();
+
+    // Sponsor domains and everyday words come up constantly in chat, so allowlisted tokens are dropped without a log entry
+    findChatCandidates(message.text, getKnownNames(), region).filter(candidate => !allowlist?.check(candidate.normalized)).forEach(candidate => {
+      entry.stats.candidates++;
+      const current = pending.get(candidate.normalized);
+      if (current) {
+        current.authors.add(message.author || 'anonymous');
+        if (current.messages.length < MAX_MESSAGES_PER_CANDIDATE) current.messages.push(message);
+        return;
+      }
+      pending.set(candidate.normalized, { candidate, source: entry.source, messages: [message], authors: new Set([message.author || 'anonymous']) });
+    });
+
+    if (pending.size > 0 && flushHandle === null) flushHandle = timers.setTimeout(flush, flushInterval);
+    scheduleStats();
+  };
+
+  const disconnect = (id: string) => {
+    const entry = sources.get(id);
+    if (!entry?.disconnect) return;
+    const close = entry.disconnect;
+    entry.disconnect = null;
+    close();
+  };
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    addSource(source) {
+      const existing = sources.get(source.id);
+      if (existing?.disconnect) throw new Error(`Chat source ${source.label} is already connected`);
+
+      const entry = {
+        source,
+        stats: { id: source.id, label: source.label, status: 'connecting' as ChatSourceStatus, messages: 0, candidates: 0 },
+        disconnect: null as (() => void) | null,
+      };
+      sources.set(source.id, entry);
+      emitStats();
+
+      const handlers: ChatSourceHandlers = {
+        onMessage: message => {
+          if (sources.get(source.id) === entry && message.text.trim()) ingest(entry, message);
+        },
+        onStatus: (status, detail) => {
+          if (sources.get(source.id) !== entry) return;
+          entry.stats = { ...entry.stats, status, ...(detail ? { detail } : {}) };
+          if (status === 'live') {
+            log(`Chat ingestion connected to ${source.label}.`, 'success', 'chat_source', { source: source.id, status });
+          } else if (status === 'ended' || status === 'error') {
+            log(`Chat ingestion from ${source.label} ${status === 'ended' ? 'ended' : 'failed'}${detail ? `: ${detail}` : ''}.`, status === 'error' ? 'error' : 'info', 'chat_source', {
+              source: source.id,
+              status,
+              messages: entry.stats.messages,
+            });
+            disconnect(source.id);
+            flush();
+          }
+          emitStats();
+        },
+      };
+
+      try {
+        const close = source.connect(handlers);
+        // A source may finish before connect returns (an empty replay, a refused socket)
+        if (entry.stats.status === 'ended' || entry.stats.status === 'error') close();
+        else entry.disconnect = close;
+      } catch (error) {
+        handlers.onStatus('error', error instanceof Error ? error.message : 'Unknown error');
+      }
+    },
+
+    removeSource(id) {
+      disconnect(id);
+      sources.delete(id);
+      flush();
+      emitStats();
+    },
+
+    flush,
+    getStats,
+
+    stop() {
+      Array.from(sources.keys()).forEach(disconnect);
+      sources.clear();
+      flush();
+      if (statsHandle !== null) timers.clearTimeout(statsHandle);
+      statsHandle = null;
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseChatLog } from "./chatLogParser";
+
+describe('chat log parser', () => {
+  it('keeps only string authors and timestamps from generic JSON entries', () => {
+    const log = JSON.stringify([
+      { author: { name: 'budi' }, message: 'main di gacor88', timestamp: 1772366400 },
+      { author: { id: 42 }, text: 'halo semua' },
+      null,
+      ['not', 'a', 'message'],
+      { username: 'sari', body: 'cek naga303' },
+    ]);
+
+    expect(parseChatLog(log)).toEqual({
+      format: 'generic-json',
+      messages: [
+        { author: 'budi', text: 'main di gacor88', timestamp: '1772366400' },
+        { author: '', text: 'halo semua', timestamp: undefined },
+        { author: 'sari', text: 'cek naga303', timestamp: undefined },
+      ],
+    });
+  });
+
+  it('skips malformed Twitch comments', () => {
+    const log = JSON.stringify({
+      comments: [
+        null,
+        { commenter: { display_name: 7 }, message: { fragments: [{ text: 'daftar ' }, { text: 'zeus138' }] }, created_at: '2026-03-01T12:00:00Z' },
+        { commenter: 'andi', message: 'not an object' },
+      ],
+    });
+
+    expect(parseChatLog(log)).toEqual({
+      format: 'twitch',
+      messages: [{ author: '', text: 'daftar zeus138', timestamp: '2026-03-01T12:00:00Z' }],
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { asString, isRecord } from "./responseValidator";
+
+export interface ChatMessage {
+  // Platform message id, when the source provides one
+  id?: string;
+  author: string;
+  text: string;
+  timestamp?: string;
+}
+
+export type ChatLogFormat = 'plain' | 'youtube' | 'twitch' | 'generic-json';
+
+// Walks nested JSON fields, yielding undefined as soon as a step is not an object
+const field = (value: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => (isRecord(current) ? current[key] : undefined), value);
+
+// Export tools write ids and timestamps as either strings or numbers
+const asOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' && Number.isFinite(value) ? String(value) : undefined;
+
+const textFromRuns = (runs: unknown): string =>
+  Array.isArray(runs)
+    ? runs.map(run => asOptionalString(field(run, 'text')) ?? asOptionalString(field(run, 'emoji', 'shortcuts', '0')) ?? '').join('')
+    : '';
+
+// YouTube live chat replay (yt-dlp live_chat.json, one action wrapper per line or as an array)
+const parseYouTubeItem = (entry: unknown): ChatMessage | null => {
+  const wrapped = field(entry, 'replayChatItemAction', 'actions');
+  const actions = Array.isArray(wrapped) ? wrapped : [entry];
+  for (const action of actions) {
+    const item = field(action, 'addChatItemAction', 'item');
+    const renderer = field(item, 'liveChatTextMessageRenderer') ?? field(item, 'liveChatPaidMessageRenderer');
+    if (isRecord(renderer)) {
+      const usec = Number(renderer.timestampUsec);
+      return {
+        author: asString(field(renderer, 'authorName', 'simpleText')),
+        text: textFromRuns(field(renderer, 'message', 'runs')),
+        timestamp: Number.isFinite(usec) ? new Date(usec / 1000).toISOString() : undefined,
+      };
+    }
+  }
+  return null;
+};
+
+// Twitch chat exports (TwitchDownloader / tcd "comments" format)
+const parseTwitchComment = (comment: unknown): ChatMessage | null => {
+  if (!isRecord(comment)) return null;
+  const body = asOptionalString(field(comment, 'message', 'body')) ?? textFromRuns(field(comment, 'message', 'fragments'));
+  if (!body) return null;
+  return {
+    author: asString(field(comment, 'commenter', 'display_name')) || asString(field(comment, 'commenter', 'name')),
+    text: body,
+    timestamp: asOptionalString(comment.created_at),
+  };
+};
+
+const parseGenericItem = (item: unknown): ChatMessage | null => {
+  if (typeof item === 'string') return { author: '', text: item };
+  if (!isRecord(item)) return null;
+  const text = item.message ?? item.text ?? item.body;
+  if (typeof text !== 'string') return null;
+  return {
+    author: asString(field(item, 'author', 'name')) || asString(item.author) || asString(item.username),
+    text,
+    timestamp: asOptionalString(item.timestamp) ?? asOptionalString(item.time_text),
+  };
+};
+
+const parseJsonEntries = (entries: unknown[]): { format: ChatLogFormat; messages: ChatMessage[] } => {
+  const isYouTube = entries.some(e => isRecord(e) && (e.replayChatItemAction || e.addChatItemAction));
+  const parse = isYouTube ? parseYouTubeItem : parseGenericItem;
+  return {
+    format: isYouTube ? 'youtube' : 'generic-json',
+    messages: entries.map(parse).filter((m): m is ChatMessage => !!m && m.text.trim().length > 0),
+  };
+};
+
+// Plain lines may carry an "author: message" or "[12:00] author: message" prefix
+const parsePlainLine = (line: string): ChatMessage => {
+  const match = line.match(/^(?:\[([^\]]+)\]\s*)?([^\s:]{1,40}):\s+(.+)$/);
+  if (match) return { timestamp: match[1], author: match[2], text: match[3] };
+  return { author: '', text: line };
+};
+
+export const parseChatLog = (content: string): { format: ChatLogFormat; messages: ChatMessage[] } => {
+  const trimmed = content.trim();
+  if (!trimmed) return { format: 'plain', messages: [] };
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parseJsonEntries(parsed);
+      const comments = field(parsed, 'comments');
+      if (Array.isArray(comments)) {
+        return {
+          format: 'twitch',
+          messages: comments.map(parseTwitchComment).filter((m): m is ChatMessage => !!m),
+        };
+      }
+      return parseJsonEntries([parsed]);
+    } catch {
+      // Not a single JSON document; fall through to JSON Lines
+    }
+
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim());
+    try {
+      return parseJsonEntries(lines.map((line): unknown => JSON.parse(line)));
+    } catch {
+      // Not JSON Lines either; treat as plain text
+    }
+  }
+
+  return {
+    format: 'plain',
+    messages: trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(parsePlainLine),
+  };
+};
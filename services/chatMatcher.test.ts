@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { GamblingSite, SiteStatus } from "../types";
+import { computeFilterMetrics, createChatMatcher } from "./chatMatcher";
+
+const site: GamblingSite = {
+  id: 'known',
+  site_name: 'Gacor88',
+  normalized_name: 'gacor88',
+  first_seen: '2026-02-01T00:00:00.000Z',
+  last_seen: '2026-02-01T00:00:00.000Z',
+  confidence_score: 0.9,
+  status: SiteStatus.ACTIVE,
+  source_count: 1,
+  sources: [],
+  review_history: [],
+  evidence: [],
+};
+
+describe('filter lab metrics', () => {
+  const matcher = createChatMatcher([site]);
+  const matches = [
+    'main di gacor88 sekarang',
+    'gacor88 itu nama kucingku',
+    'daftar di zeus138 bonus deposit',
+    'halo semua',
+  ].map(text => matcher.match({ author: 'viewer', text }));
+
+  it('leaves precision and recall unmeasured until messages are labeled', () => {
+    expect(computeFilterMetrics(matches)).toMatchObject({ blocked: 2, suspiciousUnmatched: 1, labeled: 0, precision: null, recall: null });
+  });
+
+  it('measures only over labeled messages', () => {
+    const metrics = computeFilterMetrics(matches, { 0: true, 1: false, 2: true });
+    expect(metrics).toMatchObject({ labeled: 3, truePositives: 1, falsePositives: 1, falseNegatives: 1, precision: 0.5, recall: 0.5 });
+  });
+});
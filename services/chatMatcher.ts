@@ -0,0 +1,118 @@
+import { GamblingSite, SiteStatus } from "../types";
+import { ChatMessage } from "./chatLogParser";
+import { COMMON_TLDS, foldConfusables, normalizeKeyword } from "./keywordNormalizer";
+
+// Signatures shorter than this match too much ordinary chat once separators are stripped
+const MIN_SIGNATURE_LENGTH = 4;
+
+const GAMBLING_VOCABULARY = ['slot', 'gacor', 'maxwin', 'judi', 'togel', 'depo', 'deposit', 'withdraw', 'rtp', 'scatter', 'jackpot', 'jepe', 'bonus new member', 'link alternatif', 'daftar', 'zeus', 'olympus', 'mahjong', 'casino', 'betting'];
+const DOMAIN_LIKE = new RegExp(`\\b[a-z0-9][a-z0-9-]{2,}\\s*(?:\\.|\\(dot\\)|\\[dot\\]|\\s+dot\\s+)\\s*(?:${COMMON_TLDS.join('|')})\\b`);
+const BRAND_LIKE = /\b[a-z]{3,}\d{2,}[a-z]*\b/;
+
+export type ChatTokenKind = 'domain' | 'brand';
+
+export interface ChatToken {
+  token: string;
+  kind: ChatTokenKind;
+}
+
+export interface ChatMatch {
+  message: ChatMessage;
+  matched: GamblingSite | null;
+  suspicionReasons: string[];
+}
+
+export interface ChatMatcher {
+  match(message: ChatMessage): ChatMatch;
+}
+
+export const getGamblingTerms = (text: string): string[] => {
+  const compact = normalizeKeyword(text);
+  return GAMBLING_VOCABULARY.filter(term => compact.includes(term.replace(/\s+/g, '')));
+};
+
+export const getSuspicionReasons = (text: string): string[] => {
+  const folded = foldConfusables(text);
+  const reasons: string[] = [];
+  const domain = folded.match(DOMAIN_LIKE);
+  if (domain) reasons.push(`domain-like "${domain[0]}"`);
+  const brand = folded.match(BRAND_LIKE);
+  if (brand) reasons.push(`brand-like "${brand[0]}"`);
+  const terms = getGamblingTerms(text);
+  if (terms.length > 0) reasons.push(`gambling terms: ${terms.join(', ')}`);
+  return reasons;
+};
+
+// Every domain-like and brand-like token in a message; a domain's own label is not reported again as a brand
+export const getCandidateTokens = (text: string): ChatToken[] => {
+  const folded = foldConfusables(text);
+  const domains: string[] = folded.match(new RegExp(DOMAIN_LIKE.source, 'g')) ?? [];
+  const rest = domains.reduce((remaining, domain) => remaining.replace(domain, ' '), folded);
+  const brands = rest.match(new RegExp(BRAND_LIKE.source, 'g')) ?? [];
+  return [
+    ...domains.map(token => ({ token, kind: 'domain' as const })),
+    ...brands.map(token => ({ token, kind: 'brand' as const })),
+  ];
+};
+
+// Matches chat messages against the exportable part of the registry (everything not marked false positive)
+export const createChatMatcher = (sites: GamblingSite[]): ChatMatcher => {
+  const signatures = sites
+    .filter(site => site.status !== SiteStatus.FALSE_POSITIVE && site.normalized_name.length >= MIN_SIGNATURE_LENGTH)
+    // Prefer the most specific signature when several match the same message
+    .sort((a, b) => b.normalized_name.length - a.normalized_name.length);
+
+  return {
+    match(message) {
+      const compact = normalizeKeyword(message.text);
+      const matched = signatures.find(site => compact.includes(site.normalized_name)) ?? null;
+      return {
+        message,
+        matched,
+        suspicionReasons: matched ? [] : getSuspicionReasons(message.text),
+      };
+    },
+  };
+};
+
+// Reviewer labels keyed by message index: true = spam, false = legitimate
+export type FilterLabLabels = Record<number, boolean>;
+
+export interface FilterLabMetrics {
+  blocked: number;
+  suspiciousUnmatched: number;
+  labeled: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+// Precision and recall only count labeled messages; the matcher's own output is never taken as ground truth
+export const computeFilterMetrics = (matches: ChatMatch[], labels: FilterLabLabels = {}): FilterLabMetrics => {
+  let labeled = 0;
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  matches.forEach((match, i) => {
+    const isSpam = labels[i];
+    if (isSpam === undefined) return;
+    labeled++;
+    if (match.matched && isSpam) truePositives++;
+    else if (match.matched) falsePositives++;
+    else if (isSpam) falseNegatives++;
+  });
+
+  return {
+    blocked: matches.filter(m => m.matched).length,
+    suspiciousUnmatched: matches.filter(m => !m.matched && m.suspicionReasons.length > 0).length,
+    labeled,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : null,
+    recall: truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : null,
+  };
+};
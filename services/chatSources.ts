@@ -0,0 +1,323 @@
+import { ChatMessage, parseChatLog } from "./chatLogParser";
+import { ChatSource } from "./chatIngestion";
+import { EngineTimers } from "./agentEngine";
+
+export const TWITCH_IRC_URL = 'wss://irc-ws.chat.twitch.tv:443';
+const YOUTUBE_API_URL = 'https://www.googleapis.com/youtube/v3';
+// YouTube asks clients to wait pollingIntervalMillis between pages; never poll faster than this
+const MIN_YOUTUBE_POLL_MS = 2000;
+// Long silences in a replayed log are shortened so a replay never stalls
+const MAX_REPLAY_GAP_MS = 10000;
+const REPLAY_BATCH_SIZE = 50;
+
+export interface LineSocketHandlers {
+  onOpen: () => void;
+  onLine: (line: string) => void;
+  onClose: (reason?: string) => void;
+}
+
+export interface LineSocket {
+  send(line: string): void;
+  close(): void;
+}
+
+// Opens a line-oriented connection; the browser uses WebSockets, the CLI can also speak plain IRC over TCP
+export type LineSocketFactory = (url: string, handlers: LineSocketHandlers) => LineSocket;
+
+export interface IrcMessage {
+  tags: Record<string, string>;
+  prefix: string;
+  command: string;
+  params: string[];
+}
+
+export interface TwitchChatSourceOptions {
+  channel: string;
+  url?: string;
+  // Anonymous read-only login unless a nick and oauth token are given
+  nick?: string;
+  password?: string;
+  openSocket?: LineSocketFactory;
+}
+
+export interface YouTubeChatSourceOptions {
+  videoId: string;
+  apiKey: string;
+  timers?: EngineTimers;
+}
+
+export interface ReplayChatSourceOptions {
+  label: string;
+  content: string;
+  // 1 replays at the original pace, 10 ten times faster, 0 as fast as possible
+  speed?: number;
+  timers?: EngineTimers;
+}
+
+const defaultTimers: EngineTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+export const openWebSocketLines: LineSocketFactory = (url, handlers) => {
+  if (typeof WebSocket === 'undefined') throw new Error('WebSockets are not available in this runtime');
+  const socket = new WebSocket(url);
+  let failed = false;
+  socket.onopen = () => handlers.onOpen();
+  // A frame may carry several CRLF-terminated IRC lines
+  socket.onmessage = event => String(event.data).split(/\r?\n/).filter(Boolean).forEach(handlers.onLine);
+  socket.onerror = () => {
+    failed = true;
+  };
+  socket.onclose = event => handlers.onClose(failed ? `connection to ${url} failed` : event.reason || undefined);
+  return {
+    send: line => socket.send(line),
+    close: () => socket.close(),
+  };
+};
+
+const unescapeTagValue = (value: string) =>
+  value.replace(/\\(.)/g, (_, char: string) => ({ s: ' ', ':': ';', r: '\r', n: '\n', '\\': '\\' }[char] ?? char));
+
+// Parses one IRC line, including IRCv3 message tags ("@id=...;display-name=... :nick!user@host PRIVMSG #chan :text")
+export const parseIrcLine = (line: string): IrcMessage | null => {
+  let rest = line.trim();
+  if (!rest) return null;
+
+  const tags: Record<string, string> = {};
+  if (rest.startsWith('@')) {
+    const end = rest.indexOf(' ');
+    rest.slice(1, end).split(';').forEach(tag => {
+      const [key, value = ''] = tag.split('=');
+      tags[key] = unescapeTagValue(value);
+    });
+    rest = rest.slice(end + 1).trimStart();
+  }
+
+  let prefix = '';
+  if (rest.startsWith(':')) {
+    const end = rest.indexOf(' ');
+    prefix = rest.slice(1, end);
+    rest = rest.slice(end + 1).trimStart();
+  }
+
+  const trailingAt = rest.indexOf(' :');
+  const head = trailingAt >= 0 ? rest.slice(0, trailingAt) : rest;
+  const [command, ...params] = head.split(' ').filter(Boolean);
+  if (!command) return null;
+  if (trailingAt >= 0) params.push(rest.slice(trailingAt + 2));
+  return { tags, prefix, command: command.toUpperCase(), params };
+};
+
+export const toTwitchChatMessage = (message: IrcMessage): ChatMessage | null => {
+  if (message.command !== 'PRIVMSG' || message.params.length < 2) return null;
+  const sentAt = Number(message.tags['tmi-sent-ts']);
+  return {
+    ...(message.tags.id ? { id: message.tags.id } : {}),
+    author: message.tags['display-name'] || message.prefix.split('!')[0],
+    text: message.params[1],
+    timestamp: Number.isFinite(sentAt) && sentAt > 0 ? new Date(sentAt).toISOString() : new Date().toISOString(),
+  };
+};
+
+// Twitch chat over its IRC interface; any IRC server works the same way through a matching socket factory
+export const createTwitchChatSource = ({ channel, url = TWITCH_IRC_URL, nick, password, openSocket = openWebSocketLines }: TwitchChatSourceOptions): ChatSource => {
+  const name = channel.trim().replace(/^#/, '').toLowerCase();
+  if (!name) throw new Error('A channel name is required');
+
+  return {
+    id: `twitch:${name}`,
+    label: `#${name}`,
+    url: `https://www.twitch.tv/${name}`,
+    connect({ onMessage, onStatus }) {
+      let closing = false;
+      const login = nick ?? `justinfan${Math.floor(10000 + Math.random() * 80000)}`;
+      onStatus('connecting');
+      const socket = openSocket(url, {
+        onOpen: () => {
+          socket.send('CAP REQ :twitch.tv/tags');
+          if (password) socket.send(`PASS ${password}`);
+          socket.send(`NICK ${login}`);
+          socket.send(`USER ${login} 0 * :${login}`);
+        },
+        onLine: line => {
+          const message = parseIrcLine(line);
+          if (!message) return;
+          switch (message.command) {
+            case 'PING':
+              socket.send(`PONG :${message.params[0] ?? ''}`);
+              break;
+            // Registration finished; servers ignore a JOIN sent before it
+            case '001':
+              socket.send(`JOIN #${name}`);
+              break;
+            case '366':
+              onStatus('live');
+              break;
+            case 'PRIVMSG': {
+              const chat = toTwitchChatMessage(message);
+              if (chat) onMessage(chat);
+              break;
+            }
+            case 'NOTICE':
+              if (/login|auth/i.test(message.params[1] ?? '')) onStatus('error', message.params[1]);
+              break;
+            case 'RECONNECT':
+              onStatus('ended', 'server asked clients to reconnect');
+              break;
+          }
+        },
+        onClose: reason => {
+          if (!closing) onStatus(reason ? 'error' : 'ended', reason);
+        },
+      });
+      return () => {
+        closing = true;
+        socket.close();
+      };
+    },
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toYouTubeChatMessage = (item: unknown): ChatMessage | null => {
+  if (!isRecord(item) || !isRecord(item.snippet) || typeof item.snippet.displayMessage !== 'string') return null;
+  const author = isRecord(item.authorDetails) && typeof item.authorDetails.displayName === 'string' ? item.authorDetails.displayName : '';
+  return {
+    ...(typeof item.id === 'string' ? { id: item.id } : {}),
+    author,
+    text: item.snippet.displayMessage,
+    timestamp: typeof item.snippet.publishedAt === 'string' ? item.snippet.publishedAt : new Date().toISOString(),
+  };
+};
+
+export const parseYouTubeChatPage = (payload: unknown): { messages: ChatMessage[]; nextPageToken?: string; pollingIntervalMillis: number; ended: boolean } => {
+  const page = isRecord(payload) ? payload : {};
+  return {
+    messages: (Array.isArray(page.items) ? page.items : [])
+      .map(toYouTubeChatMessage)
+      .filter((message): message is ChatMessage => !!message),
+    nextPageToken: typeof page.nextPageToken === 'string' ? page.nextPageToken : undefined,
+    pollingIntervalMillis: Math.max(MIN_YOUTUBE_POLL_MS, Number(page.pollingIntervalMillis) || 0),
+    ended: !!page.offlineAt,
+  };
+};
+
+const getActiveLiveChatId = (body: unknown): string | undefined => {
+  const video = isRecord(body) && Array.isArray(body.items) ? body.items[0] : undefined;
+  const details = isRecord(video) ? video.liveStreamingDetails : undefined;
+  return isRecord(details) && typeof details.activeLiveChatId === 'string' ? details.activeLiveChatId : undefined;
+};
+
+// Polls a live stream's chat through the YouTube Data API, pacing requests as the API asks
+export const createYouTubeChatSource = ({ videoId, apiKey, timers = defaultTimers }: YouTubeChatSourceOptions): ChatSource => {
+  const id = videoId.trim();
+  if (!id) throw new Error('A video id is required');
+  if (!apiKey) throw new Error('A YouTube Data API key is required');
+
+  const getJson = async (path: string, params: Record<string, string>) => {
+    const query = new URLSearchParams({ ...params, key: apiKey });
+    const response = await fetch(`${YOUTUBE_API_URL}/${path}?${query}`);
+    const body: unknown = await response.json().catch(() => null);
+    if (!response.ok) {
+      const error = isRecord(body) && isRecord(body.error) && typeof body.error.message === 'string' ? body.error.message : '';
+      throw new Error(error || `YouTube API returned ${response.status}`);
+    }
+    return body;
+  };
+
+  return {
+    id: `youtube:${id}`,
+    label: `YouTube ${id}`,
+    url: `https://www.youtube.com/watch?v=${id}`,
+    connect({ onMessage, onStatus }) {
+      let stopped = false;
+      let handle: unknown = null;
+      onStatus('connecting');
+
+      const poll = async (liveChatId: string, pageToken?: string) => {
+        handle = null;
+        try {
+          const page = parseYouTubeChatPage(await getJson('liveChat/messages', {
+            liveChatId,
+            part: 'snippet,authorDetails',
+            ...(pageToken ? { pageToken } : {}),
+          }));
+          if (stopped) return;
+          page.messages.forEach(onMessage);
+          if (page.ended) {
+            onStatus('ended', 'the stream is offline');
+            return;
+          }
+          handle = timers.setTimeout(() => void poll(liveChatId, page.nextPageToken), page.pollingIntervalMillis);
+        } catch (error) {
+          if (!stopped) onStatus('error', errorMessage(error));
+        }
+      };
+
+      getJson('videos', { part: 'liveStreamingDetails', id })
+        .then(body => {
+          if (stopped) return;
+          const liveChatId = getActiveLiveChatId(body);
+          if (!liveChatId) {
+            onStatus('error', `video ${id} has no active live chat`);
+            return;
+          }
+          onStatus('live');
+          return poll(liveChatId);
+        })
+        .catch(error => {
+          if (!stopped) onStatus('error', errorMessage(error));
+        });
+
+      return () => {
+        stopped = true;
+        if (handle !== null) timers.clearTimeout(handle);
+      };
+    },
+  };
+};
+
+// Replays a saved chat log (any format the Filter Lab reads) as if it were arriving live
+export const createReplayChatSource = ({ label, content, speed = 0, timers = defaultTimers }: ReplayChatSourceOptions): ChatSource => ({
+  id: `replay:${label}`,
+  label: `replay ${label}`,
+  url: `replay:${label}`,
+  connect({ onMessage, onStatus }) {
+    const messages = parseChatLog(content).messages.map((message, index) => ({ id: String(index), ...message }));
+    let handle: unknown = null;
+    if (messages.length === 0) {
+      onStatus('error', 'no chat messages found');
+      return () => undefined;
+    }
+    onStatus('live');
+
+    const gapAfter = (index: number) => {
+      if (speed <= 0) return 0;
+      const previous = Date.parse(messages[index - 1]?.timestamp ?? '');
+      const current = Date.parse(messages[index]?.timestamp ?? '');
+      const gap = Number.isNaN(previous) || Number.isNaN(current) ? 1000 : Math.max(0, current - previous);
+      return Math.min(MAX_REPLAY_GAP_MS, gap) / speed;
+    };
+
+    const play = (index: number) => {
+      handle = null;
+      // Without pacing, messages go out in batches so a large log does not block the page
+      const end = speed <= 0 ? Math.min(messages.length, index + REPLAY_BATCH_SIZE) : index + 1;
+      for (let i = index; i < end; i++) onMessage(messages[i]);
+      if (end >= messages.length) {
+        onStatus('ended', `replayed ${messages.length} messages`);
+        return;
+      }
+      handle = timers.setTimeout(() => play(end), gapAfter(end));
+    };
+    handle = timers.setTimeout(() => play(0), 0);
+
+    return () => {
+      if (handle !== null) timers.clearTimeout(handle);
+    };
+  },
+});
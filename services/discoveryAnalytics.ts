@@ -0,0 +1,187 @@
+import { GamblingSite, SiteStatus } from "../types";
+import { getKeywordStem } from "./keywordNormalizer";
+import { getMeanYield, StrategyState } from "./queryStrategy";
+import { getSourceDomains, SourceDomainCount } from "./registryQuery";
+
+export const CYCLE_LOG_META_KEY = 'discoveryCycles';
+const MAX_CYCLE_RECORDS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How the cycle's query was chosen: typed by the user, planned on demand, or planned by the Auto Mode loop
+export type CycleMode = 'manual' | 'planned' | 'autonomous';
+
+export interface CycleRecord {
+  id: string;
+  timestamp: string;
+  query: string;
+  mode: CycleMode;
+  region: string;
+  templateId: string | null;
+  added: number;
+  updated: number;
+}
+
+export interface TrendBucket {
+  // Local date (YYYY-MM-DD) the bucket starts on
+  start: string;
+  added: number;
+  falsePositives: number;
+}
+
+export interface CycleSummary {
+  cycles: number;
+  productive: number;
+  meanYield: number;
+  // Mean yield of the most recent cycles, to compare against the overall mean
+  recentMeanYield: number;
+}
+
+export interface StrategyYield {
+  templateId: string;
+  pattern: string;
+  uses: number;
+  newSignatures: number;
+  meanYield: number;
+}
+
+export interface ConfidenceBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface BrandActivity {
+  stem: string;
+  members: number;
+  lastSeen: string;
+  daysQuiet: number;
+}
+
+export interface RisingBrand {
+  stem: string;
+  recent: number;
+  previous: number;
+}
+
+// Takes the engine's cycle id so the record can be matched with the cycle's log entries
+export const createCycleRecord = (
+  id: string,
+  query: string,
+  mode: CycleMode,
+  region: string,
+  templateId: string | null,
+  added: number,
+  updated: number
+): CycleRecord => ({
+  id,
+  timestamp: new Date().toISOString(),
+  query,
+  mode,
+  region,
+  templateId,
+  added,
+  updated,
+});
+
+export const appendCycleRecord = (records: CycleRecord[], record: CycleRecord): CycleRecord[] =>
+  [...records, record].slice(-MAX_CYCLE_RECORDS);
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Entries first seen in each bucket of the last `days` days, oldest bucket first; empty buckets are kept so charts stay continuous
+export const getDiscoveryTrend = (sites: GamblingSite[], days: number, bucketDays = 1, now = new Date()): TrendBucket[] => {
+  const bucketCount = Math.ceil(days / bucketDays);
+  const end = startOfDay(now).getTime() + DAY_MS;
+  const start = end - bucketCount * bucketDays * DAY_MS;
+  const buckets: TrendBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    start: toDateKey(new Date(start + i * bucketDays * DAY_MS)),
+    added: 0,
+    falsePositives: 0,
+  }));
+
+  sites.forEach(site => {
+    const seen = new Date(site.first_seen).getTime();
+    if (Number.isNaN(seen) || seen < start || seen >= end) return;
+    const bucket = buckets[Math.floor((seen - start) / (bucketDays * DAY_MS))];
+    bucket.added++;
+    if (site.status === SiteStatus.FALSE_POSITIVE) bucket.falsePositives++;
+  });
+  return buckets;
+};
+
+export const summarizeCycles = (records: CycleRecord[], recent = 10): CycleSummary => {
+  const mean = (list: CycleRecord[]) => (list.length > 0 ? list.reduce((sum, r) => sum + r.added, 0) / list.length : 0);
+  return {
+    cycles: records.length,
+    productive: records.filter(r => r.added > 0).length,
+    meanYield: mean(records),
+    recentMeanYield: mean(records.slice(-recent)),
+  };
+};
+
+export const getStrategyYield = (state: StrategyState): StrategyYield[] =>
+  state.templates
+    .map(template => {
+      const stats = state.templateStats[template.id];
+      return {
+        templateId: template.id,
+        pattern: template.pattern,
+        uses: stats?.uses ?? 0,
+        newSignatures: stats?.newSignatures ?? 0,
+        meanYield: getMeanYield(stats),
+      };
+    })
+    .sort((a, b) => b.meanYield - a.meanYield || b.uses - a.uses);
+
+// Confidence spread of live entries; false positives are left out so they do not skew the picture
+export const getConfidenceHistogram = (sites: GamblingSite[], binCount = 10): ConfidenceBin[] => {
+  const bins: ConfidenceBin[] = Array.from({ length: binCount }, (_, i) => ({ from: i / binCount, to: (i + 1) / binCount, count: 0 }));
+  sites.forEach(site => {
+    if (site.status === SiteStatus.FALSE_POSITIVE) return;
+    bins[Math.min(binCount - 1, Math.floor(site.confidence_score * binCount))].count++;
+  });
+  return bins;
+};
+
+export const getTopSourceDomains = (sites: GamblingSite[], limit = 10): SourceDomainCount[] =>
+  getSourceDomains(sites).slice(0, limit);
+
+const groupByBrand = (sites: GamblingSite[]): Map<string, GamblingSite[]> => {
+  const brands = new Map<string, GamblingSite[]>();
+  sites.forEach(site => {
+    if (site.status === SiteStatus.FALSE_POSITIVE) return;
+    const stem = getKeywordStem(site.normalized_name);
+    brands.set(stem, [...(brands.get(stem) ?? []), site]);
+  });
+  return brands;
+};
+
+// Brands none of whose entries has been sighted for `quietDays`, most recently active first
+export const getQuietBrands = (sites: GamblingSite[], quietDays: number, now = new Date()): BrandActivity[] =>
+  Array.from(groupByBrand(sites).entries())
+    .map(([stem, members]) => {
+      const lastSeen = members.reduce((latest, site) => (site.last_seen > latest ? site.last_seen : latest), members[0].last_seen);
+      return { stem, members: members.length, lastSeen, daysQuiet: Math.floor((now.getTime() - new Date(lastSeen).getTime()) / DAY_MS) };
+    })
+    .filter(brand => brand.daysQuiet >= quietDays)
+    .sort((a, b) => a.daysQuiet - b.daysQuiet || a.stem.localeCompare(b.stem));
+
+// Brands gaining new entries (mirrors, new names) in the last `windowDays` compared with the window before
+export const getRisingBrands = (sites: GamblingSite[], windowDays: number, now = new Date()): RisingBrand[] => {
+  const windowStart = now.getTime() - windowDays * DAY_MS;
+  const previousStart = windowStart - windowDays * DAY_MS;
+  return Array.from(groupByBrand(sites).entries())
+    .map(([stem, members]) => {
+      const times = members.map(site => new Date(site.first_seen).getTime());
+      return {
+        stem,
+        recent: times.filter(t => t >= windowStart).length,
+        previous: times.filter(t => t >= previousStart && t < windowStart).length,
+      };
+    })
+    .filter(brand => brand.recent > brand.previous)
+    .sort((a, b) => (b.recent - b.previous) - (a.recent - a.previous) || a.stem.localeCompare(b.stem));
+};
@@ -0,0 +1,21 @@
+import { DEFAULT_REGION_ID, getRegionProfile } from "./regionProfiles";
+
+export const buildDiscoveryPrompt = (query: string, knownPatterns: string[] = [], regionId: string = DEFAULT_REGION_ID): string => {
+  const region = getRegionProfile(regionId);
+  // Prepare context from known patterns to guide the model
+  const contextInstruction = knownPatterns.length > 0 
+    ? `\n\nCONTEXTUAL KNOWLEDGE: We already know these patterns: [${knownPatterns.slice(0, 20).join(', ')}]. 
+       Focus on finding NEW variations, different TLDs, or obfuscated versions of these, as well as entirely new platforms.`
+    : "";
+  const regionInstruction = region.promptContext ? `\n    ${region.promptContext}` : "";
+
+  return `Search for and extract gambling website names and identifiers commonly seen in live stream chat spam or donation messages in ${region.label}. 
+    Focus on specific brand names or domain-like strings (e.g., brandname.com, brandnamevip).${regionInstruction}
+    Current Query: ${query}${contextInstruction}
+    
+    Rules:
+    1. Extract the primary brand/site name.
+    2. Normalize it (lowercase, no symbols).
+    3. Assign a confidence score (0.0 - 1.0) based on how clearly it appears as a gambling platform.
+    4. Provide the current timestamp.`;
+};
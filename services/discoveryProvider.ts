@@ -0,0 +1,47 @@
+import { DiscoveryProvider } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+
+export type DiscoveryProviderKind = 'gemini' | 'openai' | 'fixture';
+
+export interface DiscoveryProviderConfig {
+  kind: DiscoveryProviderKind;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export const createDiscoveryProvider = (config: DiscoveryProviderConfig): DiscoveryProvider => {
+  switch (config.kind) {
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.apiKey || '', model: config.model });
+    case 'openai':
+      if (!config.baseUrl) throw new Error('OpenAI-compatible provider requires a base URL');
+      return createOpenAiProvider({ baseUrl: config.baseUrl, model: config.model || 'gpt-4o-mini', apiKey: config.apiKey });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown discovery provider: ${config.kind}`);
+  }
+};
+
+// Providers that can be built from the environment; the first entry is the default
+export const getConfiguredProviders = (): DiscoveryProvider[] => {
+  const configs: DiscoveryProviderConfig[] = [
+    { kind: 'gemini', apiKey: process.env.API_KEY, model: process.env.GEMINI_MODEL || undefined },
+    { kind: 'fixture' },
+  ];
+  if (process.env.OPENAI_BASE_URL) {
+    configs.push({
+      kind: 'openai',
+      baseUrl: process.env.OPENAI_BASE_URL,
+      model: process.env.OPENAI_MODEL || undefined,
+      apiKey: process.env.OPENAI_API_KEY || undefined,
+    });
+  }
+
+  const preferred = process.env.DISCOVERY_PROVIDER;
+  configs.sort((a, b) => Number(b.kind === preferred) - Number(a.kind === preferred));
+  return configs.map(createDiscoveryProvider);
+};
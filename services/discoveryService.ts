@@ -0,0 +1,58 @@
+import { DiscoveryProvider, GamblingSite, ValidationIssue } from "../types";
+import { getInitialStatus } from "./reviewQueue";
+import { validateDiscoveryItems } from "./responseValidator";
+import { AllowlistMatcher, AllowlistedSite, partitionAllowlisted } from "./allowlist";
+import { EnrichmentOptions, enrichSites } from "./domainIntel";
+import { DEFAULT_REGION_ID, getRegionProfile } from "./regionProfiles";
+
+export interface DiscoveryOutcome {
+  sites: GamblingSite[];
+  sources: string[];
+  logs: string[];
+  issues: ValidationIssue[];
+  // Number of items the model returned before validation
+  received: number;
+  // Valid candidates dropped because the allowlist protects them
+  blocked: AllowlistedSite[];
+}
+
+export const performDiscovery = async (
+  query: string, 
+  knownPatterns: string[],
+  provider: DiscoveryProvider,
+  allowlist?: AllowlistMatcher,
+  enrichment?: EnrichmentOptions,
+  regionId: string = DEFAULT_REGION_ID
+): Promise<DiscoveryOutcome> => {
+  const region = getRegionProfile(regionId);
+  const result = await provider.discover(query, knownPatterns, region.id);
+  const { sites: validated, issues } = validateDiscoveryItems(result.sites, region);
+
+  const timestamp = new Date().toISOString();
+  const candidates: GamblingSite[] = validated.map(site => ({
+    id: Math.random().toString(36).substr(2, 9),
+    site_name: site.site_name,
+    normalized_name: site.normalized_name,
+    first_seen: timestamp,
+    last_seen: timestamp,
+    confidence_score: site.confidence_score,
+    status: getInitialStatus(site.confidence_score),
+    source_count: site.sources.length,
+    sources: site.sources,
+    review_history: [],
+    evidence: site.evidence,
+    regions: [region.id]
+  }));
+
+  const { allowed, blocked } = allowlist ? partitionAllowlisted(candidates, allowlist) : { allowed: candidates, blocked: [] };
+  const { sites, logs: enrichmentLogs } = enrichment ? await enrichSites(allowed, enrichment) : { sites: allowed, logs: [] };
+
+  return {
+    sites,
+    sources: result.sources,
+    logs: [...result.logs, ...enrichmentLogs],
+    issues: [...result.issues, ...issues],
+    received: result.sites.length,
+    blocked,
+  };
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { GamblingSite, SiteStatus } from "../types";
+import {
+  createDomainBlocklist,
+  createFixtureResolver,
+  enrichSite,
+  enrichSites,
+  parseBlocklist,
+  parseDomain,
+} from "./domainIntel";
+import { BLOCKLIST_FIXTURE } from "./fixtures/domainFixtures";
+
+const makeSite = (siteName: string, overrides: Partial<GamblingSite> = {}): GamblingSite => ({
+  id: siteName,
+  site_name: siteName,
+  normalized_name: siteName.toLowerCase().replace(/[^a-z0-9]/g, ''),
+  first_seen: '2026-01-01T00:00:00.000Z',
+  last_seen: '2026-01-01T00:00:00.000Z',
+  confidence_score: 0.5,
+  status: SiteStatus.FLAGGED,
+  source_count: 1,
+  sources: ['https://fixtures.local/chat/stream-42'],
+  review_history: [],
+  evidence: [],
+  ...overrides,
+});
+
+const blocklist = createDomainBlocklist(parseBlocklist(BLOCKLIST_FIXTURE), 'fixture list');
+const resolver = createFixtureResolver();
+
+describe('parseDomain', () => {
+  it('finds the registrable domain in obfuscated names', () => {
+    expect(parseDomain('MaxWin777.com')).toEqual({ host: 'maxwin777.com', domain: 'maxwin777.com', tld: 'com' });
+    expect(parseDomain('rajabet [.] vip')).toMatchObject({ domain: 'rajabet.vip' });
+    expect(parseDomain('login.hoki4d.co.id')).toEqual({ host: 'login.hoki4d.co.id', domain: 'hoki4d.co.id', tld: 'co.id' });
+  });
+
+  it('ignores names without a known top-level domain', () => {
+    expect(parseDomain('Gacor88')).toBeNull();
+    expect(parseDomain('slot.gacorr')).toBeNull();
+  });
+});
+
+describe('domain blocklist', () => {
+  it('reads plain, hosts-file and wildcard entries from the fixture feed', () => {
+    expect(parseBlocklist(BLOCKLIST_FIXTURE)).toEqual(['maxwin777.com', 'rajabet-login.xyz', 'naga303.net', 'hoki4d.co.id']);
+  });
+
+  it('covers subdomains of listed domains', () => {
+    expect(blocklist.has('m.naga303.net')).toBe(true);
+    expect(blocklist.has('naga303.net.example')).toBe(false);
+  });
+});
+
+describe('enrichSite', () => {
+  it('raises confidence for blocklisted domains and moves flagged entries out of review', async () => {
+    const enriched = await enrichSite(makeSite('MaxWin777.com'), { blocklist, resolver });
+    expect(enriched.confidence_score).toBeCloseTo(0.8);
+    expect(enriched.status).toBe(SiteStatus.ACTIVE);
+    expect(enriched.domain_intel).toMatchObject({
+      domain: 'maxwin777.com',
+      blocklisted: true,
+      blocklist_label: 'fixture list',
+      redirect_chain: ['maxwin777.com', 'maxwin777-alt.site'],
+      aliases: ['mw777.vip'],
+      live: true,
+    });
+  });
+
+  it('counts redirects into a blocklisted domain', async () => {
+    const enriched = await enrichSite(makeSite('rajabet.vip', { confidence_score: 0.6 }), { blocklist, resolver });
+    expect(enriched.confidence_score).toBeCloseTo(0.8);
+    expect(enriched.domain_intel?.signals).toContain('redirects to blocklisted rajabet-login.xyz');
+  });
+
+  it('replaces the previous adjustment instead of stacking on re-checks', async () => {
+    const once = await enrichSite(makeSite('rajabet.vip', { confidence_score: 0.6 }), { blocklist, resolver });
+    const twice = await enrichSite(once, { blocklist, resolver });
+    expect(twice.confidence_score).toBeCloseTo(once.confidence_score);
+  });
+
+  it('never demotes active entries, even without a recorded review', async () => {
+    const active = makeSite('naga303.net', { confidence_score: 0.75, status: SiteStatus.ACTIVE });
+    const enriched = await enrichSite(active, { resolver });
+    expect(enriched.confidence_score).toBeCloseTo(0.6);
+    expect(enriched.status).toBe(SiteStatus.ACTIVE);
+  });
+
+  it('keeps moderator decisions', async () => {
+    const rejected = makeSite('MaxWin777.com', { status: SiteStatus.FALSE_POSITIVE });
+    expect((await enrichSite(rejected, { blocklist, resolver })).status).toBe(SiteStatus.FALSE_POSITIVE);
+
+    const reviewed = makeSite('MaxWin777.com', {
+      review_history: [{ verdict: 'rejected', reviewer: 'mod', timestamp: '2026-01-02T00:00:00.000Z' }],
+    });
+    expect((await enrichSite(reviewed, { blocklist, resolver })).status).toBe(SiteStatus.FLAGGED);
+  });
+
+  it('leaves names without a domain untouched', async () => {
+    const site = makeSite('Gacor88');
+    expect(await enrichSite(site, { blocklist, resolver })).toBe(site);
+  });
+});
+
+describe('enrichSites', () => {
+  it('logs the signals found and keeps entries whose lookup failed', async () => {
+    const failing = {
+      id: 'failing',
+      resolve: async (domain: string) => {
+        if (domain === 'rajabet.vip') throw new Error('lookup timed out');
+        return resolver.resolve(domain);
+      },
+    };
+    const sites = [makeSite('MaxWin777.com'), makeSite('rajabet.vip'), makeSite('Gacor88')];
+    const { sites: enriched, logs } = await enrichSites(sites, { blocklist, resolver: failing });
+
+    expect(enriched).toHaveLength(3);
+    expect(enriched[1]).toBe(sites[1]);
+    expect(logs).toEqual([
+      expect.stringContaining('Domain intel for "maxwin777com" (maxwin777.com): listed in fixture list'),
+      'Domain enrichment failed for "rajabetvip": lookup timed out',
+    ]);
+  });
+});
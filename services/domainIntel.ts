@@ -0,0 +1,202 @@
+import { DomainIntel, DomainResolution, DomainResolver, GamblingSite, SiteStatus } from "../types";
+import { COMMON_TLDS } from "./keywordNormalizer";
+import { getInitialStatus } from "./reviewQueue";
+import { RESOLVER_FIXTURES } from "./fixtures/domainFixtures";
+
+export const BLOCKLIST_META_KEY = 'domainBlocklist';
+
+// Evidence weights applied on top of the model's confidence
+const BLOCKLIST_BOOST = 0.3;
+const REDIRECT_BOOST = 0.2;
+const ALIAS_BOOST = 0.1;
+const UNRESOLVED_PENALTY = 0.15;
+
+const KNOWN_TLDS = new Set([
+  ...COMMON_TLDS,
+  'win', 'casino', 'games', 'fun', 'shop', 'store', 'icu', 'today', 'world', 'space', 'website', 'cloud', 'link',
+  'click', 'app', 'dev', 'in', 'us', 'tv', 'ws', 'la', 'to', 'sg', 'my', 'ph', 'th', 'kh', 'vn', 'uk', 'au', 'br',
+]);
+
+// Two-label public suffixes common in the region; the registrable domain is one label above them
+const SECOND_LEVEL_SUFFIXES = new Set([
+  'co.id', 'or.id', 'web.id', 'my.id', 'biz.id', 'ac.id', 'sch.id', 'net.id', 'go.id',
+  'com.sg', 'com.my', 'com.ph', 'co.th', 'com.kh', 'com.vn', 'co.uk', 'com.au', 'com.br',
+]);
+
+const DOMAIN_PATTERN = /(?:https?:\/\/)?((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,24})(?=[/:?#\s]|$)/;
+
+export interface ParsedDomain {
+  host: string;
+  domain: string;
+  tld: string;
+}
+
+export interface DomainBlocklist {
+  label: string;
+  size: number;
+  has(host: string): boolean;
+}
+
+export interface StoredBlocklist {
+  label: string;
+  domains: string[];
+  loaded_at: string;
+}
+
+export interface EnrichmentOptions {
+  blocklist?: DomainBlocklist;
+  resolver?: DomainResolver;
+}
+
+export interface EnrichmentOutcome {
+  sites: GamblingSite[];
+  logs: string[];
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Finds a domain-like identifier in a site name, undoing "[.]", "(dot)" and spaced-out dots
+export const parseDomain = (raw: string): ParsedDomain | null => {
+  const text = raw
+    .toLowerCase()
+    .replace(/\s*(?:\[\.\]|\(\.\)|\[dot\]|\(dot\)|\s+dot\s+)\s*/g, '.')
+    .replace(/\s*\.\s*/g, '.');
+  const match = text.match(DOMAIN_PATTERN);
+  if (!match) return null;
+
+  const host = match[1].replace(/^www\./, '');
+  const labels = host.split('.');
+  const lastTwo = labels.slice(-2).join('.');
+  const suffix = labels.length > 2 && SECOND_LEVEL_SUFFIXES.has(lastTwo) ? lastTwo : labels[labels.length - 1];
+  if (!KNOWN_TLDS.has(labels[labels.length - 1])) return null;
+
+  const suffixLabels = suffix.split('.').length;
+  if (labels.length <= suffixLabels) return null;
+  return { host, domain: labels.slice(-(suffixLabels + 1)).join('.'), tld: suffix };
+};
+
+// Accepts plain domain lists (Trust+), hosts files and "*." wildcard entries; "#" and "!" start comments
+export const parseBlocklist = (content: string): string[] =>
+  Array.from(new Set(
+    content
+      .split(/\r?\n/)
+      .map(line => line.replace(/[#!].*$/, '').trim().toLowerCase())
+      .filter(Boolean)
+      .map(line => {
+        const parts = line.split(/\s+/);
+        return parts[parts.length - 1].replace(/^\*\./, '').replace(/^www\./, '').replace(/\.$/, '');
+      })
+      .filter(domain => /^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain))
+  ));
+
+export const createDomainBlocklist = (domains: string[], label: string): DomainBlocklist => {
+  const entries = new Set(domains);
+  return {
+    label,
+    size: entries.size,
+    // A listed domain also covers every subdomain under it
+    has(host) {
+      const labels = host.toLowerCase().split('.');
+      for (let i = 0; i < labels.length - 1; i++) {
+        if (entries.has(labels.slice(i).join('.'))) return true;
+      }
+      return false;
+    },
+  };
+};
+
+export const createStoredBlocklist = (content: string, label: string): StoredBlocklist => ({
+  label,
+  domains: parseBlocklist(content),
+  loaded_at: new Date().toISOString(),
+});
+
+export const restoreBlocklist = (stored: StoredBlocklist | null | undefined): DomainBlocklist | undefined =>
+  stored ? createDomainBlocklist(stored.domains, stored.label) : undefined;
+
+// Offline resolver answering from fixtures, so enrichment runs without network access
+export const createFixtureResolver = (fixtures: Record<string, DomainResolution> = RESOLVER_FIXTURES): DomainResolver => ({
+  id: 'fixture',
+  async resolve(domain) {
+    const fixture = fixtures[domain];
+    return fixture ? { ...fixture, redirect_chain: [...fixture.redirect_chain], aliases: [...fixture.aliases] } : null;
+  },
+});
+
+const percent = (delta: number) => `${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(0)}%`;
+
+export const enrichSite = async (site: GamblingSite, { blocklist, resolver }: EnrichmentOptions): Promise<GamblingSite> => {
+  const parsed = parseDomain(site.site_name);
+  if (!parsed) return site;
+
+  const signals: string[] = [];
+  let delta = 0;
+  const blocklisted = blocklist?.has(parsed.host) ?? false;
+  if (blocklisted) {
+    delta += BLOCKLIST_BOOST;
+    signals.push(`listed in ${blocklist!.label}`);
+  }
+
+  const resolution = resolver ? await resolver.resolve(parsed.domain) : null;
+  if (resolution) {
+    if (!resolution.live) {
+      delta -= UNRESOLVED_PENALTY;
+      signals.push('domain does not resolve');
+    }
+    const redirectTarget = resolution.redirect_chain.slice(1).find(host => blocklist?.has(host));
+    if (redirectTarget) {
+      delta += REDIRECT_BOOST;
+      signals.push(`redirects to blocklisted ${redirectTarget}`);
+    } else if (resolution.redirect_chain.length > 1) {
+      signals.push(`redirects to ${resolution.redirect_chain[resolution.redirect_chain.length - 1]}`);
+    }
+    const listedAlias = resolution.aliases.find(alias => blocklist?.has(alias));
+    if (listedAlias) {
+      delta += ALIAS_BOOST;
+      signals.push(`alias of blocklisted ${listedAlias}`);
+    }
+  }
+
+  // Re-enrichment replaces the previous adjustment instead of stacking on top of it
+  const base = clamp01(site.confidence_score - (site.domain_intel?.confidence_delta ?? 0));
+  const confidence = clamp01(base + delta);
+  const intel: DomainIntel = {
+    domain: parsed.domain,
+    tld: parsed.tld,
+    blocklisted,
+    ...(blocklisted ? { blocklist_label: blocklist!.label } : {}),
+    redirect_chain: resolution?.redirect_chain ?? site.domain_intel?.redirect_chain ?? [],
+    aliases: resolution?.aliases ?? site.domain_intel?.aliases ?? [],
+    ...(resolution ? { live: resolution.live } : site.domain_intel?.live !== undefined ? { live: site.domain_intel.live } : {}),
+    signals,
+    confidence_delta: confidence - base,
+    checked_at: new Date().toISOString(),
+  };
+
+  return {
+    ...site,
+    confidence_score: confidence,
+    // Only entries still awaiting review can leave the queue; active entries may have been set by a moderator or an import
+    status: site.status === SiteStatus.FLAGGED && site.review_history.length === 0 ? getInitialStatus(confidence) : site.status,
+    domain_intel: intel,
+  };
+};
+
+export const enrichSites = async (sites: GamblingSite[], options: EnrichmentOptions): Promise<EnrichmentOutcome> => {
+  const logs: string[] = [];
+  const enriched: GamblingSite[] = [];
+  for (const site of sites) {
+    try {
+      const next = await enrichSite(site, options);
+      const intel = next.domain_intel;
+      if (intel && intel !== site.domain_intel && intel.signals.length > 0) {
+        logs.push(`Domain intel for "${site.normalized_name}" (${intel.domain}): ${intel.signals.join(', ')}; confidence ${percent(intel.confidence_delta)}.`);
+      }
+      enriched.push(next);
+    } catch (error) {
+      logs.push(`Domain enrichment failed for "${site.normalized_name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      enriched.push(site);
+    }
+  }
+  return { sites: enriched, logs };
+};
@@ -0,0 +1,95 @@
+import { GamblingSite, SiteStatus } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExportProfile {
+  id: string;
+  label: string;
+  description: string;
+  minConfidence: number;
+  minSourceCount: number;
+  // null means entries never age out
+  maxAgeDays: number | null;
+  statuses: SiteStatus[];
+}
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'strict',
+    label: 'Strict',
+    description: 'Confirmed, recently seen brands backed by at least two sources; an ungrounded model counts as one source',
+    minConfidence: 0.8,
+    minSourceCount: 2,
+    maxAgeDays: 30,
+    statuses: [SiteStatus.ACTIVE],
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    description: 'Likely brands seen in the last quarter with at least one source: a search result, chat stream, API report or the model that named them',
+    minConfidence: 0.5,
+    minSourceCount: 1,
+    maxAgeDays: 90,
+    statuses: [SiteStatus.ACTIVE],
+  },
+  {
+    id: 'aggressive',
+    label: 'Aggressive',
+    description: 'Everything not marked false positive, including entries pending review',
+    minConfidence: 0.2,
+    minSourceCount: 0,
+    maxAgeDays: null,
+    statuses: [SiteStatus.ACTIVE, SiteStatus.FLAGGED],
+  },
+];
+
+export const DEFAULT_EXPORT_PROFILE_ID = 'balanced';
+
+export const getExportProfile = (id: string): ExportProfile => {
+  const profile = EXPORT_PROFILES.find(p => p.id === id);
+  if (!profile) throw new Error(`Unknown export profile: ${id}`);
+  return profile;
+};
+
+// Returns why a site is left out of an export under the given profile, or null if it is included
+export const getExclusionReason = (site: GamblingSite, profile: ExportProfile, now: Date = new Date()): string | null => {
+  if (!profile.statuses.includes(site.status)) {
+    return `status ${site.status}`;
+  }
+  if (site.confidence_score < profile.minConfidence) {
+    return `confidence ${(site.confidence_score * 100).toFixed(0)}% < ${(profile.minConfidence * 100).toFixed(0)}%`;
+  }
+  if (site.source_count < profile.minSourceCount) {
+    return `${site.source_count} source(s) < ${profile.minSourceCount}`;
+  }
+  if (profile.maxAgeDays !== null) {
+    const ageDays = (now.getTime() - new Date(site.last_seen).getTime()) / DAY_MS;
+    if (ageDays > profile.maxAgeDays) {
+      return `last seen ${Math.floor(ageDays)}d ago > ${profile.maxAgeDays}d`;
+    }
+  }
+  return null;
+};
+
+export const applyExportProfile = (sites: GamblingSite[], profile: ExportProfile, now: Date = new Date()): GamblingSite[] =>
+  sites.filter(site => getExclusionReason(site, profile, now) === null);
+
+export interface ProfileDiff {
+  added: GamblingSite[];
+  dropped: { site: GamblingSite; reason: string }[];
+}
+
+// What switching from `base` to `target` would add to or drop from the exported list
+export const diffProfiles = (sites: GamblingSite[], base: ExportProfile, target: ExportProfile, now: Date = new Date()): ProfileDiff => {
+  const added: GamblingSite[] = [];
+  const dropped: { site: GamblingSite; reason: string }[] = [];
+
+  sites.forEach(site => {
+    const inBase = getExclusionReason(site, base, now) === null;
+    const targetReason = getExclusionReason(site, target, now);
+    if (!inBase && targetReason === null) added.push(site);
+    if (inBase && targetReason !== null) dropped.push({ site, reason: targetReason });
+  });
+
+  return { added, dropped };
+};
@@ -0,0 +1,55 @@
+import { ExportChunk } from "../../types";
+
+export interface ChunkLimits {
+  separator: string;
+  maxItems?: number;
+  maxChars?: number;
+}
+
+// Greedily packs keywords into groups that respect both the item and the character limit
+export const chunkKeywords = (keywords: string[], { separator, maxItems = Infinity, maxChars = Infinity }: ChunkLimits): string[][] => {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+
+  keywords.forEach(keyword => {
+    const added = current.length === 0 ? keyword.length : separator.length + keyword.length;
+    if (current.length > 0 && (current.length >= maxItems || currentChars + added > maxChars)) {
+      groups.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(keyword);
+    currentChars += current.length === 1 ? keyword.length : added;
+  });
+
+  if (current.length > 0) groups.push(current);
+  return groups;
+};
+
+export const toChunks = <T>(
+  groups: T[][],
+  baseName: string,
+  extension: string,
+  render: (group: T[]) => string,
+  countOf: (group: T[]) => number = group => group.length
+): ExportChunk[] =>
+  groups.map((group, i) => ({
+    filename: groups.length === 1 ? `${baseName}.${extension}` : `${baseName}_part${i + 1}of${groups.length}.${extension}`,
+    content: render(group),
+    count: countOf(group),
+  }));
+
+// Drops keywords a platform would reject and explains why in a warning
+export const filterByLength = (keywords: string[], min: number, max: number, platform: string) => {
+  const valid = keywords.filter(k => k.length >= min && k.length <= max);
+  const warnings: string[] = [];
+  const rejected = keywords.length - valid.length;
+  if (rejected > 0) {
+    warnings.push(`${rejected} keyword(s) skipped: ${platform} accepts ${min}-${max} characters per entry.`);
+  }
+  return { valid, warnings };
+};
+
+export const chunkWarning = (groups: string[][], platform: string, unit: string): string[] =>
+  groups.length > 1 ? [`List exceeds ${platform} limits; split into ${groups.length} ${unit}.`] : [];
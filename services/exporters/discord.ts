@@ -0,0 +1,53 @@
+import { ExportFormatter } from "../../types";
+import { chunkKeywords, filterByLength, toChunks } from "./chunking";
+
+// Discord AutoMod keyword rules: 1000 keywords per rule, 60 characters per keyword, 6 keyword rules per guild
+const KEYWORDS_PER_RULE = 1000;
+const MAX_KEYWORD_LENGTH = 60;
+const KEYWORD_RULES_PER_GUILD = 6;
+
+const KEYWORD_TRIGGER = 1;
+const MESSAGE_SEND_EVENT = 1;
+const BLOCK_MESSAGE_ACTION = 1;
+
+export const discordFormatter: ExportFormatter = {
+  id: 'discord',
+  label: 'Discord AutoMod rules (JSON)',
+  extension: 'json',
+  mimeType: 'application/json',
+  format(keywords, baseName) {
+    // Discord matches whole words unless the keyword is wrapped in "*"
+    const entries = Array.from(new Set(keywords.map(k => (k.includes(' ') ? k : `*${k}*`))));
+    const { valid, warnings } = filterByLength(entries, 1, MAX_KEYWORD_LENGTH, 'Discord AutoMod');
+    const groups = chunkKeywords(valid, { separator: '', maxItems: KEYWORDS_PER_RULE });
+
+    const rules = groups.map((group, i) => ({
+      name: groups.length === 1 ? 'GamblShield' : `GamblShield ${i + 1}/${groups.length}`,
+      event_type: MESSAGE_SEND_EVENT,
+      trigger_type: KEYWORD_TRIGGER,
+      trigger_metadata: { keyword_filter: group },
+      actions: [{ type: BLOCK_MESSAGE_ACTION }],
+      enabled: true,
+    }));
+
+    // Each file holds at most one guild's worth of keyword rules
+    const ruleSets: (typeof rules)[] = [];
+    for (let i = 0; i < rules.length; i += KEYWORD_RULES_PER_GUILD) {
+      ruleSets.push(rules.slice(i, i + KEYWORD_RULES_PER_GUILD));
+    }
+    if (ruleSets.length > 1) {
+      warnings.push(`List needs ${rules.length} rules; Discord allows ${KEYWORD_RULES_PER_GUILD} keyword rules per guild, split into ${ruleSets.length} files.`);
+    }
+
+    return {
+      chunks: toChunks(
+        ruleSets,
+        baseName,
+        this.extension,
+        set => JSON.stringify(set, null, 2),
+        set => set.reduce((sum, rule) => sum + rule.trigger_metadata.keyword_filter.length, 0)
+      ),
+      warnings,
+    };
+  },
+};
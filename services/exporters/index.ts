@@ -0,0 +1,98 @@
+import { ExportFormatter, ExportResult, GamblingSite, SiteStatus } from "../../types";
+import { generateVariants } from "../keywordNormalizer";
+import { ExportProfile, applyExportProfile } from "../exportPolicy";
+import { AllowlistMatcher, partitionAllowlisted } from "../allowlist";
+import { clusterBrandFamilies, getCollapsedKeyword } from "../brandFamilies";
+import { isSiteInRegions } from "../regionProfiles";
+import { txtFormatter } from "./txt";
+import { youtubeFormatter } from "./youtube";
+import { twitchFormatter } from "./twitch";
+import { nightbotFormatter } from "./nightbot";
+import { streamElementsFormatter } from "./streamelements";
+import { discordFormatter } from "./discord";
+import { regexFormatter } from "./regex";
+
+export const EXPORT_FORMATTERS: ExportFormatter[] = [
+  txtFormatter,
+  youtubeFormatter,
+  twitchFormatter,
+  nightbotFormatter,
+  streamElementsFormatter,
+  discordFormatter,
+  regexFormatter,
+];
+
+export const getExportFormatter = (id: string): ExportFormatter => {
+  const formatter = EXPORT_FORMATTERS.find(f => f.id === id);
+  if (!formatter) throw new Error(`Unknown export format: ${id}`);
+  return formatter;
+};
+
+export interface ExportOptions {
+  includeVariants?: boolean;
+  // Without a profile every entry not marked false positive is exported
+  profile?: ExportProfile;
+  // Allowlisted entries and variants never ship, whatever their status
+  allowlist?: AllowlistMatcher;
+  // Replace the members of each brand family with the family's shared root
+  collapseFamilies?: boolean;
+  // Only entries found by one of these region profiles; every region when omitted
+  regions?: string[];
+}
+
+const MAX_LISTED_REASONS = 5;
+
+const getProfileSites = (sites: GamblingSite[], { profile, regions }: ExportOptions): GamblingSite[] => {
+  const inRegion = regions ? sites.filter(site => isSiteInRegions(site, regions)) : sites;
+  return profile ? applyExportProfile(inRegion, profile) : inRegion.filter(s => s.status !== SiteStatus.FALSE_POSITIVE);
+};
+
+export const getExportedSites = (sites: GamblingSite[], options: ExportOptions = {}): GamblingSite[] => {
+  const { allowlist } = options;
+  const selected = getProfileSites(sites, options);
+  return allowlist ? partitionAllowlisted(selected, allowlist).allowed : selected;
+};
+
+const isAllowed = (keyword: string, allowlist?: AllowlistMatcher) => !allowlist || allowlist.check(keyword) === null;
+
+// Maps each brand family member to its collapsed keyword; keywords the allowlist protects leave the member as is
+const getFamilyRoots = (sites: GamblingSite[], allowlist?: AllowlistMatcher): Map<string, string> => {
+  const roots = new Map<string, string>();
+  clusterBrandFamilies(sites).forEach(family => family.members.forEach(site => {
+    const keyword = getCollapsedKeyword(family, site);
+    if (keyword && keyword !== site.normalized_name && isAllowed(keyword, allowlist)) roots.set(site.id, keyword);
+  }));
+  return roots;
+};
+
+export const getExportKeywords = (sites: GamblingSite[], options: ExportOptions = {}): string[] => {
+  const exported = getExportedSites(sites, options);
+  const roots = options.collapseFamilies ? getFamilyRoots(exported, options.allowlist) : new Map<string, string>();
+  return Array.from(new Set(
+    exported
+      .map(s => roots.get(s.id) ?? s.normalized_name)
+      .flatMap(keyword => options.includeVariants ? generateVariants(keyword) : [keyword])
+      .filter(keyword => isAllowed(keyword, options.allowlist))
+  ));
+};
+
+const getCollapseWarning = (sites: GamblingSite[], options: ExportOptions): string[] => {
+  const roots = getFamilyRoots(getExportedSites(sites, options), options.allowlist);
+  const rules = new Set(roots.values()).size;
+  return rules > 0 ? [`Collapsed ${roots.size} brand family members into ${rules} family rule${rules === 1 ? '' : 's'}.`] : [];
+};
+
+export const buildExport = (sites: GamblingSite[], formatId: string, options: ExportOptions = {}): ExportResult => {
+  const formatter = getExportFormatter(formatId);
+  const regionPart = options.regions ? `${options.regions.join('-')}_` : '';
+  const baseName = `gambling_filter_${formatter.id}_${regionPart}${new Date().toISOString().split('T')[0]}`;
+  const formatted = formatter.format(getExportKeywords(sites, options), baseName);
+  const result = options.collapseFamilies ? { ...formatted, warnings: [...formatted.warnings, ...getCollapseWarning(sites, options)] } : formatted;
+  if (!options.allowlist) return result;
+
+  const { blocked } = partitionAllowlisted(getProfileSites(sites, options), options.allowlist);
+  if (blocked.length === 0) return result;
+  const listed = blocked.slice(0, MAX_LISTED_REASONS).map(({ site, reason }) => `${site.normalized_name} (${reason})`).join('; ');
+  const more = blocked.length > MAX_LISTED_REASONS ? ` and ${blocked.length - MAX_LISTED_REASONS} more` : '';
+  return { ...result, warnings: [...result.warnings, `Allowlist kept ${blocked.length} entr${blocked.length === 1 ? 'y' : 'ies'} out of the export: ${listed}${more}.`] };
+};
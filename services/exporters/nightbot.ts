@@ -0,0 +1,22 @@
+import { ExportFormatter } from "../../types";
+import { chunkKeywords, chunkWarning, filterByLength, toChunks } from "./chunking";
+
+// Nightbot Spam Protection > Blacklist Words/Phrases: one phrase per line, "*" wildcards allowed
+const NIGHTBOT_BLACKLIST_CHAR_LIMIT = 10000;
+const MAX_PHRASE_LENGTH = 200;
+
+export const nightbotFormatter: ExportFormatter = {
+  id: 'nightbot',
+  label: 'Nightbot blacklist',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format(keywords, baseName) {
+    const phrases = Array.from(new Set(keywords.map(k => (k.includes(' ') ? k : `*${k}*`))));
+    const { valid, warnings } = filterByLength(phrases, 1, MAX_PHRASE_LENGTH, 'Nightbot');
+    const groups = chunkKeywords(valid, { separator: '\n', maxChars: NIGHTBOT_BLACKLIST_CHAR_LIMIT });
+    return {
+      chunks: toChunks(groups, baseName, this.extension, group => group.join('\n')),
+      warnings: [...warnings, ...chunkWarning(groups, 'Nightbot blacklist field', 'files')],
+    };
+  },
+};
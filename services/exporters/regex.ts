@@ -0,0 +1,43 @@
+import { ExportFormatter } from "../../types";
+import { chunkKeywords, chunkWarning, filterByLength, toChunks } from "./chunking";
+
+const PATTERNS_PER_FILE = 1000;
+const MAX_PATTERN_LENGTH = 1024;
+
+// Character classes covering the leetspeak spellings folded by the keyword normalizer
+const LEET_CLASSES: Record<string, string> = {
+  a: '[a4@]',
+  e: '[e3€]',
+  i: '[i1!|l]',
+  o: '[o0]',
+  s: '[s5$]',
+  t: '[t7]',
+};
+const SEPARATOR = '[\\s._\\-]*';
+
+const escapeRegex = (char: string) => char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const keywordToPattern = (keyword: string): string =>
+  keyword
+    .toLowerCase()
+    .split('')
+    .filter(char => !/[\s._-]/.test(char))
+    .map(char => LEET_CLASSES[char] ?? escapeRegex(char))
+    .join(SEPARATOR);
+
+// One case-insensitive pattern per line for custom moderation bots
+export const regexFormatter: ExportFormatter = {
+  id: 'regex',
+  label: 'Regex list (custom bots)',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format(keywords, baseName) {
+    const patterns = Array.from(new Set(keywords.map(keywordToPattern).filter(Boolean)));
+    const { valid, warnings } = filterByLength(patterns, 1, MAX_PATTERN_LENGTH, 'Regex export');
+    const groups = chunkKeywords(valid, { separator: '\n', maxItems: PATTERNS_PER_FILE });
+    return {
+      chunks: toChunks(groups, baseName, this.extension, group => group.join('\n')),
+      warnings: [...warnings, ...chunkWarning(groups, 'regex list', 'files')],
+    };
+  },
+};
@@ -0,0 +1,21 @@
+import { ExportFormatter } from "../../types";
+import { chunkKeywords, chunkWarning, filterByLength, toChunks } from "./chunking";
+
+// StreamElements Chat Bot > Spam filters > Banned phrases: one phrase per line
+const BANNED_PHRASES_PER_LIST = 500;
+const MAX_PHRASE_LENGTH = 100;
+
+export const streamElementsFormatter: ExportFormatter = {
+  id: 'streamelements',
+  label: 'StreamElements banned phrases',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format(keywords, baseName) {
+    const { valid, warnings } = filterByLength(keywords, 1, MAX_PHRASE_LENGTH, 'StreamElements');
+    const groups = chunkKeywords(valid, { separator: '\n', maxItems: BANNED_PHRASES_PER_LIST });
+    return {
+      chunks: toChunks(groups, baseName, this.extension, group => group.join('\n')),
+      warnings: [...warnings, ...chunkWarning(groups, 'StreamElements banned phrase list', 'files')],
+    };
+  },
+};
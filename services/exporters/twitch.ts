@@ -0,0 +1,24 @@
+import { ExportFormatter } from "../../types";
+import { chunkKeywords, chunkWarning, filterByLength, toChunks } from "./chunking";
+
+// Twitch AutoMod blocked terms: 2-500 characters each, a trailing "*" matches any continuation
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 500;
+const TERMS_PER_FILE = 1000;
+
+export const twitchFormatter: ExportFormatter = {
+  id: 'twitch',
+  label: 'Twitch AutoMod blocked terms',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format(keywords, baseName) {
+    // Wildcard suffix so mirror names like "gacor88vip" are caught by "gacor88*"
+    const terms = Array.from(new Set(keywords.map(k => (k.includes(' ') ? k : `${k}*`))));
+    const { valid, warnings } = filterByLength(terms, MIN_TERM_LENGTH, MAX_TERM_LENGTH, 'Twitch AutoMod');
+    const groups = chunkKeywords(valid, { separator: '\n', maxItems: TERMS_PER_FILE });
+    return {
+      chunks: toChunks(groups, baseName, this.extension, group => group.join('\n')),
+      warnings: [...warnings, ...chunkWarning(groups, 'Twitch bulk paste', 'files')],
+    };
+  },
+};
@@ -0,0 +1,16 @@
+import { ExportFormatter } from "../../types";
+import { toChunks } from "./chunking";
+
+// Space-separated list, the original GamblShield export
+export const txtFormatter: ExportFormatter = {
+  id: 'txt',
+  label: 'Plain TXT (space separated)',
+  extension: 'txt',
+  mimeType: 'text/plain',
+  format(keywords, baseName) {
+    return {
+      chunks: toChunks([keywords], baseName, this.extension, group => group.join(' ')),
+      warnings: [],
+    };
+  },
+};
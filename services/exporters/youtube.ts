@@ -0,0 +1,22 @@
+import { ExportFormatter } from "../../types";
+import { chunkKeywords, chunkWarning, filterByLength, toChunks } from "./chunking";
+
+// YouTube Studio > Settings > Community > Blocked words takes one comma-separated field
+export const YOUTUBE_BLOCKED_WORDS_CHAR_LIMIT = 500;
+const SEPARATOR = ',';
+
+export const youtubeFormatter: ExportFormatter = {
+  id: 'youtube',
+  label: 'YouTube blocked words (CSV)',
+  extension: 'csv',
+  mimeType: 'text/csv',
+  format(keywords, baseName) {
+    // Commas would break the field apart, so entries containing them are unusable
+    const { valid, warnings } = filterByLength(keywords.filter(k => !k.includes(SEPARATOR)), 1, YOUTUBE_BLOCKED_WORDS_CHAR_LIMIT, 'YouTube');
+    const groups = chunkKeywords(valid, { separator: SEPARATOR, maxChars: YOUTUBE_BLOCKED_WORDS_CHAR_LIMIT });
+    return {
+      chunks: toChunks(groups, baseName, this.extension, group => group.join(SEPARATOR)),
+      warnings: [...warnings, ...chunkWarning(groups, 'YouTube blocked words field', 'files')],
+    };
+  },
+};
@@ -0,0 +1,31 @@
+export interface DiscoveryFixture {
+  site_name: string;
+  normalized_name: string;
+  confidence_score: number;
+  sources: string[];
+  // Region profile the fixture answers for; untagged fixtures belong to the default region
+  region?: string;
+}
+
+export const DISCOVERY_FIXTURES: DiscoveryFixture[] = [
+  { site_name: 'Gacor88', normalized_name: 'gacor88', confidence_score: 0.94, sources: ['https://fixtures.local/forum/slot-gacor', 'https://fixtures.local/news/judi-online'] },
+  { site_name: 'Gacor88VIP', normalized_name: 'gacor88vip', confidence_score: 0.81, sources: ['https://fixtures.local/forum/slot-gacor'] },
+  { site_name: 'MaxWin777.com', normalized_name: 'maxwin777com', confidence_score: 0.88, sources: ['https://fixtures.local/chat/stream-42'] },
+  { site_name: 'Zeus138', normalized_name: 'zeus138', confidence_score: 0.9, sources: ['https://fixtures.local/news/judi-online', 'https://fixtures.local/report/kominfo'] },
+  { site_name: 'SlotPetir99', normalized_name: 'slotpetir99', confidence_score: 0.72, sources: ['https://fixtures.local/chat/stream-17'] },
+  { site_name: 'Hoki4D', normalized_name: 'hoki4d', confidence_score: 0.86, sources: ['https://fixtures.local/report/kominfo'] },
+  { site_name: 'Mahjong Win', normalized_name: 'mahjongwin', confidence_score: 0.41, sources: ['https://fixtures.local/forum/mahjong'] },
+  { site_name: 'Naga303', normalized_name: 'naga303', confidence_score: 0.91, sources: ['https://fixtures.local/news/judi-online'] },
+  { site_name: 'RajaBet.vip', normalized_name: 'rajabetvip', confidence_score: 0.77, sources: ['https://fixtures.local/chat/stream-42', 'https://fixtures.local/forum/slot-gacor'] },
+  { site_name: 'Cuan123', normalized_name: 'cuan123', confidence_score: 0.63, sources: ['https://fixtures.local/chat/stream-17'] },
+  { site_name: 'Olympus1000', normalized_name: 'olympus1000', confidence_score: 0.58, sources: ['https://fixtures.local/forum/slot-gacor'] },
+  { site_name: 'Scatter Hitam', normalized_name: 'scatterhitam', confidence_score: 0.35, sources: ['https://fixtures.local/forum/mahjong'] },
+  { site_name: 'Mega888MY', normalized_name: 'mega888my', confidence_score: 0.89, sources: ['https://fixtures.local/my/forum/slot'], region: 'my' },
+  { site_name: 'Ace99Play', normalized_name: 'ace99play', confidence_score: 0.76, sources: ['https://fixtures.local/my/chat/stream-8'], region: 'my' },
+  { site_name: 'UFABET', normalized_name: 'ufabet', confidence_score: 0.93, sources: ['https://fixtures.local/th/forum/baccarat'], region: 'th' },
+  { site_name: 'PGSlot168.co.th', normalized_name: 'pgslot168', confidence_score: 0.8, sources: ['https://fixtures.local/th/chat/stream-3'], region: 'th' },
+  { site_name: 'VN88', normalized_name: 'vn88', confidence_score: 0.9, sources: ['https://fixtures.local/vn/news/nha-cai'], region: 'vn' },
+  { site_name: 'Nhà cái Kubet', normalized_name: 'nhacaikubet', confidence_score: 0.74, sources: ['https://fixtures.local/vn/forum/game-bai'], region: 'vn' },
+  { site_name: 'JiliBet PH', normalized_name: 'jilibetph', confidence_score: 0.82, sources: ['https://fixtures.local/ph/forum/casino'], region: 'ph' },
+  { site_name: 'Sabong777', normalized_name: 'sabong777', confidence_score: 0.71, sources: ['https://fixtures.local/ph/chat/stream-5'], region: 'ph' },
+];
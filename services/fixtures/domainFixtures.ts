@@ -0,0 +1,17 @@
+import { DomainResolution } from "../../types";
+
+// Excerpt in the plain one-domain-per-line format of the Trust+ (Kominfo) feed, with the
+// comment and hosts-file lines other feeds use, so parsing is exercised offline
+export const BLOCKLIST_FIXTURE = `# Fixture blocklist for offline runs
+maxwin777.com
+0.0.0.0 rajabet-login.xyz
+*.naga303.net
+! entries below come from user reports
+hoki4d.co.id
+`;
+
+export const RESOLVER_FIXTURES: Record<string, DomainResolution> = {
+  'maxwin777.com': { live: true, redirect_chain: ['maxwin777.com', 'maxwin777-alt.site'], aliases: ['mw777.vip'] },
+  'rajabet.vip': { live: true, redirect_chain: ['rajabet.vip', 'rajabet-login.xyz'], aliases: [] },
+  'naga303.net': { live: false, redirect_chain: [], aliases: [] },
+};
@@ -1,77 +1,68 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { SiteStatus, GamblingSite } from "../types";
+import { DiscoveryProvider } from "../types";
+import { buildDiscoveryPrompt } from "./discoveryPrompt";
+import { parseJsonResponse, getExtractedItems, isRecord } from "./responseValidator";
+import { attributeGrounding, GroundingChunk, GroundingSupport } from "./provenance";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model?: string;
+}
 
-export const performDiscovery = async (
-  query: string, 
-  knownPatterns: string[] = []
-): Promise<{ sites: GamblingSite[]; sources: string[] }> => {
-  
-  // Prepare context from known patterns to guide the model
-  const contextInstruction = knownPatterns.length > 0 
-    ? `\n\nCONTEXTUAL KNOWLEDGE: We already know these patterns: [${knownPatterns.slice(0, 20).join(', ')}]. 
-       Focus on finding NEW variations, different TLDs, or obfuscated versions of these, as well as entirely new platforms.`
-    : "";
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions): DiscoveryProvider => {
+  const ai = new GoogleGenAI({ apiKey });
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Search for and extract gambling website names and identifiers commonly seen in live stream chat spam or donation messages in Indonesia. 
-    Focus on specific brand names or domain-like strings (e.g., brandname.com, brandnamevip).
-    Current Query: ${query}${contextInstruction}
-    
-    Rules:
-    1. Extract the primary brand/site name.
-    2. Normalize it (lowercase, no symbols).
-    3. Assign a confidence score (0.0 - 1.0) based on how clearly it appears as a gambling platform.
-    4. Provide the current timestamp.`,
-    config: {
-      tools: [{ googleSearch: {} }],
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          extracted_sites: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                site_name: { type: Type.STRING },
-                normalized_name: { type: Type.STRING },
-                confidence_score: { type: Type.NUMBER },
-              },
-              required: ["site_name", "normalized_name", "confidence_score"]
-            }
+  return {
+    id: `gemini:${model}`,
+    label: `Gemini (${model})`,
+    async discover(query, knownPatterns, region) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildDiscoveryPrompt(query, knownPatterns, region),
+        config: {
+          tools: [{ googleSearch: {} }],
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              extracted_sites: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    site_name: { type: Type.STRING },
+                    normalized_name: { type: Type.STRING },
+                    confidence_score: { type: Type.NUMBER },
+                  },
+                  required: ["site_name", "normalized_name", "confidence_score"]
+                }
+              }
+            },
+            required: ["extracted_sites"]
           }
         },
-        required: ["extracted_sites"]
-      }
-    },
-  });
+      });
 
-  const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map(chunk => chunk.web?.uri).filter(Boolean) as string[] || [];
-  
-  let result;
-  try {
-    result = JSON.parse(response.text);
-  } catch (e) {
-    console.error("Failed to parse AI response", e);
-    result = { extracted_sites: [] };
-  }
+      const metadata = response.candidates?.[0]?.groundingMetadata;
+      // Keep positions aligned with groundingChunkIndices, even for chunks without a web URI
+      const chunks: GroundingChunk[] = (metadata?.groundingChunks ?? []).map(chunk => ({ uri: chunk.web?.uri ?? '', title: chunk.web?.title }));
+      const supports: GroundingSupport[] = (metadata?.groundingSupports ?? []).map(support => ({
+        text: support.segment?.text ?? '',
+        chunkIndices: support.groundingChunkIndices ?? [],
+      }));
+      const sources = chunks.map(chunk => chunk.uri).filter(Boolean);
+      const { payload, issues } = parseJsonResponse(response.text);
 
-  const timestamp = new Date().toISOString();
-  const sites: GamblingSite[] = result.extracted_sites.map((site: any) => ({
-    id: Math.random().toString(36).substr(2, 9),
-    site_name: site.site_name,
-    normalized_name: site.normalized_name.toLowerCase().replace(/[^a-z0-9]/g, ''),
-    first_seen: timestamp,
-    last_seen: timestamp,
-    confidence_score: site.confidence_score,
-    status: SiteStatus.ACTIVE,
-    source_count: Math.floor(Math.random() * 5) + 1,
-    sources: sources.slice(0, 3)
-  }));
-
-  return { sites, sources };
+      return {
+        // Items that are not objects are left for the validator to reject
+        sites: getExtractedItems(payload).map(item => (isRecord(item) ? attributeGrounding([item], chunks, supports, query)[0] : item)),
+        logs: [],
+        sources,
+        issues,
+        usage: { totalTokens: response.usageMetadata?.totalTokenCount ?? 0 },
+      };
+    },
+  };
 };
@@ -0,0 +1,179 @@
+// Spam-aware normalization for gambling brand keywords.
+// Folds the tricks chat spammers use (leetspeak, lookalike Unicode, spacing, zero-width
+// characters, emoji separators) back to a canonical lowercase [a-z0-9] signature.
+
+export const COMMON_TLDS = ['com', 'net', 'org', 'info', 'biz', 'xyz', 'vip', 'asia', 'site', 'online', 'live', 'club', 'bet', 'io', 'co', 'id', 'me', 'cc', 'top', 'pro'];
+
+// Affixes spammers bolt onto a brand to make mirror names (gacor88vip, gacor88login, ...).
+// Short TLDs like "bet" or "id" are left out because they collide with brand words once the dot is gone.
+export const BRAND_SUFFIXES = ['vip', 'login', 'link', 'alternatif', 'daftar', 'resmi', 'official', 'online', 'asia', 'com', 'net', 'org', 'info', 'xyz', 'site', 'club'];
+export const BRAND_PREFIXES = ['link', 'login', 'daftar', 'situs', 'agen', 'bandar'];
+
+// Region-specific additions to the shared TLD and affix lists
+export interface NormalizationRules {
+  tlds: string[];
+  prefixes: string[];
+  suffixes: string[];
+}
+
+const LEET_DIGITS: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't' };
+const LEET_SYMBOLS: Record<string, string> = { '@': 'a', '$': 's', '!': 'i', '|': 'l', '€': 'e', '£': 'l', '¡': 'i' };
+const LETTER_TO_LEET: Record<string, string> = { a: '4', o: '0', e: '3', i: '1', s: '5', t: '7' };
+
+// Digit groups that are part of the brand vocabulary and must not be read as leetspeak
+const PROTECTED_DIGIT_TOKENS = ['4d', '3d', '2d'];
+
+// Latin lookalikes from Cyrillic, Greek and small-capital blocks that NFKC leaves alone
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c',
+  'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ї': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'ԛ': 'q', 'ԝ': 'w',
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'ω': 'w', 'ɡ': 'g', 'ᴀ': 'a', 'ʙ': 'b', 'ᴄ': 'c', 'ᴅ': 'd', 'ᴇ': 'e', 'ɢ': 'g',
+  'ʜ': 'h', 'ɪ': 'i', 'ᴊ': 'j', 'ᴋ': 'k', 'ʟ': 'l', 'ᴍ': 'm', 'ɴ': 'n', 'ᴏ': 'o', 'ᴘ': 'p', 'ʀ': 'r',
+  'ꜱ': 's', 'ᴛ': 't', 'ᴜ': 'u', 'ᴠ': 'v', 'ᴡ': 'w', 'ʏ': 'y', 'ᴢ': 'z',
+};
+
+const INVISIBLE_CHARS = /[\u00AD\u034F\u061C\u115F\u1160\u17B4\u17B5\u180E\u200B-\u200F\u202A-\u202E\u2060-\u206F\u3164\uFE00-\uFE0F\uFEFF\uFFA0]/g;
+
+// Multi-label TLDs ("co.th") are listed first so they win over their last label
+const buildTldSuffix = (tlds: string[]) => {
+  const alternatives = [...tlds].sort((a, b) => b.split('.').length - a.split('.').length).map(tld => tld.replace(/\./g, '\\.'));
+  return new RegExp(`\\s*(?:\\.|\\[\\.\\]|\\(\\.\\)|\\[dot\\]|\\(dot\\)|\\s+dot\\s+)\\s*(${alternatives.join('|')})\\s*$`);
+};
+const TLD_SUFFIX = buildTldSuffix(COMMON_TLDS);
+const regionalTldSuffixes = new WeakMap<NormalizationRules, RegExp>();
+
+const getTldSuffix = (rules?: NormalizationRules): RegExp => {
+  if (!rules || rules.tlds.length === 0) return TLD_SUFFIX;
+  let suffix = regionalTldSuffixes.get(rules);
+  if (!suffix) {
+    suffix = buildTldSuffix([...rules.tlds, ...COMMON_TLDS]);
+    regionalTldSuffixes.set(rules, suffix);
+  }
+  return suffix;
+};
+
+const isLetter = (char: string | undefined) => !!char && char >= 'a' && char <= 'z';
+
+// Unicode-level folding shared by keyword normalization and chat message matching
+export const foldConfusables = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .replace(INVISIBLE_CHARS, '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/./gu, char => CONFUSABLES[char] ?? char);
+
+const foldLeetspeak = (compact: string): string => {
+  const chars = compact.split('');
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const symbol = LEET_SYMBOLS[char];
+    if (symbol && isLetter(chars[i + 1])) {
+      chars[i] = symbol;
+      continue;
+    }
+    const digit = LEET_DIGITS[char];
+    if (!digit || !isLetter(chars[i - 1]) || !isLetter(chars[i + 1])) continue;
+    const rest = compact.slice(i);
+    if (PROTECTED_DIGIT_TOKENS.some(token => rest.startsWith(token) && !isLetter(rest[token.length]))) continue;
+    chars[i] = digit;
+  }
+  return chars.join('');
+};
+
+export const normalizeKeyword = (raw: string, rules?: NormalizationRules): string => {
+  const folded = foldConfusables(raw).trim().replace(getTldSuffix(rules), '');
+  // Drop separators (spaces, dots, dashes, emoji, ...) but keep symbols that may be leetspeak
+  const compact = folded.replace(/[^a-z0-9@$!|€£¡]/g, '');
+  return foldLeetspeak(compact).replace(/[^a-z0-9]/g, '');
+};
+
+// Models and exports often fold a domain's TLD into normalized_name ("maxwin777com" for "MaxWin777.com");
+// those get the signature of the dotted domain itself, so the domain and its bare brand share one entry
+export const normalizeSiteKeyword = (normalizedName: string, siteName: string, rules?: NormalizationRules): string => {
+  const normalized = normalizeKeyword(normalizedName || siteName, rules);
+  const folded = foldConfusables(siteName).trim();
+  const tldSuffix = getTldSuffix(rules);
+  if (!tldSuffix.test(folded)) return normalized;
+  return normalized === normalizeKeyword(folded.replace(tldSuffix, '$1'), rules) ? normalizeKeyword(siteName, rules) : normalized;
+};
+
+export interface KeywordParts {
+  stem: string;
+  prefixes: string[];
+  suffixes: string[];
+}
+
+// Peels known marketing affixes and trailing TLD-like parts off a normalized keyword
+export const splitAffixes = (normalized: string, rules?: NormalizationRules): KeywordParts => {
+  const brandPrefixes = rules ? [...BRAND_PREFIXES, ...rules.prefixes] : BRAND_PREFIXES;
+  const brandSuffixes = rules ? [...BRAND_SUFFIXES, ...rules.suffixes] : BRAND_SUFFIXES;
+  let stem = normalized;
+  const prefixes: string[] = [];
+  const suffixes: string[] = [];
+  const minStem = 3;
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const prefix of brandPrefixes) {
+      if (stem.startsWith(prefix) && stem.length - prefix.length >= minStem) {
+        prefixes.push(prefix);
+        stem = stem.slice(prefix.length);
+        changed = true;
+      }
+    }
+    for (const suffix of brandSuffixes) {
+      if (stem.endsWith(suffix) && stem.length - suffix.length >= minStem) {
+        suffixes.unshift(suffix);
+        stem = stem.slice(0, -suffix.length);
+        changed = true;
+      }
+    }
+  }
+
+  return { stem, prefixes, suffixes };
+};
+
+export const getKeywordStem = (normalized: string, rules?: NormalizationRules): string => splitAffixes(normalized, rules).stem;
+
+const MAX_VARIANTS = 24;
+
+// Evasive spellings a normalized keyword should also match in chat
+export const generateVariants = (normalized: string): string[] => {
+  const variants = new Set<string>([normalized]);
+  const letters = normalized.split('');
+
+  const leetPositions = letters
+    .map((char, i) => (LETTER_TO_LEET[char] ? i : -1))
+    .filter(i => i >= 0);
+
+  // Fully substituted spelling first
+  if (leetPositions.length > 0) {
+    variants.add(letters.map(char => LETTER_TO_LEET[char] ?? char).join(''));
+  }
+
+  // Letter/digit boundaries split by a space ("gacor 88") and fully spaced-out spelling
+  variants.add(normalized.replace(/([a-z])(\d)/g, '$1 $2').replace(/(\d)([a-z])/g, '$1 $2'));
+  variants.add(letters.join(' '));
+
+  // Marketing suffix split off ("gacor88 vip", "gacor88.vip") and common domain spellings
+  const { suffixes } = splitAffixes(normalized);
+  if (suffixes.length > 0) {
+    const base = normalized.slice(0, normalized.length - suffixes.join('').length);
+    variants.add(`${base} ${suffixes.join(' ')}`);
+    variants.add(`${base}.${suffixes.join('.')}`);
+  }
+  ['com', 'net'].forEach(tld => variants.add(`${normalized}.${tld}`));
+
+  // One substitution at a time
+  leetPositions.forEach(i => {
+    const copy = [...letters];
+    copy[i] = LETTER_TO_LEET[copy[i]];
+    variants.add(copy.join(''));
+  });
+
+  return Array.from(variants).slice(0, MAX_VARIANTS);
+};
@@ -0,0 +1,59 @@
+import { DiscoveryProvider } from "../types";
+import { buildDiscoveryPrompt } from "./discoveryPrompt";
+import { parseJsonResponse, getExtractedItems, isRecord } from "./responseValidator";
+import { HttpStatusError } from "./requestScheduler";
+
+export interface OpenAiProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+const RESPONSE_FORMAT_INSTRUCTION = `
+
+Respond with a single JSON object of the form:
+{"extracted_sites": [{"site_name": string, "normalized_name": string, "confidence_score": number}]}`;
+
+// Works with any server implementing the OpenAI chat completions API (OpenAI, vLLM, Ollama, LM Studio, ...)
+export const createOpenAiProvider = ({ baseUrl, model, apiKey }: OpenAiProviderOptions): DiscoveryProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const id = `openai:${model}`;
+
+  return {
+    id,
+    label: `OpenAI-compatible (${model})`,
+    async discover(query, knownPatterns, region) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'user', content: buildDiscoveryPrompt(query, knownPatterns, region) + RESPONSE_FORMAT_INSTRUCTION },
+          ],
+          response_format: { type: 'json_object' },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new HttpStatusError(`Discovery endpoint returned ${response.status} ${response.statusText}`, response.status);
+      }
+
+      const body = await response.json();
+      const content: string = body.choices?.[0]?.message?.content ?? '';
+      const { payload, issues } = parseJsonResponse(content);
+
+      // No search grounding here, so the model itself is the one source each entry can cite
+      return {
+        sites: getExtractedItems(payload).map(item => (isRecord(item) ? { ...item, sources: [id], evidence: [] } : item)),
+        logs: [],
+        sources: [],
+        issues,
+        usage: { totalTokens: body.usage?.total_tokens ?? 0 },
+      };
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { SiteEvidence } from "../types";
+import { foldConfusables, normalizeKeyword } from "./keywordNormalizer";
+
+// Oldest evidence is dropped past this point so long-lived entries stay small
+export const MAX_EVIDENCE_PER_SITE = 50;
+const MAX_SNIPPET_LENGTH = 300;
+
+export interface GroundingChunk {
+  uri: string;
+  title?: string;
+}
+
+export interface GroundingSupport {
+  text: string;
+  chunkIndices: number[];
+}
+
+const mentions = (text: string, siteName: string, normalized: string): boolean => {
+  if (!text) return false;
+  if (foldConfusables(text).includes(foldConfusables(siteName))) return true;
+  return normalized.length >= 4 && normalizeKeyword(text).includes(normalized);
+};
+
+const truncate = (text: string) => (text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : text);
+
+// Links each extracted item to the grounding chunks whose supporting text (or page title) names it
+export const attributeGrounding = <T extends { site_name?: unknown; normalized_name?: unknown }>(
+  items: T[],
+  chunks: GroundingChunk[],
+  supports: GroundingSupport[],
+  query: string,
+  timestamp: string = new Date().toISOString()
+): (T & { evidence: SiteEvidence[]; sources: string[] })[] =>
+  items.map(item => {
+    const siteName = typeof item.site_name === 'string' ? item.site_name : '';
+    const normalized = normalizeKeyword(typeof item.normalized_name === 'string' ? item.normalized_name : siteName);
+    const byUrl = new Map<string, SiteEvidence>();
+
+    supports.forEach(support => {
+      if (!mentions(support.text, siteName, normalized)) return;
+      support.chunkIndices.forEach(index => {
+        const chunk = chunks[index];
+        if (!chunk?.uri || byUrl.has(chunk.uri)) return;
+        byUrl.set(chunk.uri, { url: chunk.uri, title: chunk.title, snippet: truncate(support.text), query, timestamp });
+      });
+    });
+
+    chunks.forEach(chunk => {
+      if (!chunk.uri || byUrl.has(chunk.uri) || !chunk.title || !mentions(chunk.title, siteName, normalized)) return;
+      byUrl.set(chunk.uri, { url: chunk.uri, title: chunk.title, snippet: truncate(chunk.title), query, timestamp });
+    });
+
+    const evidence = Array.from(byUrl.values());
+    return { ...item, evidence, sources: evidence.map(e => e.url) };
+  });
+
+// Unions two evidence lists, keeping one record per URL and query and capping the total
+export const mergeEvidence = (existing: SiteEvidence[], incoming: SiteEvidence[]): SiteEvidence[] => {
+  const seen = new Set(existing.map(e => `${e.url}\u0000${e.query}`));
+  const fresh = incoming.filter(e => {
+    const key = `${e.url}\u0000${e.query}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...existing, ...fresh].slice(-MAX_EVIDENCE_PER_SITE);
+};
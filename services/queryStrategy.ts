@@ -0,0 +1,158 @@
+import { GamblingSite, SiteStatus } from "../types";
+import { getKeywordStem } from "./keywordNormalizer";
+import { DEFAULT_REGION_ID, REGION_PROFILES, getRegionProfile, isSiteInRegions } from "./regionProfiles";
+
+// Templates use {seed} for a known site name and {stem} for its brand stem (affixes removed)
+export interface QueryTemplate {
+  id: string;
+  pattern: string;
+  builtIn: boolean;
+  // Region profile the template is written for; templates without one are used in every region
+  region?: string;
+}
+
+export interface YieldStats {
+  uses: number;
+  newSignatures: number;
+  lastUsed: string | null;
+}
+
+export interface QueryPlan {
+  query: string;
+  templateId: string | null;
+  seed: string | null;
+}
+
+export interface StrategyState {
+  templates: QueryTemplate[];
+  templateStats: Record<string, YieldStats>;
+  seedStats: Record<string, YieldStats>;
+  recentQueries: string[];
+}
+
+const RECENT_QUERY_LIMIT = 30;
+const EXPLORATION_WEIGHT = 1.2;
+const SEED_CANDIDATES = 12;
+
+export const DEFAULT_TEMPLATES: QueryTemplate[] = REGION_PROFILES.flatMap(region =>
+  region.templates.map(template => ({ ...template, builtIn: true, region: region.id }))
+);
+
+export const createStrategyState = (): StrategyState => ({
+  templates: DEFAULT_TEMPLATES,
+  templateStats: {},
+  seedStats: {},
+  recentQueries: [],
+});
+
+const emptyStats = (): YieldStats => ({ uses: 0, newSignatures: 0, lastUsed: null });
+
+export const getMeanYield = (stats: YieldStats | undefined): number =>
+  stats && stats.uses > 0 ? stats.newSignatures / stats.uses : 0;
+
+// UCB1: untried arms first, then mean yield plus an exploration bonus that shrinks with use
+const ucbScore = (stats: YieldStats | undefined, totalUses: number): number => {
+  if (!stats || stats.uses === 0) return Infinity;
+  return getMeanYield(stats) + EXPLORATION_WEIGHT * Math.sqrt(Math.log(Math.max(totalUses, 1)) / stats.uses);
+};
+
+export const getRegionTemplates = (state: StrategyState, regionId: string): QueryTemplate[] =>
+  state.templates.filter(template => !template.region || template.region === regionId);
+
+export const renderTemplate = (pattern: string, site: GamblingSite, regionId: string = DEFAULT_REGION_ID): string =>
+  pattern
+    .replace(/\{seed\}/g, site.site_name)
+    .replace(/\{stem\}/g, getKeywordStem(site.normalized_name, getRegionProfile(regionId).normalization))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const planNextQuery = (
+  state: StrategyState,
+  sites: GamblingSite[],
+  fallbackQuery: string,
+  random: () => number = Math.random,
+  regionId: string = DEFAULT_REGION_ID
+): QueryPlan => {
+  // Seeds and templates come from the active region so queries stay in its language
+  const seeds = sites.filter(site => site.status !== SiteStatus.FALSE_POSITIVE && isSiteInRegions(site, [regionId]));
+  const templates = getRegionTemplates(state, regionId);
+  if (seeds.length === 0 || templates.length === 0) {
+    return { query: fallbackQuery, templateId: null, seed: null };
+  }
+
+  const totalTemplateUses = Object.values(state.templateStats).reduce((sum, s) => sum + s.uses, 0);
+  const rankedTemplates = [...templates]
+    .map(template => ({ template, score: ucbScore(state.templateStats[template.id], totalTemplateUses) + random() * 1e-3 }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.template);
+
+  // Seeds are sampled so that productive and rarely used brands are favoured
+  const totalSeedUses = Object.values(state.seedStats).reduce((sum, s) => sum + s.uses, 0);
+  const rankedSeeds = seeds
+    .map(site => ({
+      site,
+      score: ucbScore(state.seedStats[site.normalized_name], totalSeedUses) + site.confidence_score * 0.1 + random() * 0.5,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, SEED_CANDIDATES)
+    .map(entry => entry.site);
+
+  const recent = new Set(state.recentQueries.map(q => q.toLowerCase()));
+  for (const template of rankedTemplates) {
+    for (const site of rankedSeeds) {
+      const query = renderTemplate(template.pattern, site, regionId);
+      if (!recent.has(query.toLowerCase())) {
+        return { query, templateId: template.id, seed: site.normalized_name };
+      }
+    }
+  }
+
+  // Every candidate was used recently; accept a repeat rather than stalling
+  const template = rankedTemplates[0];
+  const site = rankedSeeds[0];
+  return { query: renderTemplate(template.pattern, site, regionId), templateId: template.id, seed: site.normalized_name };
+};
+
+const bump = (stats: YieldStats | undefined, newSignatures: number, timestamp: string): YieldStats => {
+  const base = stats ?? emptyStats();
+  return { uses: base.uses + 1, newSignatures: base.newSignatures + newSignatures, lastUsed: timestamp };
+};
+
+export const recordQueryOutcome = (state: StrategyState, plan: QueryPlan, newSignatures: number): StrategyState => {
+  const timestamp = new Date().toISOString();
+  return {
+    ...state,
+    templateStats: plan.templateId
+      ? { ...state.templateStats, [plan.templateId]: bump(state.templateStats[plan.templateId], newSignatures, timestamp) }
+      : state.templateStats,
+    seedStats: plan.seed
+      ? { ...state.seedStats, [plan.seed]: bump(state.seedStats[plan.seed], newSignatures, timestamp) }
+      : state.seedStats,
+    recentQueries: [plan.query, ...state.recentQueries.filter(q => q !== plan.query)].slice(0, RECENT_QUERY_LIMIT),
+  };
+};
+
+export const addTemplate = (state: StrategyState, pattern: string, regionId?: string): StrategyState => {
+  const trimmed = pattern.trim().replace(/\s+/g, ' ');
+  if (!/\{(seed|stem)\}/.test(trimmed)) {
+    throw new Error('Template must contain {seed} or {stem}');
+  }
+  if (state.templates.some(t => t.pattern === trimmed && t.region === regionId)) return state;
+  const id = `custom-${Date.now().toString(36)}`;
+  return { ...state, templates: [...state.templates, { id, pattern: trimmed, builtIn: false, ...(regionId ? { region: regionId } : {}) }] };
+};
+
+export const removeTemplate = (state: StrategyState, id: string): StrategyState => ({
+  ...state,
+  templates: state.templates.filter(t => t.id !== id || t.builtIn),
+});
+
+// Restores saved state while picking up built-in templates added since it was stored
+export const restoreStrategyState = (saved: StrategyState | undefined): StrategyState => {
+  if (!saved) return createStrategyState();
+  return {
+    ...createStrategyState(),
+    ...saved,
+    templates: [...DEFAULT_TEMPLATES, ...(saved.templates ?? []).filter(t => !t.builtIn)],
+  };
+};
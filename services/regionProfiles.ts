@@ -0,0 +1,146 @@
+import { GamblingSite } from "../types";
+import { NormalizationRules } from "./keywordNormalizer";
+
+export interface RegionTemplate {
+  id: string;
+  pattern: string;
+}
+
+export interface RegionProfile {
+  id: string;
+  label: string;
+  language: string;
+  // Extra guidance appended to the discovery prompt for this region's spam
+  promptContext: string;
+  seedQueries: string[];
+  templates: RegionTemplate[];
+  // Gambling vocabulary in the region's language; a name made only of these is not a platform
+  genericTerms: string[];
+  // Everyday chat words added to the starter allowlist dictionary
+  allowlistTerms: string[];
+  normalization: NormalizationRules;
+}
+
+export const DEFAULT_REGION_ID = 'id';
+export const REGION_META_KEY = 'region';
+
+export const REGION_PROFILES: RegionProfile[] = [
+  {
+    id: 'id',
+    label: 'Indonesia',
+    language: 'Indonesian',
+    promptContext: '',
+    seedQueries: ['situs slot gacor terbaru 2024', 'link alternatif judi online terpercaya', 'daftar situs togel resmi'],
+    templates: [
+      { id: 'link-alternatif', pattern: 'link alternatif {seed}' },
+      { id: 'situs-serupa', pattern: 'situs serupa {seed}' },
+      { id: 'daftar-agen', pattern: 'daftar agen {stem}' },
+      { id: 'promo-terbaru', pattern: 'promo terbaru {seed}' },
+    ],
+    // The shared generic vocabulary and starter dictionary are already Indonesian
+    genericTerms: [],
+    allowlistTerms: [],
+    normalization: { tlds: ['co.id', 'web.id', 'my.id', 'biz.id'], prefixes: [], suffixes: [] },
+  },
+  {
+    id: 'my',
+    label: 'Malaysia',
+    language: 'Malay',
+    promptContext: 'Spam is usually written in Malay and often advertises credit, free credit or e-wallet top-ups in ringgit.',
+    seedQueries: ['slot online malaysia terpercaya', 'kasino online malaysia free credit', 'pautan judi online malaysia terkini'],
+    templates: [
+      { id: 'my-pautan-alternatif', pattern: 'pautan alternatif {seed}' },
+      { id: 'my-laman-serupa', pattern: 'laman serupa {seed}' },
+      { id: 'my-daftar-ejen', pattern: 'daftar ejen {stem}' },
+      { id: 'my-free-credit', pattern: 'free credit {seed}' },
+    ],
+    genericTerms: ['pautan', 'ejen', 'percuma', 'kredit', 'credit', 'terkini', 'rasmi', 'dipercayai', 'malaysia', 'mudah', 'cuci'],
+    allowlistTerms: [
+      'boleh', 'nak', 'mahu', 'awak', 'korang', 'kami', 'tahniah', 'best', 'lawak', 'jom', 'lepak', 'cikgu', 'ringgit',
+      'kuala', 'lumpur', 'selangor', 'johor', 'penang', 'sabah', 'sarawak', 'petronas', 'maxis', 'celcom', 'digi',
+      'touchngo', 'boost', 'grabpay', 'maybank', 'cimb',
+    ],
+    normalization: { tlds: ['my', 'com.my'], prefixes: ['pautan', 'ejen'], suffixes: ['my', 'rasmi'] },
+  },
+  {
+    id: 'th',
+    label: 'Thailand',
+    language: 'Thai',
+    promptContext: 'Spam is usually written in Thai script around a romanized brand name (e.g. "ufabet", "pgslot"); always return the Latin brand name, never the Thai text.',
+    seedQueries: ['เว็บสล็อต เว็บตรง ไม่ผ่านเอเย่นต์', 'บาคาร่า ออนไลน์ เว็บตรง', 'สล็อต pg เว็บตรง แตกง่าย'],
+    templates: [
+      { id: 'th-tang-khao', pattern: 'ทางเข้า {seed}' },
+      { id: 'th-web-klai', pattern: 'เว็บคล้าย {seed}' },
+      { id: 'th-samak', pattern: 'สมัคร {stem}' },
+      { id: 'th-promotion', pattern: 'โปรโมชั่น {seed}' },
+    ],
+    genericTerms: ['webtrong', 'auto', 'wallet', 'baccarat', 'bacarat', 'thai'],
+    allowlistTerms: [
+      'sawasdee', 'sawadee', 'krub', 'krap', 'kha', '55555', 'thailand', 'bangkok', 'chiangmai', 'truemoney', 'truewallet',
+      'promptpay', 'kbank', 'kasikorn', 'krungthai', 'scb', 'ais', 'dtac',
+    ],
+    normalization: { tlds: ['th', 'co.th', 'in.th'], prefixes: ['web'], suffixes: ['th', 'auto', 'wallet'] },
+  },
+  {
+    id: 'vn',
+    label: 'Vietnam',
+    language: 'Vietnamese',
+    promptContext: 'Spam is usually written in Vietnamese and advertises "nhà cái" (bookmakers), card games or fish shooting games.',
+    seedQueries: ['nhà cái uy tín 2024', 'link vào nhà cái mới nhất', 'game bài đổi thưởng uy tín'],
+    templates: [
+      { id: 'vn-link-vao', pattern: 'link vào {seed}' },
+      { id: 'vn-nha-cai-giong', pattern: 'nhà cái giống {seed}' },
+      { id: 'vn-dang-ky', pattern: 'đăng ký {stem}' },
+      { id: 'vn-khuyen-mai', pattern: 'khuyến mãi {seed}' },
+    ],
+    genericTerms: ['nhacai', 'uytin', 'dangky', 'khuyenmai', 'taixiu', 'nohu', 'banca', 'gamebai', 'doithuong', 'linkvao', 'moinhat'],
+    allowlistTerms: [
+      'xin', 'chao', 'xinchao', 'camon', 'toi', 'minh', 'anh', 'chi', 'hay', 'qua', 'dep', 'vui', 'choi', 'vietnam',
+      'hanoi', 'saigon', 'momo', 'zalopay', 'vietcombank', 'techcombank', 'viettel', 'vinaphone', 'mobifone',
+    ],
+    normalization: { tlds: ['vn', 'com.vn'], prefixes: ['nhacai', 'linkvao'], suffixes: ['vn', 'dangky', 'moinhat'] },
+  },
+  {
+    id: 'ph',
+    label: 'Philippines',
+    language: 'Filipino',
+    promptContext: 'Spam mixes Filipino and English and often advertises GCash deposits, "free 100" bonuses, e-sabong or e-bingo.',
+    seedQueries: ['online casino philippines gcash', 'online sabong link legit', 'slot app ph free 100'],
+    templates: [
+      { id: 'ph-link-ng', pattern: 'link ng {seed}' },
+      { id: 'ph-sites-like', pattern: 'sites like {seed}' },
+      { id: 'ph-register', pattern: 'register {stem} ph' },
+      { id: 'ph-free-100', pattern: 'free 100 {seed}' },
+    ],
+    genericTerms: ['sabong', 'esabong', 'ebingo', 'bingo', 'free100', 'legit', 'pinoy', 'register', 'app', 'jili'],
+    allowlistTerms: [
+      'salamat', 'opo', 'kuya', 'ate', 'lodi', 'petmalu', 'sana', 'lahat', 'kumusta', 'mabuhay', 'ingat', 'galing', 'astig',
+      'grabe', 'pilipinas', 'manila', 'cebu', 'davao', 'gcash', 'maya', 'paymaya', 'globe', 'smart', 'jollibee',
+    ],
+    normalization: { tlds: ['ph', 'com.ph'], prefixes: [], suffixes: ['ph', 'legit'] },
+  },
+];
+
+export const getRegionProfile = (id: string): RegionProfile => {
+  const profile = REGION_PROFILES.find(p => p.id === id);
+  if (!profile) throw new Error(`Unknown region: ${id}`);
+  return profile;
+};
+
+export const isRegionId = (id: string): boolean => REGION_PROFILES.some(p => p.id === id);
+
+// Entries stored before regions existed, and imports without one, came from the Indonesian setup
+export const getSiteRegions = (site: GamblingSite): string[] =>
+  site.regions && site.regions.length > 0 ? site.regions : [DEFAULT_REGION_ID];
+
+export const isSiteInRegions = (site: GamblingSite, regions: string[]): boolean =>
+  getSiteRegions(site).some(region => regions.includes(region));
+
+// Parses a comma-separated list of region ids, as given to the CLI or the registry API
+export const parseRegionList = (value: string): string[] => {
+  const ids = Array.from(new Set(value.split(',').map(id => id.trim().toLowerCase()).filter(Boolean)));
+  if (ids.length === 0) throw new Error('No region given');
+  const unknown = ids.filter(id => !isRegionId(id));
+  if (unknown.length > 0) throw new Error(`Unknown region: ${unknown.join(', ')} (expected ${REGION_PROFILES.map(r => r.id).join(', ')})`);
+  return ids;
+};
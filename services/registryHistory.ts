@@ -0,0 +1,158 @@
+import { GamblingSite } from "../types";
+import { RegistryStore } from "./registryStore";
+
+export type MutationKind = 'discovery' | 'status' | 'review' | 'import' | 'delete' | 'rollback' | 'api' | 'enrichment' | 'chat';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface SiteChange {
+  name: string;
+  action: 'added' | 'updated' | 'removed';
+  fields?: Record<string, FieldChange>;
+}
+
+export interface ChangelogEntry {
+  version: number;
+  timestamp: string;
+  kind: MutationKind;
+  summary: string;
+  actor?: string;
+  changes: SiteChange[];
+}
+
+export interface RegistryHistory {
+  version: number;
+  entries: ChangelogEntry[];
+}
+
+export interface RegistrySnapshot {
+  id: string;
+  name: string;
+  // Changelog version the snapshot was taken at
+  version: number;
+  timestamp: string;
+  sites: GamblingSite[];
+}
+
+export interface RegistryDiff {
+  added: GamblingSite[];
+  removed: GamblingSite[];
+  updated: { site: GamblingSite; fields: Record<string, FieldChange> }[];
+}
+
+const MAX_CHANGELOG_ENTRIES = 300;
+export const MAX_SNAPSHOTS = 20;
+
+export const HISTORY_META_KEY = 'registryHistory';
+export const SNAPSHOTS_META_KEY = 'registrySnapshots';
+
+export const createRegistryHistory = (): RegistryHistory => ({ version: 0, entries: [] });
+
+// Re-sightings nudge confidence constantly; only moves a moderator would notice are recorded
+const CONFIDENCE_EPSILON = 0.01;
+
+const diffFields = (before: GamblingSite, after: GamblingSite): Record<string, FieldChange> => {
+  const fields: Record<string, FieldChange> = {};
+  if (before.site_name !== after.site_name) fields.site_name = { from: before.site_name, to: after.site_name };
+  if (before.status !== after.status) fields.status = { from: before.status, to: after.status };
+  if (Math.abs(before.confidence_score - after.confidence_score) >= CONFIDENCE_EPSILON) {
+    fields.confidence_score = { from: Number(before.confidence_score.toFixed(2)), to: Number(after.confidence_score.toFixed(2)) };
+  }
+  if (before.source_count !== after.source_count) fields.source_count = { from: before.source_count, to: after.source_count };
+  return fields;
+};
+
+export const diffRegistries = (before: GamblingSite[], after: GamblingSite[]): RegistryDiff => {
+  const previous = new Map(before.map(site => [site.normalized_name, site]));
+  const current = new Set(after.map(site => site.normalized_name));
+  const diff: RegistryDiff = { added: [], removed: [], updated: [] };
+
+  after.forEach(site => {
+    const old = previous.get(site.normalized_name);
+    if (!old) {
+      diff.added.push(site);
+      return;
+    }
+    const fields = diffFields(old, site);
+    if (Object.keys(fields).length > 0) diff.updated.push({ site, fields });
+  });
+  before.forEach(site => {
+    if (!current.has(site.normalized_name)) diff.removed.push(site);
+  });
+  return diff;
+};
+
+const toChanges = (diff: RegistryDiff): SiteChange[] => [
+  ...diff.added.map(site => ({ name: site.normalized_name, action: 'added' as const })),
+  ...diff.updated.map(({ site, fields }) => ({ name: site.normalized_name, action: 'updated' as const, fields })),
+  ...diff.removed.map(site => ({ name: site.normalized_name, action: 'removed' as const })),
+];
+
+// Appends a versioned entry describing how the registry moved from `before` to `after`; no-ops are not recorded
+export const recordMutation = (
+  history: RegistryHistory,
+  before: GamblingSite[],
+  after: GamblingSite[],
+  kind: MutationKind,
+  summary: string,
+  actor?: string
+): RegistryHistory => {
+  const changes = toChanges(diffRegistries(before, after));
+  if (changes.length === 0) return history;
+  const entry: ChangelogEntry = {
+    version: history.version + 1,
+    timestamp: new Date().toISOString(),
+    kind,
+    summary,
+    changes,
+    ...(actor ? { actor } : {}),
+  };
+  return { version: entry.version, entries: [entry, ...history.entries].slice(0, MAX_CHANGELOG_ENTRIES) };
+};
+
+// The most recent changelog entry in (fromVersion, toVersion] that touched an entry, e.g. the cycle that added it
+export const findChangeSource = (
+  history: RegistryHistory,
+  name: string,
+  fromVersion: number,
+  toVersion: number
+): ChangelogEntry | undefined =>
+  history.entries.find(entry => entry.version > fromVersion && entry.version <= toVersion && entry.changes.some(c => c.name === name));
+
+export const createSnapshot = (name: string, sites: GamblingSite[], history: RegistryHistory): RegistrySnapshot => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: name.trim() || `Snapshot v${history.version}`,
+  version: history.version,
+  timestamp: new Date().toISOString(),
+  sites,
+});
+
+export const addSnapshot = (snapshots: RegistrySnapshot[], snapshot: RegistrySnapshot): RegistrySnapshot[] =>
+  [snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS);
+
+// Records a mutation made outside the app (CLI, HTTP API) in the persisted changelog
+export const recordStoredMutation = async (
+  store: RegistryStore,
+  before: GamblingSite[],
+  after: GamblingSite[],
+  kind: MutationKind,
+  summary: string,
+  actor?: string
+): Promise<void> => {
+  const history = (await store.loadMeta<RegistryHistory>(HISTORY_META_KEY)) ?? createRegistryHistory();
+  const next = recordMutation(history, before, after, kind, summary, actor);
+  if (next !== history) await store.saveMeta(HISTORY_META_KEY, next);
+};
+
+export const storeSnapshot = async (store: RegistryStore, name: string, sites: GamblingSite[]): Promise<RegistrySnapshot> => {
+  const [history, snapshots] = await Promise.all([
+    store.loadMeta<RegistryHistory>(HISTORY_META_KEY),
+    store.loadMeta<RegistrySnapshot[]>(SNAPSHOTS_META_KEY),
+  ]);
+  const snapshot = createSnapshot(name, sites, history ?? createRegistryHistory());
+  await store.saveMeta(SNAPSHOTS_META_KEY, addSnapshot(snapshots ?? [], snapshot));
+  return snapshot;
+};
@@ -0,0 +1,264 @@
+import { GamblingSite, SiteStatus } from "../types";
+import { normalizeSiteKeyword } from "./keywordNormalizer";
+import { migrateSiteRecord, REGISTRY_SCHEMA_VERSION } from "./registrySchema";
+import { mergeSighting } from "./registryMerge";
+import { AllowlistMatcher } from "./allowlist";
+import { asString, getNameRejection, isRecord } from "./responseValidator";
+
+export type ImportFormat = 'json' | 'csv' | 'txt';
+
+// Plain keyword lists carry no score; treat them as moderator-curated
+const IMPORTED_KEYWORD_CONFIDENCE = 0.75;
+
+export interface RegistryFile {
+  format: 'gamblshield-registry';
+  schema_version: number;
+  exported_at: string;
+  sites: GamblingSite[];
+}
+
+export const serializeRegistry = (sites: GamblingSite[]): string => {
+  const file: RegistryFile = {
+    format: 'gamblshield-registry',
+    schema_version: REGISTRY_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    sites,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export interface ImportRejection {
+  // Name of the skipped record, or its position when it has none
+  record: string;
+  reason: string;
+}
+
+export interface ParsedImport {
+  sites: GamblingSite[];
+  rejected: ImportRejection[];
+}
+
+type Reject = (record: string, reason: string) => void;
+
+const toConfidence = (value: unknown): number => {
+  const confidence = typeof value === 'number' || (typeof value === 'string' && value.trim()) ? Number(value) : NaN;
+  return Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : IMPORTED_KEYWORD_CONFIDENCE;
+};
+
+const toStatus = (value: unknown): SiteStatus =>
+  Object.values(SiteStatus).includes(value as SiteStatus) ? value as SiteStatus : SiteStatus.ACTIVE;
+
+const toStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+
+const siteFromKeyword = (raw: string, source: string, reject: Reject, overrides: Partial<Record<keyof GamblingSite, unknown>> = {}): GamblingSite | null => {
+  const siteName = asString(overrides.site_name) || raw.trim();
+  const normalized = normalizeSiteKeyword(asString(overrides.normalized_name), siteName);
+  const problem = getNameRejection(normalized);
+  if (problem) {
+    reject(raw.trim() || '(blank)', problem);
+    return null;
+  }
+  const timestamp = new Date().toISOString();
+  const sources = toStrings(overrides.sources);
+  return {
+    id: newId(),
+    site_name: siteName,
+    normalized_name: normalized,
+    first_seen: asString(overrides.first_seen) || timestamp,
+    last_seen: asString(overrides.last_seen) || timestamp,
+    confidence_score: toConfidence(overrides.confidence_score),
+    status: toStatus(overrides.status),
+    source_count: 1,
+    sources: sources.length ? sources : [source],
+    review_history: [],
+    evidence: [],
+  };
+};
+
+const parseJson = (content: string, source: string, reject: Reject): GamblingSite[] => {
+  const parsed: unknown = JSON.parse(content);
+  const records = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.sites) ? parsed.sites : null;
+  if (!records) throw new Error('JSON import must be a list of entries or a registry backup with a "sites" list');
+  const version = isRecord(parsed) && typeof parsed.schema_version === 'number' ? parsed.schema_version : 0;
+
+  return records.flatMap((record: unknown, index) => {
+    if (!isRecord(record)) {
+      reject(`#${index + 1}`, 'entry is not an object');
+      return [];
+    }
+    // Typed as a site, but nothing in an imported file is trusted until checked below
+    const migrated = migrateSiteRecord(record, version);
+    const name = asString(migrated.site_name) || asString(migrated.normalized_name);
+    if (!name) {
+      reject(`#${index + 1}`, 'missing site_name');
+      return [];
+    }
+    const site = siteFromKeyword(name, source, reject, migrated);
+    if (!site) return [];
+
+    // Backups keep their identity and provenance; anything malformed in them is dropped rather than trusted
+    const sources = toStrings(migrated.sources);
+    return [{
+      ...site,
+      id: asString(migrated.id) || site.id,
+      source_count: typeof migrated.source_count === 'number' && migrated.source_count >= 0 ? migrated.source_count : Math.max(1, sources.length),
+      review_history: Array.isArray(migrated.review_history) ? migrated.review_history : [],
+      evidence: Array.isArray(migrated.evidence) ? migrated.evidence : [],
+      ...(isRecord(migrated.domain_intel) && typeof migrated.domain_intel.domain === 'string' ? { domain_intel: migrated.domain_intel } : {}),
+      ...(Array.isArray(migrated.regions) ? { regions: toStrings(migrated.regions) } : {}),
+    }];
+  });
+};
+
+// Minimal RFC 4180 row splitter (quoted fields, doubled quotes)
+const splitCsvRow = (row: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { cells.push(cell); cell = ''; }
+    else cell += char;
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+};
+
+const KNOWN_COLUMNS = ['site_name', 'normalized_name', 'confidence_score', 'status', 'first_seen', 'last_seen', 'sources'];
+
+const parseCsv = (content: string, source: string, reject: Reject): GamblingSite[] => {
+  const rows = content.split(/\r?\n/).filter(row => row.trim()).map(splitCsvRow);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const hasHeader = header.some(cell => KNOWN_COLUMNS.includes(cell));
+
+  // Headerless CSV (e.g. a YouTube blocked-words export) is just a keyword list
+  if (!hasHeader) {
+    return rows.flat().filter(Boolean).map(cell => siteFromKeyword(cell, source, reject)).filter((s): s is GamblingSite => !!s);
+  }
+
+  const column = (row: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? row[index] : undefined;
+  };
+
+  return rows.slice(1).map(row => {
+    const name = column(row, 'site_name') || column(row, 'normalized_name') || '';
+    const sources = column(row, 'sources')?.split(/[;|]/).map(s => s.trim()).filter(Boolean);
+    return siteFromKeyword(name, source, reject, {
+      site_name: column(row, 'site_name'),
+      normalized_name: column(row, 'normalized_name'),
+      confidence_score: column(row, 'confidence_score'),
+      status: column(row, 'status'),
+      first_seen: column(row, 'first_seen'),
+      last_seen: column(row, 'last_seen'),
+      sources,
+    });
+  }).filter((s): s is GamblingSite => !!s);
+};
+
+const parseTxt = (content: string, source: string, reject: Reject): GamblingSite[] =>
+  content.split(/\s+/).filter(Boolean).map(word => siteFromKeyword(word, source, reject)).filter((s): s is GamblingSite => !!s);
+
+export const detectImportFormat = (content: string, filename = ''): ImportFormat => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'txt') return 'txt';
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  if (trimmed.includes(',')) return 'csv';
+  return 'txt';
+};
+
+// Records that cannot be imported are skipped and reported instead of failing the whole file
+export const parseImport = (content: string, filename = '', format: ImportFormat = detectImportFormat(content, filename)): ParsedImport => {
+  const source = `import:${filename || format}`;
+  const rejected: ImportRejection[] = [];
+  const reject: Reject = (record, reason) => rejected.push({ record, reason });
+  const sites = format === 'json' ? parseJson(content, source, reject) : format === 'csv' ? parseCsv(content, source, reject) : parseTxt(content, source, reject);
+
+  // Collapse repeats inside the imported file itself
+  const byName = new Map<string, GamblingSite>();
+  sites.forEach(site => {
+    const existing = byName.get(site.normalized_name);
+    byName.set(site.normalized_name, existing ? mergeSighting(existing, site) : site);
+  });
+  return { sites: Array.from(byName.values()), rejected };
+};
+
+export type ImportCategory = 'new' | 'duplicate' | 'conflict' | 'suppressed' | 'allowlisted';
+export type ConflictResolution = 'keep' | 'incoming' | 'merge';
+
+export interface ImportEntry {
+  incoming: GamblingSite;
+  existing?: GamblingSite;
+  category: ImportCategory;
+  reason?: string;
+}
+
+// Classifies every imported entry against the current registry
+export const planImport = (existing: GamblingSite[], incoming: GamblingSite[], allowlist?: AllowlistMatcher): ImportEntry[] => {
+  const byName = new Map(existing.map(site => [site.normalized_name, site]));
+
+  return incoming.map(site => {
+    const current = byName.get(site.normalized_name);
+    const allowReason = allowlist?.check(site.normalized_name);
+    if (allowReason) return { incoming: site, existing: current, category: 'allowlisted', reason: allowReason };
+    if (!current) return { incoming: site, category: 'new' };
+    if (current.status === SiteStatus.FALSE_POSITIVE && site.status !== SiteStatus.FALSE_POSITIVE) {
+      return { incoming: site, existing: current, category: 'suppressed', reason: 'marked false positive in registry' };
+    }
+    if (current.status !== site.status) {
+      return { incoming: site, existing: current, category: 'conflict', reason: `status ${current.status} → ${site.status}` };
+    }
+    if (Math.abs(current.confidence_score - site.confidence_score) >= 0.25) {
+      return {
+        incoming: site,
+        existing: current,
+        category: 'conflict',
+        reason: `confidence ${(current.confidence_score * 100).toFixed(0)}% → ${(site.confidence_score * 100).toFixed(0)}%`,
+      };
+    }
+    return { incoming: site, existing: current, category: 'duplicate' };
+  });
+};
+
+export const applyImport = (
+  existing: GamblingSite[],
+  plan: ImportEntry[],
+  resolutions: Record<string, ConflictResolution> = {}
+): GamblingSite[] => {
+  const updates = new Map<string, GamblingSite>();
+  const added: GamblingSite[] = [];
+
+  plan.forEach(entry => {
+    const { incoming, existing: current, category } = entry;
+    if (category === 'new') {
+      added.push(incoming);
+      return;
+    }
+    if (!current || category === 'allowlisted') return;
+
+    // Suppressed entries stay false positive; the import may only add provenance
+    const resolution = category === 'conflict' ? resolutions[incoming.normalized_name] ?? 'merge' : 'merge';
+    if (resolution === 'keep') return;
+    // Taking the import only overrides the verdict; evidence, intel, regions and review history stay
+    if (resolution === 'incoming') {
+      updates.set(current.id, { ...mergeSighting(current, incoming), status: incoming.status, confidence_score: incoming.confidence_score });
+      return;
+    }
+    updates.set(current.id, mergeSighting(current, incoming));
+  });
+
+  return [...added, ...existing.map(site => updates.get(site.id) ?? site)];
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { DiscoveryProvider } from "../types";
+import { performDiscovery } from "./discoveryService";
+import { createChatCandidateSite, findChatCandidates } from "./chatIngestion";
+import { mergeSites } from "./registryMerge";
+import { DEFAULT_REGION_ID, getRegionProfile } from "./regionProfiles";
+
+const modelProvider: DiscoveryProvider = {
+  id: 'stub',
+  label: 'Model stub',
+  async discover() {
+    return {
+      sites: [
+        // Models tend to fold the TLD into normalized_name
+        { site_name: 'MaxWin777.com', normalized_name: 'maxwin777com', confidence_score: 0.88, sources: ['https://fixtures.local/chat/stream-42'] },
+        { site_name: 'Gacor88 VIP', normalized_name: 'gacor88vip', confidence_score: 0.7, sources: ['https://fixtures.local/forum/slot-gacor'] },
+      ],
+      logs: [],
+      sources: [],
+      issues: [],
+      usage: { totalTokens: 0 },
+    };
+  },
+};
+
+describe('registry merge', () => {
+  it('keeps a domain sighting and its bare brand in one entry', async () => {
+    const { sites: discovered, issues } = await performDiscovery('maxwin777', [], modelProvider);
+    expect(discovered.map(site => site.normalized_name)).toEqual(['maxwin777', 'gacor88vip']);
+    expect(issues).toContainEqual(expect.objectContaining({ field: 'normalized_name', action: 'repaired' }));
+
+    const region = getRegionProfile(DEFAULT_REGION_ID);
+    const source = { id: 'replay:stream.txt', label: 'stream.txt', url: 'replay:stream.txt' };
+    const chatSites = ['depo di maxwin777 gacor maxwin', 'link alternatif maxwin777 . com'].map(text => {
+      const [candidate] = findChatCandidates(text, new Set(), region);
+      return createChatCandidateSite(candidate, source, [{ author: 'budi', text }], region.id);
+    });
+    expect(chatSites.map(site => site.normalized_name)).toEqual(['maxwin777', 'maxwin777']);
+
+    const { sites } = mergeSites(discovered, chatSites);
+    expect(sites.map(site => site.normalized_name)).toEqual(['maxwin777', 'gacor88vip']);
+    expect(sites[0].sources).toEqual(['https://fixtures.local/chat/stream-42', 'replay:stream.txt']);
+  });
+});
@@ -0,0 +1,103 @@
+import { GamblingSite } from "../types";
+import { mergeEvidence } from "./provenance";
+import { AllowlistMatcher, AllowlistedSite, partitionAllowlisted } from "./allowlist";
+import { getSiteRegions } from "./regionProfiles";
+
+// Confidence from earlier sightings loses half its weight every week without a re-sighting.
+const CONFIDENCE_HALF_LIFE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MergeResult {
+  sites: GamblingSite[];
+  added: GamblingSite[];
+  updated: GamblingSite[];
+  // Incoming sightings refused because the allowlist protects the term
+  blocked: AllowlistedSite[];
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const laterOf = (a: string, b: string) => (new Date(a).getTime() >= new Date(b).getTime() ? a : b);
+const earlierOf = (a: string, b: string) => (new Date(a).getTime() <= new Date(b).getTime() ? a : b);
+
+export const combineConfidence = (
+  previous: number,
+  previousSeen: string,
+  incoming: number,
+  incomingSeen: string,
+  hasNewSources: boolean
+): number => {
+  const elapsedDays = Math.max(0, new Date(incomingSeen).getTime() - new Date(previousSeen).getTime()) / DAY_MS;
+  const decayed = clamp01(previous) * Math.pow(0.5, elapsedDays / CONFIDENCE_HALF_LIFE_DAYS);
+  const next = clamp01(incoming);
+
+  // Independent corroboration raises confidence (noisy-OR); a repeat from known sources only refreshes it
+  return hasNewSources
+    ? clamp01(1 - (1 - decayed) * (1 - next))
+    : Math.max(decayed, next);
+};
+
+export const mergeSighting = (existing: GamblingSite, incoming: GamblingSite): GamblingSite => {
+  const knownSources = new Set(existing.sources);
+  const newSources = incoming.sources.filter(source => !knownSources.has(source));
+  const sources = [...existing.sources, ...newSources];
+
+  return {
+    ...existing,
+    // Keep the identity, first sighting and moderator-set status of the stored entry
+    id: existing.id,
+    first_seen: earlierOf(existing.first_seen, incoming.first_seen),
+    last_seen: laterOf(existing.last_seen, incoming.last_seen),
+    status: existing.status,
+    confidence_score: combineConfidence(
+      existing.confidence_score,
+      existing.last_seen,
+      incoming.confidence_score,
+      incoming.last_seen,
+      newSources.length > 0
+    ),
+    sources,
+    source_count: Math.max(sources.length, existing.source_count),
+    evidence: mergeEvidence(existing.evidence, incoming.evidence),
+    // The latest enrichment wins; sightings without one keep the stored intel
+    ...(incoming.domain_intel ?? existing.domain_intel ? { domain_intel: incoming.domain_intel ?? existing.domain_intel } : {}),
+    // A brand sighted by another region's cycle now ships in that region's exports too
+    ...(incoming.regions ? { regions: Array.from(new Set([...getSiteRegions(existing), ...incoming.regions])) } : {}),
+  };
+};
+
+export const mergeSites = (existing: GamblingSite[], incoming: GamblingSite[], allowlist?: AllowlistMatcher): MergeResult => {
+  const { allowed, blocked } = allowlist ? partitionAllowlisted(incoming, allowlist) : { allowed: incoming, blocked: [] };
+  const byName = new Map<string, GamblingSite>(existing.map(site => [site.normalized_name, site]));
+  const added = new Map<string, GamblingSite>();
+  const updatedNames = new Set<string>();
+
+  allowed.forEach(site => {
+    const current = byName.get(site.normalized_name);
+    if (current) {
+      const merged = mergeSighting(current, site);
+      byName.set(site.normalized_name, merged);
+      if (added.has(site.normalized_name)) {
+        added.set(site.normalized_name, merged);
+      } else {
+        updatedNames.add(site.normalized_name);
+      }
+    } else {
+      const sources = Array.from(new Set(site.sources));
+      const fresh = { ...site, sources, source_count: sources.length };
+      byName.set(site.normalized_name, fresh);
+      added.set(site.normalized_name, fresh);
+    }
+  });
+
+  const addedSites = Array.from(added.keys()).map(name => byName.get(name)!);
+  const orderedNames = new Set([...added.keys(), ...existing.map(site => site.normalized_name)]);
+  const sites = Array.from(orderedNames).map(name => byName.get(name)!);
+
+  return {
+    sites,
+    added: addedSites,
+    updated: Array.from(updatedNames).map(name => byName.get(name)!),
+    blocked,
+  };
+};
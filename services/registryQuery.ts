@@ -0,0 +1,114 @@
+import { GamblingSite, SiteStatus } from "../types";
+import { isSiteInRegions } from "./regionProfiles";
+
+export interface RegistryFilter {
+  text: string;
+  statuses: SiteStatus[];
+  minConfidence: number;
+  maxConfidence: number;
+  // Inclusive YYYY-MM-DD bounds on first_seen, empty when unbounded
+  discoveredFrom: string;
+  discoveredTo: string;
+  sourceDomain: string;
+  // Region profile id, empty for every region
+  region: string;
+}
+
+export type RegistrySortKey = 'site_name' | 'normalized_name' | 'confidence_score' | 'source_count' | 'status' | 'first_seen' | 'last_seen';
+
+export interface RegistrySort {
+  key: RegistrySortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface SourceDomainCount {
+  domain: string;
+  count: number;
+}
+
+export const createRegistryFilter = (): RegistryFilter => ({
+  text: '',
+  statuses: [SiteStatus.ACTIVE, SiteStatus.FLAGGED, SiteStatus.FALSE_POSITIVE],
+  minConfidence: 0,
+  maxConfidence: 1,
+  discoveredFrom: '',
+  discoveredTo: '',
+  sourceDomain: '',
+  region: '',
+});
+
+export const isFilterActive = (filter: RegistryFilter): boolean => {
+  const defaults = createRegistryFilter();
+  return filter.text.trim() !== ''
+    || filter.statuses.length !== defaults.statuses.length
+    || filter.minConfidence > defaults.minConfidence
+    || filter.maxConfidence < defaults.maxConfidence
+    || filter.discoveredFrom !== ''
+    || filter.discoveredTo !== ''
+    || filter.sourceDomain !== ''
+    || filter.region !== '';
+};
+
+// Sources are usually URLs, but API reports and imports store labels such as "report:modbot"
+export const getSourceDomain = (source: string): string | null => {
+  try {
+    return new URL(source).hostname.replace(/^www\./, '').toLowerCase() || null;
+  } catch {
+    return null;
+  }
+};
+
+const getSiteDomains = (site: GamblingSite): Set<string> => {
+  const domains = new Set<string>();
+  [...site.sources, ...site.evidence.map(e => e.url)].forEach(source => {
+    const domain = getSourceDomain(source);
+    if (domain) domains.add(domain);
+  });
+  return domains;
+};
+
+export const getSourceDomains = (sites: GamblingSite[]): SourceDomainCount[] => {
+  const counts = new Map<string, number>();
+  sites.forEach(site => getSiteDomains(site).forEach(domain => counts.set(domain, (counts.get(domain) ?? 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([domain, count]) => ({ domain, count }))
+    .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain));
+};
+
+export const filterSites = (sites: GamblingSite[], filter: RegistryFilter): GamblingSite[] => {
+  const text = filter.text.trim().toLowerCase();
+  const from = filter.discoveredFrom ? new Date(`${filter.discoveredFrom}T00:00:00`).getTime() : null;
+  const to = filter.discoveredTo ? new Date(`${filter.discoveredTo}T23:59:59.999`).getTime() : null;
+
+  return sites.filter(site => {
+    if (!filter.statuses.includes(site.status)) return false;
+    if (site.confidence_score < filter.minConfidence || site.confidence_score > filter.maxConfidence) return false;
+    if (text && !site.site_name.toLowerCase().includes(text) && !site.normalized_name.includes(text)) return false;
+    if (from !== null || to !== null) {
+      const discovered = new Date(site.first_seen).getTime();
+      if (from !== null && discovered < from) return false;
+      if (to !== null && discovered > to) return false;
+    }
+    if (filter.sourceDomain && !getSiteDomains(site).has(filter.sourceDomain)) return false;
+    if (filter.region && !isSiteInRegions(site, [filter.region])) return false;
+    return true;
+  });
+};
+
+export const sortSites = (sites: GamblingSite[], sort: RegistrySort): GamblingSite[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const compare = (a: GamblingSite, b: GamblingSite): number => {
+    switch (sort.key) {
+      case 'confidence_score':
+      case 'source_count':
+        return a[sort.key] - b[sort.key];
+      case 'first_seen':
+      case 'last_seen':
+        return new Date(a[sort.key]).getTime() - new Date(b[sort.key]).getTime();
+      default:
+        return a[sort.key].localeCompare(b[sort.key]);
+    }
+  };
+  // Ties fall back to the keyword so the order is stable between renders
+  return [...sites].sort((a, b) => factor * compare(a, b) || a.normalized_name.localeCompare(b.normalized_name));
+};
@@ -0,0 +1,45 @@
+import { GamblingSite, SiteStatus } from "../types";
+
+// Bump this whenever the persisted GamblingSite shape changes and add a
+// matching entry to SITE_MIGRATIONS that upgrades records from the previous version.
+export const REGISTRY_SCHEMA_VERSION = 4;
+
+type SiteRecord = Record<string, unknown>;
+type SiteMigration = (record: SiteRecord) => SiteRecord;
+
+const isRecord = (value: unknown): value is SiteRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isSiteStatus = (value: unknown): value is SiteStatus => Object.values(SiteStatus).includes(value as SiteStatus);
+
+// SITE_MIGRATIONS[n] upgrades a record stored at version n - 1 to version n.
+const SITE_MIGRATIONS: Record<number, SiteMigration> = {
+  1: (record) => ({
+    ...record,
+    status: isSiteStatus(record.status) ? record.status : SiteStatus.ACTIVE,
+    sources: Array.isArray(record.sources) ? record.sources : [],
+    source_count: typeof record.source_count === 'number' ? record.source_count : (Array.isArray(record.sources) ? record.sources.length : 0),
+  }),
+  2: (record) => ({
+    ...record,
+    review_history: Array.isArray(record.review_history) ? record.review_history : [],
+  }),
+  // Sightings stored before v3 only kept bare URLs, so there is no evidence to reconstruct
+  3: (record) => ({
+    ...record,
+    evidence: Array.isArray(record.evidence) ? record.evidence : [],
+  }),
+  // Domain intel is optional; entries stored before v4 are enriched on their next sighting or a manual re-check
+  4: (record) => {
+    const { domain_intel, ...rest } = record;
+    return isRecord(domain_intel) && typeof domain_intel.domain === 'string' ? record : rest;
+  },
+};
+
+export const migrateSiteRecord = (record: unknown, fromVersion: number): GamblingSite => {
+  let migrated: SiteRecord = isRecord(record) ? record : {};
+  for (let version = fromVersion + 1; version <= REGISTRY_SCHEMA_VERSION; version++) {
+    const migration = SITE_MIGRATIONS[version];
+    if (migration) migrated = migration(migrated);
+  }
+  return migrated as unknown as GamblingSite;
+};
@@ -0,0 +1,156 @@
+import { GamblingSite, AgentLog } from "../types";
+import { REGISTRY_SCHEMA_VERSION, migrateSiteRecord } from "./registrySchema";
+import { LogRetention, isLogExpired, sortLogsNewestFirst } from "./agentLog";
+
+export interface RegistryState {
+  sites: GamblingSite[];
+  logs: AgentLog[];
+  autoCycleCount: number;
+}
+
+export interface RegistryStore {
+  load(): Promise<RegistryState>;
+  saveSites(sites: GamblingSite[]): Promise<void>;
+  // Logs are passed and loaded newest first
+  saveLogs(logs: AgentLog[]): Promise<void>;
+  // Adds entries without rewriting the stored log, dropping the oldest past the entry cap or age limit
+  appendLogs(logs: AgentLog[], retention: LogRetention): Promise<void>;
+  loadMeta<T>(key: string): Promise<T | undefined>;
+  saveMeta(key: string, value: unknown): Promise<void>;
+}
+
+const DB_NAME = 'gamblshield-registry';
+const SITES_STORE = 'sites';
+const LOGS_STORE = 'logs';
+const META_STORE = 'meta';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const upgradeDatabase = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  if (!db.objectStoreNames.contains(SITES_STORE)) {
+    db.createObjectStore(SITES_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(LOGS_STORE)) {
+    db.createObjectStore(LOGS_STORE, { autoIncrement: true });
+  }
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    db.createObjectStore(META_STORE);
+  }
+
+  // Rewrite existing site records into the current shape
+  if (oldVersion > 0) {
+    const cursorRequest = tx.objectStore(SITES_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update(migrateSiteRecord(cursor.value, oldVersion));
+      cursor.continue();
+    };
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, REGISTRY_SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      upgradeDatabase(request.result, request.transaction!, event.oldVersion);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbRegistryStore = (): RegistryStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  const replaceAll = async (storeName: string, records: unknown[]) => {
+    const db = await getDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    store.clear();
+    records.forEach(record => store.put(record));
+    await transactionDone(tx);
+  };
+
+  return {
+    async load() {
+      const db = await getDb();
+      const tx = db.transaction([SITES_STORE, LOGS_STORE, META_STORE], 'readonly');
+      const [sites, logs, autoCycleCount] = await Promise.all([
+        requestToPromise(tx.objectStore(SITES_STORE).getAll()),
+        requestToPromise(tx.objectStore(LOGS_STORE).getAll()),
+        requestToPromise(tx.objectStore(META_STORE).get('autoCycleCount')),
+      ]);
+      return {
+        sites: sites as GamblingSite[],
+        // Log records are keyed in the order they were written, oldest first
+        logs: sortLogsNewestFirst((logs as AgentLog[]).reverse()),
+        autoCycleCount: typeof autoCycleCount === 'number' ? autoCycleCount : 0,
+      };
+    },
+
+    saveSites(sites) {
+      return replaceAll(SITES_STORE, sites);
+    },
+
+    saveLogs(logs) {
+      return replaceAll(LOGS_STORE, [...logs].reverse());
+    },
+
+    async appendLogs(logs, retention) {
+      const db = await getDb();
+      const tx = db.transaction(LOGS_STORE, 'readwrite');
+      const store = tx.objectStore(LOGS_STORE);
+      [...logs].reverse().forEach(log => store.add(log));
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - retention.maxEntries;
+        const now = new Date();
+        // Keys run oldest first, so pruning stops at the first dated entry within both limits; undated legacy entries are stepped over
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const log: AgentLog = cursor.value;
+          if (excess > 0 || isLogExpired(log, retention, now)) {
+            cursor.delete();
+            excess--;
+          } else if (!Number.isNaN(Date.parse(log.timestamp))) {
+            return;
+          }
+          cursor.continue();
+        };
+      };
+      await transactionDone(tx);
+    },
+
+    async loadMeta<T>(key: string) {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      return (await requestToPromise(tx.objectStore(META_STORE).get(key))) as T | undefined;
+    },
+
+    async saveMeta(key, value) {
+      const db = await getDb();
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(value, key);
+      await transactionDone(tx);
+    },
+  };
+};
+
+export const registryStore = createIndexedDbRegistryStore();
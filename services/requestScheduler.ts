@@ -0,0 +1,194 @@
+import { DiscoveryProvider, DiscoveryResult } from "../types";
+
+export interface SchedulerConfig {
+  // Token bucket: sustained calls per minute and how many may burst at once
+  ratePerMinute: number;
+  burst: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  dailyCallBudget: number;
+  dailyTokenBudget: number;
+}
+
+export interface UsageCounters {
+  // Local calendar day the counters belong to (YYYY-MM-DD); they reset when it changes
+  day: string;
+  calls: number;
+  tokens: number;
+  retries: number;
+  failures: number;
+}
+
+export interface SchedulerClock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  ratePerMinute: 4,
+  burst: 2,
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+  dailyCallBudget: 500,
+  dailyTokenBudget: 2000000,
+};
+
+export class HttpStatusError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const realClock: SchedulerClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise(resolve => setTimeout(resolve, ms)),
+  random: Math.random,
+};
+
+const localDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const emptyUsage = (day: string): UsageCounters => ({ day, calls: 0, tokens: 0, retries: 0, failures: 0 });
+
+// Rate limits (429), server errors (5xx) and network failures are worth retrying; anything else is not
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  return error instanceof TypeError;
+};
+
+export interface RequestScheduler {
+  run(task: () => Promise<DiscoveryResult>): Promise<DiscoveryResult>;
+  getUsage(): UsageCounters;
+  getConfig(): SchedulerConfig;
+  setConfig(config: Partial<SchedulerConfig>): void;
+  restoreUsage(usage: UsageCounters | undefined): void;
+  isBudgetExhausted(): boolean;
+  subscribe(listener: (usage: UsageCounters) => void): () => void;
+}
+
+export const createRequestScheduler = (
+  initialConfig: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG,
+  clock: SchedulerClock = realClock
+): RequestScheduler => {
+  let config = { ...initialConfig };
+  let tokens = config.burst;
+  let lastRefill = clock.now();
+  let usage = emptyUsage(localDay(clock.now()));
+  const listeners = new Set<(usage: UsageCounters) => void>();
+
+  const emit = () => listeners.forEach(listener => listener({ ...usage }));
+
+  const currentUsage = () => {
+    const today = localDay(clock.now());
+    if (usage.day !== today) {
+      usage = emptyUsage(today);
+      emit();
+    }
+    return usage;
+  };
+
+  const isBudgetExhausted = () => {
+    const current = currentUsage();
+    return current.calls >= config.dailyCallBudget || current.tokens >= config.dailyTokenBudget;
+  };
+
+  const refill = () => {
+    const now = clock.now();
+    tokens = Math.min(config.burst, tokens + ((now - lastRefill) * config.ratePerMinute) / 60000);
+    lastRefill = now;
+  };
+
+  const acquire = async () => {
+    refill();
+    while (tokens < 1) {
+      await clock.sleep(Math.ceil(((1 - tokens) * 60000) / config.ratePerMinute));
+      refill();
+    }
+    tokens -= 1;
+  };
+
+  const backoffDelay = (attempt: number) => {
+    const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * Math.pow(2, attempt));
+    // Equal jitter: half the delay is fixed, half random, so parallel clients spread out
+    return Math.round(exponential / 2 + clock.random() * (exponential / 2));
+  };
+
+  return {
+    async run(task) {
+      for (let attempt = 0; ; attempt++) {
+        if (isBudgetExhausted()) {
+          throw new BudgetExceededError(`Daily API budget exhausted (${usage.calls}/${config.dailyCallBudget} calls, ${usage.tokens}/${config.dailyTokenBudget} tokens)`);
+        }
+        await acquire();
+        const current = currentUsage();
+        usage = { ...current, calls: current.calls + 1 };
+        emit();
+
+        try {
+          const result = await task();
+          usage = { ...usage, tokens: usage.tokens + (result.usage?.totalTokens ?? 0) };
+          emit();
+          return result;
+        } catch (error) {
+          if (!isRetryableError(error) || attempt >= config.maxRetries) {
+            usage = { ...usage, failures: usage.failures + 1 };
+            emit();
+            throw error;
+          }
+          usage = { ...usage, retries: usage.retries + 1 };
+          emit();
+          await clock.sleep(backoffDelay(attempt));
+        }
+      }
+    },
+
+    getUsage: () => ({ ...currentUsage() }),
+
+    getConfig: () => ({ ...config }),
+
+    setConfig(next) {
+      config = { ...config, ...next };
+      tokens = Math.min(tokens, config.burst);
+    },
+
+    restoreUsage(saved) {
+      if (saved && saved.day === localDay(clock.now())) {
+        usage = { ...emptyUsage(saved.day), ...saved };
+        emit();
+      }
+    },
+
+    isBudgetExhausted,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Routes every discovery call of a provider through the scheduler
+export const withScheduler = (provider: DiscoveryProvider, scheduler: RequestScheduler): DiscoveryProvider => ({
+  id: provider.id,
+  label: provider.label,
+  discover: (query, knownPatterns, region) => scheduler.run(() => provider.discover(query, knownPatterns, region)),
+});
@@ -0,0 +1,160 @@
+import { SiteEvidence, ValidationIssue } from "../types";
+import { normalizeSiteKeyword } from "./keywordNormalizer";
+import { RegionProfile } from "./regionProfiles";
+
+const MIN_NAME_LENGTH = 3;
+const MAX_NAME_LENGTH = 64;
+
+// Vocabulary that describes gambling in general rather than naming a platform
+const GENERIC_TERMS = [
+  'situs', 'link', 'daftar', 'login', 'agen', 'bandar', 'judi', 'online', 'slot', 'gacor', 'togel', 'casino', 'kasino',
+  'poker', 'maxwin', 'bonus', 'jackpot', 'scatter', 'rtp', 'deposit', 'depo', 'game', 'games', 'bet', 'betting',
+  'terbaru', 'terpercaya', 'resmi', 'alternatif', 'hari', 'ini', 'gampang', 'menang', 'new', 'member', 'vip',
+];
+
+export interface ValidatedSite {
+  site_name: string;
+  normalized_name: string;
+  confidence_score: number;
+  sources: string[];
+  evidence: SiteEvidence[];
+}
+
+export interface ParsedResponse {
+  payload: unknown;
+  issues: ValidationIssue[];
+}
+
+// A name is generic when nothing but gambling vocabulary remains after removing it
+export const isGenericName = (normalized: string, regionalTerms: string[] = []): boolean => {
+  let remainder = normalized;
+  [...GENERIC_TERMS, ...regionalTerms].sort((a, b) => b.length - a.length).forEach(term => {
+    remainder = remainder.split(term).join('');
+  });
+  return remainder.length === 0;
+};
+
+// Why a normalized name cannot be a platform name, or null when it can; imports apply the same rules as model output
+export const getNameRejection = (normalized: string, regionalTerms?: string[]): string | null => {
+  if (normalized.length < MIN_NAME_LENGTH || normalized.length > MAX_NAME_LENGTH) return `Name length outside ${MIN_NAME_LENGTH}-${MAX_NAME_LENGTH}`;
+  if (isGenericName(normalized, regionalTerms)) return `Generic term "${normalized}" is not a platform name`;
+  return null;
+};
+
+// Returns the first balanced {...} or [...] block in text, ignoring brackets inside strings
+const findJsonBlock = (text: string): string | null => {
+  const start = text.search(/[{[]/);
+  if (start < 0) return null;
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+};
+
+// Parses model output, recovering JSON wrapped in markdown fences or surrounded by prose
+export const parseJsonResponse = (text: string | undefined): ParsedResponse => {
+  const issues: ValidationIssue[] = [];
+  const raw = (text ?? '').trim();
+  if (!raw) {
+    issues.push({ index: null, action: 'rejected', message: 'Empty model response' });
+    return { payload: null, issues };
+  }
+
+  try {
+    return { payload: JSON.parse(raw), issues };
+  } catch {
+    // Fall through to recovery
+  }
+
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1].trim() : findJsonBlock(raw);
+  if (candidate) {
+    try {
+      const payload = JSON.parse(candidate);
+      issues.push({ index: null, action: 'repaired', message: fenced ? 'Recovered JSON from markdown fence' : 'Recovered JSON embedded in prose' });
+      return { payload, issues };
+    } catch {
+      // Unrecoverable; reported below
+    }
+  }
+
+  issues.push({ index: null, action: 'rejected', message: 'Response is not valid JSON', value: raw.slice(0, 200) });
+  return { payload: null, issues };
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Accepts {extracted_sites: [...]} as requested, or a bare array some models return instead
+export const getExtractedItems = (payload: unknown): unknown[] => {
+  if (Array.isArray(payload)) return payload;
+  if (isRecord(payload) && Array.isArray(payload.extracted_sites)) return payload.extracted_sites;
+  return [];
+};
+
+export const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+export const validateDiscoveryItems = (items: unknown[], region?: RegionProfile): { sites: ValidatedSite[]; issues: ValidationIssue[] } => {
+  const sites: ValidatedSite[] = [];
+  const issues: ValidationIssue[] = [];
+
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object') {
+      issues.push({ index, action: 'rejected', message: 'Item is not an object', value: item });
+      return;
+    }
+    const record = item as Record<string, unknown>;
+
+    let siteName = asString(record.site_name);
+    const rawNormalized = asString(record.normalized_name);
+    if (!siteName && rawNormalized) {
+      siteName = rawNormalized;
+      issues.push({ index, field: 'site_name', action: 'repaired', message: 'Missing site_name; using normalized_name' });
+    }
+    if (!siteName) {
+      issues.push({ index, field: 'site_name', action: 'rejected', message: 'Missing site name', value: record.site_name });
+      return;
+    }
+
+    const normalized = normalizeSiteKeyword(rawNormalized, siteName, region?.normalization);
+    if (rawNormalized && normalized !== rawNormalized) {
+      issues.push({ index, field: 'normalized_name', action: 'repaired', message: `Re-normalized "${rawNormalized}" to "${normalized}"` });
+    }
+    const rejection = getNameRejection(normalized, region?.genericTerms);
+    if (rejection) {
+      issues.push({ index, field: 'normalized_name', action: 'rejected', message: rejection, value: normalized });
+      return;
+    }
+
+    const confidence = typeof record.confidence_score === 'string' ? Number(record.confidence_score) : record.confidence_score;
+    if (typeof confidence !== 'number' || !Number.isFinite(confidence)) {
+      issues.push({ index, field: 'confidence_score', action: 'rejected', message: 'Missing or non-numeric confidence_score', value: record.confidence_score });
+      return;
+    }
+    const clamped = Math.min(1, Math.max(0, confidence));
+    if (clamped !== confidence) {
+      issues.push({ index, field: 'confidence_score', action: 'repaired', message: `Clamped confidence ${confidence} to ${clamped}` });
+    }
+
+    const sources = Array.isArray(record.sources) ? record.sources.filter((s): s is string => typeof s === 'string') : [];
+    const evidence = Array.isArray(record.evidence)
+      ? record.evidence.filter((e): e is SiteEvidence => !!e && typeof e.url === 'string' && typeof e.snippet === 'string')
+      : [];
+
+    sites.push({ site_name: siteName, normalized_name: normalized, confidence_score: clamped, sources, evidence });
+  });
+
+  return { sites, issues };
+};
@@ -0,0 +1,32 @@
+import { GamblingSite, ReviewDecision, ReviewVerdict, SiteStatus } from "../types";
+
+// Discoveries below this confidence wait for a human decision before they are treated as active
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const getInitialStatus = (confidence: number): SiteStatus =>
+  confidence < REVIEW_CONFIDENCE_THRESHOLD ? SiteStatus.FLAGGED : SiteStatus.ACTIVE;
+
+// Pending items, most recently seen first so fresh spam waves get triaged before stale ones
+export const getReviewQueue = (sites: GamblingSite[]): GamblingSite[] =>
+  sites
+    .filter(site => site.status === SiteStatus.FLAGGED)
+    .sort((a, b) => new Date(b.last_seen).getTime() - new Date(a.last_seen).getTime());
+
+export const applyReviewDecision = (
+  site: GamblingSite,
+  verdict: ReviewVerdict,
+  reviewer: string,
+  note?: string
+): GamblingSite => {
+  const decision: ReviewDecision = {
+    verdict,
+    reviewer: reviewer.trim() || 'anonymous',
+    timestamp: new Date().toISOString(),
+    ...(note?.trim() ? { note: note.trim() } : {}),
+  };
+  return {
+    ...site,
+    status: verdict === 'approved' ? SiteStatus.ACTIVE : SiteStatus.FALSE_POSITIVE,
+    review_history: [...site.review_history, decision],
+  };
+};
@@ -5,6 +5,40 @@ export enum SiteStatus {
   FALSE_POSITIVE = 'false_positive'
 }
 
+export type ReviewVerdict = 'approved' | 'rejected';
+
+export interface ReviewDecision {
+  verdict: ReviewVerdict;
+  reviewer: string;
+  note?: string;
+  timestamp: string;
+}
+
+export interface SiteEvidence {
+  url: string;
+  title?: string;
+  snippet: string;
+  query: string;
+  timestamp: string;
+}
+
+export interface DomainIntel {
+  // Registrable domain (label plus public suffix) parsed from the site name
+  domain: string;
+  tld: string;
+  blocklisted: boolean;
+  blocklist_label?: string;
+  // Hosts visited from the domain to the final landing page, as reported by the resolver
+  redirect_chain: string[];
+  aliases: string[];
+  // Undefined when no resolver was configured or it failed for this domain
+  live?: boolean;
+  signals: string[];
+  // Amount the enrichment added to (or removed from) the confidence score
+  confidence_delta: number;
+  checked_at: string;
+}
+
 export interface GamblingSite {
   id: string;
   site_name: string;
@@ -15,15 +49,78 @@ export interface GamblingSite {
   status: SiteStatus;
   source_count: number;
   sources: string[];
+  review_history: ReviewDecision[];
+  evidence: SiteEvidence[];
+  domain_intel?: DomainIntel;
+  // Region profiles whose discovery cycles found the entry; absent on entries from before regions existed
+  regions?: string[];
 }
 
 export interface AgentLog {
+  // ISO 8601; entries from before the log was structured hold a locale time of day
   timestamp: string;
   message: string;
   type: 'info' | 'success' | 'warning' | 'error';
+  // Machine-readable event name, e.g. cycle_start, sites_added, validation
+  kind?: string;
+  // Discovery cycle the entry belongs to, shared with the cycle's analytics record
+  cycleId?: string;
+  query?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface ValidationIssue {
+  // Position in the model's extracted_sites array, or null for response-level problems
+  index: number | null;
+  field?: string;
+  action: 'rejected' | 'repaired';
+  message: string;
+  value?: unknown;
 }
 
 export interface DiscoveryResult {
-  sites: Partial<GamblingSite>[];
+  // Raw items as returned by the model; validated by the discovery service
+  sites: unknown[];
   logs: string[];
+  sources: string[];
+  issues: ValidationIssue[];
+  usage?: { totalTokens: number };
+}
+
+export interface DiscoveryProvider {
+  id: string;
+  label: string;
+  // `region` selects the region profile the prompt is written for (the default region when omitted)
+  discover(query: string, knownPatterns: string[], region?: string): Promise<DiscoveryResult>;
+}
+
+export interface DomainResolution {
+  live: boolean;
+  redirect_chain: string[];
+  aliases: string[];
+}
+
+export interface DomainResolver {
+  id: string;
+  // Resolves to null when the resolver knows nothing about the domain
+  resolve(domain: string): Promise<DomainResolution | null>;
+}
+
+export interface ExportChunk {
+  filename: string;
+  content: string;
+  count: number;
+}
+
+export interface ExportResult {
+  chunks: ExportChunk[];
+  warnings: string[];
+}
+
+export interface ExportFormatter {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  format(keywords: string[], baseName: string): ExportResult;
 }